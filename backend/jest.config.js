@@ -20,8 +20,6 @@ module.exports = {
   ],
   setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
   testPathIgnorePatterns: [
-    '/node_modules/',
-    '/src/__tests__/controllers/',
-    '/src/__tests__/middleware/'
+    '/node_modules/'
   ]
 };
\ No newline at end of file
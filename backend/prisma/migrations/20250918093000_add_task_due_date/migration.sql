@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "hasDueTime" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_dueDate_idx" ON "public"."tasks"("userId", "dueDate");
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."TaskPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "priority" "public"."TaskPriority" NOT NULL DEFAULT 'MEDIUM';
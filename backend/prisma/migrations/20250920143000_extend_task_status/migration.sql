@@ -0,0 +1,11 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+-- Active states are placed before COMPLETED so sorting by status keeps open work first
+ALTER TYPE "public"."TaskStatus" ADD VALUE 'IN_PROGRESS' BEFORE 'COMPLETED';
+ALTER TYPE "public"."TaskStatus" ADD VALUE 'BLOCKED' BEFORE 'COMPLETED';
+ALTER TYPE "public"."TaskStatus" ADD VALUE 'CANCELLED';
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: start every user's manual order newest first, spaced like new positions
+UPDATE "public"."tasks" AS t
+SET "position" = ranked."rank" * 1024
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "userId" ORDER BY "createdAt" DESC, "id" DESC) AS "rank"
+  FROM "public"."tasks"
+) AS ranked
+WHERE t."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_position_idx" ON "public"."tasks"("userId", "position");
@@ -0,0 +1,9 @@
+-- AlterTable
+-- Titles weigh more than descriptions when ranking matches
+ALTER TABLE "public"."tasks" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "tasks_search_vector_idx" ON "public"."tasks" USING GIN ("search_vector");
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "public"."Role" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "disabledAt" TIMESTAMP(3),
+ADD COLUMN     "role" "public"."Role" NOT NULL DEFAULT 'USER';
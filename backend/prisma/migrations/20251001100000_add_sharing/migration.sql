@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "public"."ShareRole" AS ENUM ('VIEWER', 'EDITOR');
+
+-- CreateTable
+CREATE TABLE "public"."task_shares" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" "public"."ShareRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."project_shares" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" "public"."ShareRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_shares_userId_idx" ON "public"."task_shares"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_shares_taskId_userId_key" ON "public"."task_shares"("taskId", "userId");
+
+-- CreateIndex
+CREATE INDEX "project_shares_userId_idx" ON "public"."project_shares"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_shares_projectId_userId_key" ON "public"."project_shares"("projectId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_shares" ADD CONSTRAINT "task_shares_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_shares" ADD CONSTRAINT "task_shares_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_shares" ADD CONSTRAINT "project_shares_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_shares" ADD CONSTRAINT "project_shares_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
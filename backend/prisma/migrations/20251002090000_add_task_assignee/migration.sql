@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "assigneeId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "tasks_assigneeId_idx" ON "public"."tasks"("assigneeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "public"."TaskEventAction" AS ENUM ('CREATED', 'UPDATED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "public"."task_events" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "action" "public"."TaskEventAction" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "actorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_events_taskId_createdAt_idx" ON "public"."task_events"("taskId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "task_events_actorId_idx" ON "public"."task_events"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_events" ADD CONSTRAINT "task_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."TaskEventAction" ADD VALUE 'RESTORED';
+
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "tasks_deletedAt_idx" ON "public"."tasks"("deletedAt");
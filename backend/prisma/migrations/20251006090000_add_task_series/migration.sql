@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "seriesId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."task_series" (
+    "id" SERIAL NOT NULL,
+    "frequency" "public"."RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "weekdays" INTEGER[],
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "hasDueTime" BOOLEAN NOT NULL DEFAULT false,
+    "timeZone" TEXT NOT NULL,
+    "until" TIMESTAMP(3),
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" "public"."TaskPriority" NOT NULL DEFAULT 'MEDIUM',
+    "userId" INTEGER NOT NULL,
+    "assigneeId" INTEGER,
+    "projectId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_TagToTaskSeries" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_TagToTaskSeries_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "tasks_seriesId_idx" ON "public"."tasks"("seriesId");
+
+-- CreateIndex
+CREATE INDEX "task_series_userId_idx" ON "public"."task_series"("userId");
+
+-- CreateIndex
+CREATE INDEX "_TagToTaskSeries_B_index" ON "public"."_TagToTaskSeries"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "public"."task_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_series" ADD CONSTRAINT "task_series_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_series" ADD CONSTRAINT "task_series_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_series" ADD CONSTRAINT "task_series_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_TagToTaskSeries" ADD CONSTRAINT "_TagToTaskSeries_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_TagToTaskSeries" ADD CONSTRAINT "_TagToTaskSeries_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."task_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."task_dependencies" (
+    "id" SERIAL NOT NULL,
+    "blockerId" INTEGER NOT NULL,
+    "blockedId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_dependencies_blockerId_idx" ON "public"."task_dependencies"("blockerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_dependencies_blockedId_blockerId_key" ON "public"."task_dependencies"("blockedId", "blockerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_blockerId_fkey" FOREIGN KEY ("blockerId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_blockedId_fkey" FOREIGN KEY ("blockedId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
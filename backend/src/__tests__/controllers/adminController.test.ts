@@ -0,0 +1,183 @@
+import request from 'supertest';
+import express from 'express';
+import { getUsers, getStats, updateUser } from '../../controllers/adminController';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware; role checks are covered by the middleware tests
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'admin', role: 'ADMIN', sessionId: 'session' };
+  next();
+});
+
+app.get('/admin/users', getUsers);
+app.get('/admin/stats', getStats);
+app.patch('/admin/users/:id', updateUser);
+
+describe('Admin Controller', () => {
+  const mockUser = {
+    id: 2,
+    username: 'testuser',
+    email: null,
+    role: 'USER',
+    disabledAt: null,
+    totpEnabledAt: null,
+    createdAt: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.task.groupBy.mockResolvedValue([]);
+    mockPrisma.$transaction.mockImplementation((operations: Promise<unknown>[]) => Promise.all(operations));
+  });
+
+  describe('GET /admin/users', () => {
+    it('should list users with their task counts', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([mockUser]);
+      mockPrisma.user.count.mockResolvedValue(1);
+      mockPrisma.task.groupBy.mockResolvedValue([
+        { userId: 2, status: 'PENDING', _count: { _all: 3 } },
+        { userId: 2, status: 'COMPLETED', _count: { _all: 1 } }
+      ]);
+
+      const response = await request(app).get('/admin/users');
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(response.body.users[0]).toEqual(expect.objectContaining({
+        id: 2,
+        username: 'testuser',
+        twoFactorEnabled: false,
+        taskCount: 4,
+        taskCounts: expect.objectContaining({ PENDING: 3, COMPLETED: 1, IN_PROGRESS: 0 })
+      }));
+      expect(response.body.users[0]).not.toHaveProperty('password');
+      // Tasks in the trash are not counted
+      expect(mockPrisma.task.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: { in: [2] }, deletedAt: null }
+      }));
+      expect(response.body.users[0]).not.toHaveProperty('totpEnabledAt');
+    });
+
+    it('should search by username or email', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+      mockPrisma.user.count.mockResolvedValue(0);
+
+      await request(app).get('/admin/users?search=test');
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          OR: [
+            { username: { contains: 'test', mode: 'insensitive' } },
+            { email: { contains: 'test', mode: 'insensitive' } }
+          ]
+        }
+      }));
+    });
+
+    it('should return 400 for an invalid page size', async () => {
+      const response = await request(app).get('/admin/users?limit=500');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /admin/stats', () => {
+    it('should return user and task totals', async () => {
+      mockPrisma.user.count
+        .mockResolvedValueOnce(10)
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(2);
+      mockPrisma.task.groupBy.mockResolvedValue([
+        { status: 'PENDING', _count: { _all: 5 } },
+        { status: 'BLOCKED', _count: { _all: 2 } }
+      ]);
+
+      const response = await request(app).get('/admin/stats');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        users: 10,
+        admins: 1,
+        disabledUsers: 2,
+        tasks: 7,
+        tasksByStatus: { PENDING: 5, IN_PROGRESS: 0, BLOCKED: 2, COMPLETED: 0, CANCELLED: 0 }
+      });
+      expect(mockPrisma.task.groupBy).toHaveBeenCalledWith(expect.objectContaining({ where: { deletedAt: null } }));
+    });
+  });
+
+  describe('PATCH /admin/users/:id', () => {
+    it('should disable a user and end their sessions', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 2, disabledAt: null });
+      mockPrisma.user.update.mockResolvedValue({ ...mockUser, disabledAt: new Date() });
+
+      const response = await request(app)
+        .patch('/admin/users/2')
+        .send({ disabled: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.disabledAt).not.toBeNull();
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 2 },
+        data: { disabledAt: expect.any(Date) }
+      }));
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 2, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it('should enable a user without touching sessions', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 2, disabledAt: new Date() });
+      mockPrisma.user.update.mockResolvedValue(mockUser);
+
+      const response = await request(app)
+        .patch('/admin/users/2')
+        .send({ disabled: false });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { disabledAt: null }
+      }));
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins disable or demote themselves', async () => {
+      const disableResponse = await request(app)
+        .patch('/admin/users/1')
+        .send({ disabled: true });
+      const demoteResponse = await request(app)
+        .patch('/admin/users/1')
+        .send({ role: 'USER' });
+
+      expect(disableResponse.status).toBe(400);
+      expect(demoteResponse.status).toBe(400);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown role', async () => {
+      const response = await request(app)
+        .patch('/admin/users/2')
+        .send({ role: 'OWNER' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .patch('/admin/users/99')
+        .send({ disabled: true });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'User not found' });
+    });
+  });
+});
@@ -1,33 +1,70 @@
 import request from 'supertest';
 import express from 'express';
 import bcrypt from 'bcrypt';
-import { PrismaClient } from '../../generated/prisma';
-import { register, login } from '../../controllers/authController';
-import { generateToken } from '../../utils/jwt';
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
+  changePassword,
+  changeUsername,
+  deleteAccount,
+  forgotPassword,
+  resetPassword,
+  loginTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor
+} from '../../controllers/authController';
+import { generateToken, generateChallengeToken, verifyChallengeToken } from '../../utils/jwt';
+import { encodeBase32, generateTotp, getTimeStep } from '../../utils/totp';
+import { createRefreshToken } from '../../utils/refreshToken';
+import { createResetToken } from '../../utils/resetToken';
+import { sendMail } from '../../utils/mail';
 
 // Mock dependencies
-jest.mock('../../generated/prisma');
 jest.mock('../../utils/jwt');
+jest.mock('../../utils/mail');
 jest.mock('bcrypt');
 
-const mockPrisma = {
-  user: {
-    findUnique: jest.fn(),
-    create: jest.fn()
-  }
-} as unknown as PrismaClient;
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
 
 const mockGenerateToken = generateToken as jest.MockedFunction<typeof generateToken>;
 const mockBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
+const mockSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+const mockGenerateChallengeToken = generateChallengeToken as jest.MockedFunction<typeof generateChallengeToken>;
+const mockVerifyChallengeToken = verifyChallengeToken as jest.MockedFunction<typeof verifyChallengeToken>;
 
 // Setup express app for testing
 const app = express();
 app.use(express.json());
 app.post('/auth/register', register);
 app.post('/auth/login', login);
-
-// Mock PrismaClient constructor
-(PrismaClient as jest.MockedClass<typeof PrismaClient>).mockImplementation(() => mockPrisma);
+app.post('/auth/refresh', refresh);
+app.post('/auth/forgot-password', forgotPassword);
+app.post('/auth/reset-password', resetPassword);
+app.post('/auth/login/2fa', loginTwoFactor);
+
+// Session routes run behind a mocked auth middleware
+const currentSessionId = '0b6f3d5e-8c1a-4f7e-9d2b-3a4c5e6f7a8b';
+const mockAuth: express.RequestHandler = (req, res, next) => {
+  req.user = { userId: 1, username: 'testuser', role: 'USER', sessionId: currentSessionId };
+  next();
+};
+app.post('/auth/logout', mockAuth, logout);
+app.post('/auth/logout-all', mockAuth, logoutAll);
+app.get('/auth/sessions', mockAuth, getSessions);
+app.delete('/auth/sessions/:id', mockAuth, revokeSession);
+app.put('/auth/password', mockAuth, changePassword);
+app.put('/auth/username', mockAuth, changeUsername);
+app.delete('/auth/account', mockAuth, deleteAccount);
+app.post('/auth/2fa/setup', mockAuth, setupTwoFactor);
+app.post('/auth/2fa/enable', mockAuth, enableTwoFactor);
+app.post('/auth/2fa/disable', mockAuth, disableTwoFactor);
 
 describe('Auth Controller', () => {
   beforeEach(() => {
@@ -43,7 +80,10 @@ describe('Auth Controller', () => {
     const mockCreatedUser = {
       id: 1,
       username: 'testuser',
+      email: null,
+      role: 'USER',
       password: 'hashedpassword',
+      totpEnabledAt: null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -51,7 +91,7 @@ describe('Auth Controller', () => {
     it('should register a new user successfully', async () => {
       mockPrisma.user.findUnique = jest.fn().mockResolvedValue(null);
       mockPrisma.user.create = jest.fn().mockResolvedValue(mockCreatedUser);
-      mockBcrypt.hash.mockResolvedValue('hashedpassword');
+      mockBcrypt.hash.mockResolvedValue('hashedpassword' as never);
       mockGenerateToken.mockReturnValue('mock-jwt-token');
 
       const response = await request(app)
@@ -61,9 +101,13 @@ describe('Auth Controller', () => {
       expect(response.status).toBe(201);
       expect(response.body).toEqual({
         token: 'mock-jwt-token',
+        refreshToken: expect.stringMatching(/^[0-9a-f-]{36}\.[\w-]+$/),
         user: {
           id: 1,
-          username: 'testuser'
+          username: 'testuser',
+          email: null,
+          role: 'USER',
+          twoFactorEnabled: false
         }
       });
 
@@ -74,12 +118,18 @@ describe('Auth Controller', () => {
       expect(mockPrisma.user.create).toHaveBeenCalledWith({
         data: {
           username: 'testuser',
+          email: null,
           password: 'hashedpassword'
         }
       });
       expect(mockGenerateToken).toHaveBeenCalledWith({
         userId: 1,
-        username: 'testuser'
+        username: 'testuser',
+        role: 'USER',
+        sessionId: expect.any(String)
+      });
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, tokenHash: expect.any(String) })
       });
     });
 
@@ -132,6 +182,18 @@ describe('Auth Controller', () => {
       });
     });
 
+    it('should return 400 for an email that is not a string', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/auth/register')
+        .send({ ...validUser, email: { address: 'test@example.com' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid email address' });
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
     it('should return 500 if database error occurs', async () => {
       mockPrisma.user.findUnique = jest.fn().mockRejectedValue(new Error('Database error'));
 
@@ -155,14 +217,19 @@ describe('Auth Controller', () => {
     const mockUser = {
       id: 1,
       username: 'testuser',
+      email: null,
+      role: 'USER',
       password: 'hashedpassword',
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      totpEnabledAt: null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
     it('should login user successfully with valid credentials', async () => {
       mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
-      mockBcrypt.compare.mockResolvedValue(true);
+      mockBcrypt.compare.mockResolvedValue(true as never);
       mockGenerateToken.mockReturnValue('mock-jwt-token');
 
       const response = await request(app)
@@ -172,9 +239,13 @@ describe('Auth Controller', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         token: 'mock-jwt-token',
+        refreshToken: expect.stringMatching(/^[0-9a-f-]{36}\.[\w-]+$/),
         user: {
           id: 1,
-          username: 'testuser'
+          username: 'testuser',
+          email: null,
+          role: 'USER',
+          twoFactorEnabled: false
         }
       });
 
@@ -184,7 +255,12 @@ describe('Auth Controller', () => {
       expect(mockBcrypt.compare).toHaveBeenCalledWith('password123', 'hashedpassword');
       expect(mockGenerateToken).toHaveBeenCalledWith({
         userId: 1,
-        username: 'testuser'
+        username: 'testuser',
+        role: 'USER',
+        sessionId: expect.any(String)
+      });
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, tokenHash: expect.any(String) })
       });
     });
 
@@ -225,7 +301,8 @@ describe('Auth Controller', () => {
 
     it('should return 401 if password is invalid', async () => {
       mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
-      mockBcrypt.compare.mockResolvedValue(false);
+      mockPrisma.user.update = jest.fn().mockResolvedValue({ failedLoginAttempts: 1 });
+      mockBcrypt.compare.mockResolvedValue(false as never);
 
       const response = await request(app)
         .post('/auth/login')
@@ -235,6 +312,88 @@ describe('Auth Controller', () => {
       expect(response.body).toEqual({
         error: 'Invalid credentials'
       });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true }
+      });
+    });
+
+    it('should lock the account once too many passwords failed', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ ...mockUser, failedLoginAttempts: 4 });
+      mockPrisma.user.update = jest.fn().mockResolvedValue({ failedLoginAttempts: 5 });
+      mockBcrypt.compare.mockResolvedValue(false as never);
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(validCredentials);
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('60');
+      expect(response.body).toEqual({
+        error: 'Account temporarily locked',
+        retryAfter: 60
+      });
+      expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: 1 },
+        data: { lockedUntil: expect.any(Date) }
+      });
+    });
+
+    it('should refuse a locked account without checking the password', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({
+        ...mockUser,
+        failedLoginAttempts: 5,
+        lockedUntil: new Date(Date.now() + 30 * 1000)
+      });
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(validCredentials);
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(response.body.error).toBe('Account temporarily locked');
+      expect(mockBcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it('should reset failed attempts after a successful login', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({
+        ...mockUser,
+        failedLoginAttempts: 5,
+        lockedUntil: new Date(Date.now() - 1000)
+      });
+      mockPrisma.user.update = jest.fn().mockResolvedValue(mockUser);
+      mockBcrypt.compare.mockResolvedValue(true as never);
+      mockGenerateToken.mockReturnValue('mock-jwt-token');
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(validCredentials);
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { failedLoginAttempts: 0, lockedUntil: null }
+      });
+    });
+
+    it('should ask for a code instead of signing in when two-factor authentication is enabled', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ ...mockUser, totpEnabledAt: new Date() });
+      mockBcrypt.compare.mockResolvedValue(true as never);
+      mockGenerateChallengeToken.mockReturnValue('mock-challenge-token');
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send(validCredentials);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        twoFactorRequired: true,
+        challengeToken: 'mock-challenge-token'
+      });
+      expect(mockGenerateChallengeToken).toHaveBeenCalledWith(1);
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
     });
 
     it('should return 500 if database error occurs', async () => {
@@ -250,4 +409,560 @@ describe('Auth Controller', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('POST /auth/refresh', () => {
+    const sessionId = '0b6f3d5e-8c1a-4f7e-9d2b-3a4c5e6f7a8b';
+    const { token: refreshToken, tokenHash } = createRefreshToken(sessionId);
+
+    const mockSession = {
+      id: sessionId,
+      userId: 1,
+      tokenHash,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      user: { id: 1, username: 'testuser', role: 'USER' }
+    };
+
+    it('should rotate the refresh token and issue a new access token', async () => {
+      mockPrisma.session.findUnique = jest.fn().mockResolvedValue(mockSession);
+      mockPrisma.session.updateMany = jest.fn().mockResolvedValue({ count: 1 });
+      mockGenerateToken.mockReturnValue('new-jwt-token');
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(response.body.token).toBe('new-jwt-token');
+      expect(response.body.refreshToken).not.toBe(refreshToken);
+      expect(response.body.refreshToken.startsWith(`${sessionId}.`)).toBe(true);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: sessionId, tokenHash, revokedAt: null },
+        data: expect.objectContaining({ tokenHash: expect.not.stringMatching(tokenHash) })
+      });
+      expect(mockGenerateToken).toHaveBeenCalledWith({ userId: 1, username: 'testuser', role: 'USER', sessionId });
+    });
+
+    it('should revoke the session when an old token is reused', async () => {
+      mockPrisma.session.findUnique = jest.fn().mockResolvedValue(mockSession);
+      mockPrisma.session.update = jest.fn().mockResolvedValue(mockSession);
+      const { token: rotatedToken } = createRefreshToken(sessionId);
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: rotatedToken });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'Refresh token reuse detected' });
+      expect(mockPrisma.session.update).toHaveBeenCalledWith({
+        where: { id: sessionId },
+        data: { revokedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a revoked or expired session', async () => {
+      mockPrisma.session.findUnique = jest.fn()
+        .mockResolvedValueOnce({ ...mockSession, revokedAt: new Date() })
+        .mockResolvedValueOnce({ ...mockSession, expiresAt: new Date(Date.now() - 1000) });
+
+      const revoked = await request(app).post('/auth/refresh').send({ refreshToken });
+      const expired = await request(app).post('/auth/refresh').send({ refreshToken });
+
+      expect(revoked.status).toBe(401);
+      expect(expired.status).toBe(401);
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a malformed token without touching the database', async () => {
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'not-a-token' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'Invalid refresh token' });
+      expect(mockPrisma.session.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when a concurrent refresh rotated the token first', async () => {
+      mockPrisma.session.findUnique = jest.fn().mockResolvedValue(mockSession);
+      mockPrisma.session.updateMany = jest.fn().mockResolvedValue({ count: 0 });
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    it('should revoke only the current session', async () => {
+      mockPrisma.session.updateMany = jest.fn().mockResolvedValue({ count: 1 });
+
+      const response = await request(app).post('/auth/logout');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: currentSessionId, userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+  });
+
+  describe('POST /auth/logout-all', () => {
+    it('should revoke every active session of the user', async () => {
+      mockPrisma.session.updateMany = jest.fn().mockResolvedValue({ count: 3 });
+
+      const response = await request(app).post('/auth/logout-all');
+
+      expect(response.status).toBe(200);
+      expect(response.body.revokedSessions).toBe(3);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+  });
+
+  describe('GET /auth/sessions', () => {
+    it('should list active sessions and mark the current one', async () => {
+      const now = new Date();
+      mockPrisma.session.findMany = jest.fn().mockResolvedValue([
+        { id: currentSessionId, userAgent: 'Firefox', ipAddress: '::1', createdAt: now, lastUsedAt: now, expiresAt: now },
+        { id: 'other-session', userAgent: null, ipAddress: null, createdAt: now, lastUsedAt: now, expiresAt: now }
+      ]);
+
+      const response = await request(app).get('/auth/sessions');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((session: { id: string; current: boolean }) => [session.id, session.current])).toEqual([
+        [currentSessionId, true],
+        ['other-session', false]
+      ]);
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 1, revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+        orderBy: { lastUsedAt: 'desc' }
+      }));
+      expect(response.body[0].tokenHash).toBeUndefined();
+    });
+  });
+
+  describe('DELETE /auth/sessions/:id', () => {
+    it('should revoke a session of the user', async () => {
+      mockPrisma.session.updateMany = jest.fn().mockResolvedValue({ count: 1 });
+
+      const response = await request(app).delete('/auth/sessions/other-session');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'other-session', userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it('should return 404 for a session of another user or one already revoked', async () => {
+      mockPrisma.session.updateMany = jest.fn().mockResolvedValue({ count: 0 });
+
+      const response = await request(app).delete('/auth/sessions/foreign-session');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Session not found or access denied' });
+    });
+  });
+
+  describe('PUT /auth/password', () => {
+    const mockUser = { id: 1, username: 'testuser', password: 'hashedpassword' };
+
+    it('should change the password and end the other sessions', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
+      mockBcrypt.compare.mockResolvedValue(true as never);
+      mockBcrypt.hash.mockResolvedValue('newhash' as never);
+      mockPrisma.$transaction = jest.fn().mockResolvedValue([mockUser, { count: 2 }]);
+
+      const response = await request(app)
+        .put('/auth/password')
+        .send({ currentPassword: 'password123', newPassword: 'newpassword123' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.revokedSessions).toBe(2);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { password: 'newhash' }
+      });
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, id: { not: currentSessionId }, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it('should return 403 if the current password is wrong', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
+      mockBcrypt.compare.mockResolvedValue(false as never);
+
+      const response = await request(app)
+        .put('/auth/password')
+        .send({ currentPassword: 'wrong', newPassword: 'newpassword123' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Current password is incorrect' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the new password is too short', async () => {
+      const response = await request(app)
+        .put('/auth/password')
+        .send({ currentPassword: 'password123', newPassword: '123' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /auth/username', () => {
+    it('should rename the user and issue a token with the new name', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(null);
+      mockPrisma.user.update = jest.fn().mockResolvedValue({ id: 1, username: 'renamed', email: null, role: 'USER', totpEnabledAt: null });
+      mockGenerateToken.mockReturnValue('renamed-jwt-token');
+
+      const response = await request(app)
+        .put('/auth/username')
+        .send({ username: 'renamed' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ token: 'renamed-jwt-token', user: { id: 1, username: 'renamed', email: null, role: 'USER', twoFactorEnabled: false } });
+      expect(mockGenerateToken).toHaveBeenCalledWith({ userId: 1, username: 'renamed', role: 'USER', sessionId: currentSessionId });
+    });
+
+    it('should return 409 if the username is taken by someone else', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ id: 2, username: 'taken' });
+
+      const response = await request(app)
+        .put('/auth/username')
+        .send({ username: 'taken' });
+
+      expect(response.status).toBe(409);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid username', async () => {
+      const response = await request(app)
+        .put('/auth/username')
+        .send({ username: 'no spaces!' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /auth/account', () => {
+    const mockUser = { id: 1, username: 'testuser', password: 'hashedpassword' };
+
+    it('should delete the user after confirming the password', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
+      mockBcrypt.compare.mockResolvedValue(true as never);
+
+      const response = await request(app)
+        .delete('/auth/account')
+        .send({ password: 'password123' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+
+    it('should return 403 and keep the account if the password is wrong', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
+      mockBcrypt.compare.mockResolvedValue(false as never);
+
+      const response = await request(app)
+        .delete('/auth/account')
+        .send({ password: 'wrong' });
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /auth/forgot-password', () => {
+    it('should store a hashed token and email the reset link', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ id: 1, username: 'testuser', email: 'test@example.com' });
+      mockPrisma.$transaction = jest.fn().mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: ' Test@Example.com ' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { email: 'test@example.com' } });
+      expect(mockPrisma.passwordResetToken.create).toHaveBeenCalledWith({
+        data: { userId: 1, tokenHash: expect.stringMatching(/^[0-9a-f]{64}$/), expiresAt: expect.any(Date) }
+      });
+
+      const [message] = mockSendMail.mock.calls[0];
+      const token = message.text.match(/reset-password\?token=([\w-]+)/)?.[1];
+      expect(message.to).toBe('test@example.com');
+      expect(token).toBeDefined();
+      expect((mockPrisma.passwordResetToken.create as jest.Mock).mock.calls[0][0].data.tokenHash).not.toBe(token);
+    });
+
+    it('should answer the same way for an unknown address without sending mail', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('If an account uses this email, a reset link has been sent');
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it('should answer the same way when the email cannot be sent', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ id: 1, username: 'testuser', email: 'test@example.com' });
+      mockPrisma.$transaction = jest.fn().mockResolvedValue([]);
+      mockSendMail.mockRejectedValueOnce(new Error('Connection refused'));
+
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: 'test@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('If an account uses this email, a reset link has been sent');
+      expect(mockSendMail).toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid address', async () => {
+      const response = await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: 'not-an-email' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /auth/reset-password', () => {
+    const { token, tokenHash } = createResetToken();
+    const mockResetToken = {
+      id: 5,
+      userId: 1,
+      tokenHash,
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 1000)
+    };
+
+    beforeEach(() => {
+      // Run interactive transactions against the same mocked client
+      mockPrisma.$transaction = jest.fn().mockImplementation((callback: (tx: typeof mockPrisma) => unknown) => callback(mockPrisma));
+    });
+
+    it('should set the new password, use up the token and end every session', async () => {
+      mockPrisma.passwordResetToken.findUnique = jest.fn().mockResolvedValue(mockResetToken);
+      mockPrisma.passwordResetToken.updateMany = jest.fn().mockResolvedValue({ count: 1 });
+      mockBcrypt.hash.mockResolvedValue('newhash' as never);
+
+      const response = await request(app)
+        .post('/auth/reset-password')
+        .send({ token, password: 'newpassword123' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.passwordResetToken.findUnique).toHaveBeenCalledWith({ where: { tokenHash } });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { password: 'newhash', failedLoginAttempts: 0, lockedUntil: null }
+      });
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it('should reject a used or expired token', async () => {
+      mockPrisma.passwordResetToken.findUnique = jest.fn()
+        .mockResolvedValueOnce({ ...mockResetToken, usedAt: new Date() })
+        .mockResolvedValueOnce({ ...mockResetToken, expiresAt: new Date(Date.now() - 1000) });
+
+      const used = await request(app).post('/auth/reset-password').send({ token, password: 'newpassword123' });
+      const expired = await request(app).post('/auth/reset-password').send({ token, password: 'newpassword123' });
+
+      expect(used.status).toBe(400);
+      expect(expired.status).toBe(400);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject the token if a concurrent reset used it first', async () => {
+      mockPrisma.passwordResetToken.findUnique = jest.fn().mockResolvedValue(mockResetToken);
+      mockPrisma.passwordResetToken.updateMany = jest.fn().mockResolvedValue({ count: 0 });
+
+      const response = await request(app)
+        .post('/auth/reset-password')
+        .send({ token, password: 'newpassword123' });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /auth/login/2fa', () => {
+    const secret = encodeBase32(Buffer.from('12345678901234567890'));
+
+    const mockUser = {
+      id: 1,
+      username: 'testuser',
+      role: 'USER',
+      email: null,
+      password: 'hashedpassword',
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      totpSecret: secret,
+      totpEnabledAt: new Date(),
+      totpLastStep: null
+    };
+
+    beforeEach(() => {
+      mockVerifyChallengeToken.mockReturnValue({ userId: 1, purpose: 'login-2fa' });
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
+    });
+
+    it('should sign in with a current authenticator code', async () => {
+      mockPrisma.user.updateMany = jest.fn().mockResolvedValue({ count: 1 });
+      mockGenerateToken.mockReturnValue('mock-jwt-token');
+
+      const response = await request(app)
+        .post('/auth/login/2fa')
+        .send({ challengeToken: 'mock-challenge-token', code: generateTotp(secret, getTimeStep()) });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        token: 'mock-jwt-token',
+        refreshToken: expect.any(String),
+        user: { id: 1, username: 'testuser', email: null, role: 'USER', twoFactorEnabled: true }
+      });
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, OR: [{ totpLastStep: null }, { totpLastStep: { lt: expect.any(Number) } }] },
+        data: { totpLastStep: expect.any(Number) }
+      });
+    });
+
+    it('should sign in with an unused recovery code', async () => {
+      mockPrisma.recoveryCode.updateMany = jest.fn().mockResolvedValue({ count: 1 });
+      mockGenerateToken.mockReturnValue('mock-jwt-token');
+
+      const response = await request(app)
+        .post('/auth/login/2fa')
+        .send({ challengeToken: 'mock-challenge-token', code: 'abcde-fghjk' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.recoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, codeHash: expect.any(String), usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+    });
+
+    it('should return 401 and count the failure for a wrong code', async () => {
+      mockPrisma.recoveryCode.updateMany = jest.fn().mockResolvedValue({ count: 0 });
+      mockPrisma.user.update = jest.fn().mockResolvedValue({ failedLoginAttempts: 1 });
+
+      const response = await request(app)
+        .post('/auth/login/2fa')
+        .send({ challengeToken: 'mock-challenge-token', code: '000000' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'Invalid verification code' });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true }
+      });
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an expired challenge', async () => {
+      mockVerifyChallengeToken.mockImplementation(() => {
+        throw new Error('jwt expired');
+      });
+
+      const response = await request(app)
+        .post('/auth/login/2fa')
+        .send({ challengeToken: 'expired-token', code: '123456' });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'Login challenge expired, please sign in again' });
+    });
+  });
+
+  describe('Two-factor enrollment', () => {
+    const secret = encodeBase32(Buffer.from('12345678901234567890'));
+
+    const mockUser = {
+      id: 1,
+      username: 'testuser',
+      password: 'hashedpassword',
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null
+    };
+
+    it('should start setup with a new secret and QR code', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue(mockUser);
+      mockPrisma.user.update = jest.fn().mockResolvedValue(mockUser);
+
+      const response = await request(app).post('/auth/2fa/setup');
+
+      expect(response.status).toBe(200);
+      expect(response.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(response.body.otpauthUri).toContain(`secret=${response.body.secret}`);
+      expect(response.body.qrCode).toMatch(/^data:image\/png;base64,/);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { totpSecret: response.body.secret, totpLastStep: null }
+      });
+    });
+
+    it('should return 409 from setup when already enabled', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ ...mockUser, totpSecret: secret, totpEnabledAt: new Date() });
+
+      const response = await request(app).post('/auth/2fa/setup');
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should enable with a valid code and return recovery codes', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ ...mockUser, totpSecret: secret });
+      mockPrisma.$transaction = jest.fn().mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/auth/2fa/enable')
+        .send({ code: generateTotp(secret, getTimeStep()) });
+
+      expect(response.status).toBe(200);
+      expect(response.body.recoveryCodes).toHaveLength(10);
+      expect(mockPrisma.recoveryCode.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([{ userId: 1, codeHash: expect.any(String) }])
+      });
+    });
+
+    it('should not enable with a wrong code', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ ...mockUser, totpSecret: secret });
+
+      const response = await request(app)
+        .post('/auth/2fa/enable')
+        .send({ code: '000000' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid verification code' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not disable with a wrong password', async () => {
+      mockPrisma.user.findUnique = jest.fn().mockResolvedValue({ ...mockUser, totpSecret: secret, totpEnabledAt: new Date() });
+      mockBcrypt.compare.mockResolvedValue(false as never);
+
+      const response = await request(app)
+        .post('/auth/2fa/disable')
+        .send({ password: 'wrongpassword', code: '123456' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Password is incorrect' });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import request from 'supertest';
+import express from 'express';
+import { getChecklistItems, createChecklistItem, updateChecklistItem, deleteChecklistItem } from '../../controllers/checklistController';
+import { taskAccessWhere } from '../../utils/access';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'testuser', role: 'USER', sessionId: 'session' };
+  next();
+});
+
+app.get('/tasks/:id/items', getChecklistItems);
+app.post('/tasks/:id/items', createChecklistItem);
+app.put('/tasks/:id/items/:itemId', updateChecklistItem);
+app.delete('/tasks/:id/items/:itemId', deleteChecklistItem);
+
+describe('Checklist Controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockItem = {
+    id: 10,
+    title: 'Write outline',
+    done: false,
+    position: 0,
+    taskId: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  describe('GET /tasks/:id/items', () => {
+    it('should list the items of an owned task in order', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue({ id: 1 });
+      mockPrisma.checklistItem.findMany = jest.fn().mockResolvedValue([mockItem]);
+
+      const response = await request(app).get('/tasks/1/items');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(JSON.parse(JSON.stringify([mockItem])));
+      expect(mockPrisma.checklistItem.findMany).toHaveBeenCalledWith({
+        where: { taskId: 1 },
+        orderBy: [{ position: 'asc' }, { id: 'asc' }]
+      });
+    });
+
+    it('should return 404 if the task does not belong to user', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).get('/tasks/1/items');
+
+      expect(response.status).toBe(404);
+      expect(mockPrisma.checklistItem.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /tasks/:id/items', () => {
+    it('should append the item after the last one', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue({ id: 1 });
+      mockPrisma.checklistItem.aggregate = jest.fn().mockResolvedValue({ _max: { position: 1024 } });
+      mockPrisma.checklistItem.create = jest.fn().mockResolvedValue(mockItem);
+
+      const response = await request(app)
+        .post('/tasks/1/items')
+        .send({ title: '  Write outline  ' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.checklistItem.create).toHaveBeenCalledWith({
+        data: { title: 'Write outline', position: 2048, taskId: 1 }
+      });
+    });
+
+    it('should return 400 if title is missing', async () => {
+      const response = await request(app)
+        .post('/tasks/1/items')
+        .send({ title: '   ' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Title is required' });
+    });
+  });
+
+  describe('PUT /tasks/:id/items/:itemId', () => {
+    it('should check off an item of an owned task', async () => {
+      mockPrisma.checklistItem.findFirst = jest.fn().mockResolvedValue(mockItem);
+      mockPrisma.checklistItem.update = jest.fn().mockResolvedValue({ ...mockItem, done: true });
+
+      const response = await request(app)
+        .put('/tasks/1/items/10')
+        .send({ done: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.done).toBe(true);
+      expect(mockPrisma.checklistItem.findFirst).toHaveBeenCalledWith({
+        where: { id: 10, task: { id: 1, ...taskAccessWhere(1, 'EDITOR') } }
+      });
+      expect(mockPrisma.checklistItem.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { done: true }
+      });
+    });
+
+    it('should return 400 if done is not a boolean', async () => {
+      const response = await request(app)
+        .put('/tasks/1/items/10')
+        .send({ done: 'yes' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 if item not found or task does not belong to user', async () => {
+      mockPrisma.checklistItem.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/tasks/1/items/10')
+        .send({ done: true });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Checklist item not found or access denied' });
+    });
+  });
+
+  describe('DELETE /tasks/:id/items/:itemId', () => {
+    it('should delete an item of an owned task', async () => {
+      mockPrisma.checklistItem.findFirst = jest.fn().mockResolvedValue(mockItem);
+      mockPrisma.checklistItem.delete = jest.fn().mockResolvedValue(mockItem);
+
+      const response = await request(app).delete('/tasks/1/items/10');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ message: 'Checklist item deleted successfully' });
+    });
+
+    it('should return 400 for invalid IDs', async () => {
+      const response = await request(app).delete('/tasks/1/items/abc');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid task or item ID' });
+    });
+
+    it('should return 500 on database error', async () => {
+      mockPrisma.checklistItem.findFirst = jest.fn().mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app).delete('/tasks/1/items/10');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Internal server error' });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import express from 'express';
+import { getComments, createComment, updateComment, deleteComment } from '../../controllers/commentController';
+import { taskAccessWhere } from '../../utils/access';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'testuser', role: 'USER', sessionId: 'session' };
+  next();
+});
+
+app.get('/tasks/:id/comments', getComments);
+app.post('/tasks/:id/comments', createComment);
+app.put('/tasks/:id/comments/:commentId', updateComment);
+app.delete('/tasks/:id/comments/:commentId', deleteComment);
+
+describe('Comment Controller', () => {
+  const mockComment = {
+    id: 3,
+    body: 'Looks good',
+    taskId: 1,
+    authorId: 1,
+    author: { id: 1, username: 'testuser' },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /tasks/:id/comments', () => {
+    it('should list the comments of a visible task, oldest first', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 1 });
+      mockPrisma.comment.findMany.mockResolvedValue([mockComment]);
+
+      const response = await request(app).get('/tasks/1/comments');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(JSON.parse(JSON.stringify([mockComment])));
+      expect(mockPrisma.task.findFirst).toHaveBeenCalledWith({
+        where: { id: 1, ...taskAccessWhere(1) },
+        select: { id: true }
+      });
+      expect(mockPrisma.comment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { taskId: 1 },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+      }));
+    });
+
+    it('should return 404 for tasks the user cannot see', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(null);
+
+      const response = await request(app).get('/tasks/1/comments');
+
+      expect(response.status).toBe(404);
+      expect(mockPrisma.comment.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /tasks/:id/comments', () => {
+    it('should add a trimmed comment by the current user', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 1 });
+      mockPrisma.comment.create.mockResolvedValue(mockComment);
+
+      const response = await request(app)
+        .post('/tasks/1/comments')
+        .send({ body: '  Looks good  ' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.comment.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { body: 'Looks good', taskId: 1, authorId: 1 }
+      }));
+    });
+
+    it('should return 400 for an empty comment', async () => {
+      const response = await request(app)
+        .post('/tasks/1/comments')
+        .send({ body: '   ' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Comment cannot be empty');
+    });
+
+    it('should return 400 for a comment over the length limit', async () => {
+      const response = await request(app)
+        .post('/tasks/1/comments')
+        .send({ body: 'a'.repeat(2001) });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.comment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /tasks/:id/comments/:commentId', () => {
+    it('should let the author edit a comment', async () => {
+      mockPrisma.comment.findFirst.mockResolvedValue(mockComment);
+      mockPrisma.comment.update.mockResolvedValue({ ...mockComment, body: 'Edited' });
+
+      const response = await request(app)
+        .put('/tasks/1/comments/3')
+        .send({ body: 'Edited' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.body).toBe('Edited');
+      expect(mockPrisma.comment.findFirst).toHaveBeenCalledWith({
+        where: { id: 3, task: { id: 1, ...taskAccessWhere(1) } }
+      });
+    });
+
+    it('should not let others edit a comment', async () => {
+      mockPrisma.comment.findFirst.mockResolvedValue({ ...mockComment, authorId: 2 });
+
+      const response = await request(app)
+        .put('/tasks/1/comments/3')
+        .send({ body: 'Edited' });
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.comment.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /tasks/:id/comments/:commentId', () => {
+    it('should let the author delete a comment', async () => {
+      mockPrisma.comment.findFirst.mockResolvedValue(mockComment);
+      mockPrisma.comment.delete.mockResolvedValue(mockComment);
+
+      const response = await request(app).delete('/tasks/1/comments/3');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.comment.delete).toHaveBeenCalledWith({ where: { id: 3 } });
+    });
+
+    it('should return 404 for comments on tasks the user cannot see', async () => {
+      mockPrisma.comment.findFirst.mockResolvedValue(null);
+
+      const response = await request(app).delete('/tasks/1/comments/3');
+
+      expect(response.status).toBe(404);
+      expect(mockPrisma.comment.delete).not.toHaveBeenCalled();
+    });
+  });
+});
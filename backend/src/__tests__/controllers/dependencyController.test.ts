@@ -0,0 +1,138 @@
+import request from 'supertest';
+import express from 'express';
+import { createDependency, deleteDependency } from '../../controllers/dependencyController';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'owner', role: 'USER', sessionId: 'session' };
+  next();
+});
+
+app.post('/tasks/:id/dependencies', createDependency);
+app.delete('/tasks/:id/dependencies/:blockerId', deleteDependency);
+
+describe('Dependency Controller', () => {
+  const mockTask = { id: 1, title: 'Release', status: 'PENDING', userId: 1, shares: [], project: null };
+  const mockBlocker = { id: 2, title: 'Write changelog', status: 'IN_PROGRESS' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /tasks/:id/dependencies', () => {
+    it('should mark a task as blocked by another task', async () => {
+      mockPrisma.task.findFirst
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(mockBlocker);
+      mockPrisma.taskDependency.findUnique.mockResolvedValue(null);
+      mockPrisma.taskDependency.findMany.mockResolvedValue([]);
+      mockPrisma.taskDependency.create.mockResolvedValue({ id: 5, blockerId: 2, blockedId: 1 });
+
+      const response = await request(app)
+        .post('/tasks/1/dependencies')
+        .send({ blockerId: 2 });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        blocker: mockBlocker,
+        blocked: { id: 1, title: 'Release', status: 'PENDING' }
+      });
+      expect(mockPrisma.taskDependency.create).toHaveBeenCalledWith({
+        data: { blockerId: 2, blockedId: 1 }
+      });
+    });
+
+    it('should return 409 for dependencies that would create a cycle', async () => {
+      mockPrisma.task.findFirst
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(mockBlocker);
+      mockPrisma.taskDependency.findUnique.mockResolvedValue(null);
+      // Task 1 already blocks task 3, which blocks task 2
+      mockPrisma.taskDependency.findMany
+        .mockResolvedValueOnce([{ blockerId: 3 }])
+        .mockResolvedValueOnce([{ blockerId: 1 }]);
+
+      const response = await request(app)
+        .post('/tasks/1/dependencies')
+        .send({ blockerId: 2 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('This dependency would create a cycle');
+      expect(mockPrisma.taskDependency.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let a task block itself', async () => {
+      const response = await request(app)
+        .post('/tasks/1/dependencies')
+        .send({ blockerId: 1 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A task cannot block itself');
+    });
+
+    it('should return 409 when the dependency already exists', async () => {
+      mockPrisma.task.findFirst
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(mockBlocker);
+      mockPrisma.taskDependency.findUnique.mockResolvedValue({ id: 5, blockerId: 2, blockedId: 1 });
+
+      const response = await request(app)
+        .post('/tasks/1/dependencies')
+        .send({ blockerId: 2 });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should only let editors change dependencies', async () => {
+      mockPrisma.task.findFirst.mockResolvedValueOnce({ ...mockTask, userId: 3, shares: [{ userId: 1, role: 'VIEWER' }] });
+
+      const response = await request(app)
+        .post('/tasks/1/dependencies')
+        .send({ blockerId: 2 });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 for blockers the user cannot see', async () => {
+      mockPrisma.task.findFirst
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(null);
+
+      const response = await request(app)
+        .post('/tasks/1/dependencies')
+        .send({ blockerId: 2 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Blocking task not found or access denied');
+    });
+  });
+
+  describe('DELETE /tasks/:id/dependencies/:blockerId', () => {
+    it('should remove a dependency', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.taskDependency.findUnique.mockResolvedValue({ id: 5, blockerId: 2, blockedId: 1 });
+      mockPrisma.taskDependency.delete.mockResolvedValue({});
+
+      const response = await request(app).delete('/tasks/1/dependencies/2');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.taskDependency.delete).toHaveBeenCalledWith({ where: { id: 5 } });
+    });
+
+    it('should return 404 for unknown dependencies', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.taskDependency.findUnique.mockResolvedValue(null);
+
+      const response = await request(app).delete('/tasks/1/dependencies/2');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import request from 'supertest';
+import express from 'express';
+import { getProjects, createProject, updateProject, deleteProject } from '../../controllers/projectController';
+import { projectAccessWhere } from '../../utils/access';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'testuser', role: 'USER', sessionId: 'session' };
+  next();
+});
+
+app.get('/projects', getProjects);
+app.post('/projects', createProject);
+app.put('/projects/:id', updateProject);
+app.delete('/projects/:id', deleteProject);
+
+describe('Project Controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.task.groupBy as jest.Mock).mockResolvedValue([]);
+    // Run interactive transactions against the same mocked client
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: (tx: typeof mockPrisma) => unknown) => callback(mockPrisma));
+  });
+
+  const mockProject = {
+    id: 4,
+    name: 'Home',
+    description: null,
+    color: null,
+    archivedAt: null,
+    userId: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    user: { id: 1, username: 'testuser' },
+    shares: []
+  };
+
+  describe('GET /projects', () => {
+    it('should list projects with their task counts', async () => {
+      mockPrisma.project.findMany = jest.fn().mockResolvedValue([mockProject]);
+      (mockPrisma.task.groupBy as jest.Mock)
+        .mockResolvedValueOnce([{ projectId: 4, _count: { _all: 5 } }])
+        .mockResolvedValueOnce([{ projectId: 4, _count: { _all: 2 } }]);
+
+      const response = await request(app).get('/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          ...JSON.parse(JSON.stringify(mockProject)),
+          taskCount: 5,
+          openTaskCount: 2,
+          owner: { id: 1, username: 'testuser' },
+          user: undefined,
+          access: 'OWNER'
+        }
+      ]);
+      expect(mockPrisma.project.findMany).toHaveBeenCalledWith({
+        where: projectAccessWhere(1),
+        include: expect.objectContaining({ shares: expect.any(Object) }),
+        orderBy: [{ archivedAt: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }]
+      });
+    });
+  });
+
+  describe('POST /projects', () => {
+    it('should create a project', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(null);
+      mockPrisma.project.create = jest.fn().mockResolvedValue(mockProject);
+
+      const response = await request(app)
+        .post('/projects')
+        .send({ name: ' Home ', color: '#1D4ED8' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.taskCount).toBe(0);
+      expect(mockPrisma.project.create).toHaveBeenCalledWith({
+        data: { name: 'Home', description: null, color: '#1d4ed8', userId: 1 },
+        include: expect.any(Object)
+      });
+    });
+
+    it('should return 400 if name is missing', async () => {
+      const response = await request(app)
+        .post('/projects')
+        .send({ description: 'Chores' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Project name is required' });
+    });
+
+    it('should return 409 if the user already has a project with that name', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(mockProject);
+
+      const response = await request(app)
+        .post('/projects')
+        .send({ name: 'Home' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'Project already exists' });
+    });
+  });
+
+  describe('PUT /projects/:id', () => {
+    it('should archive a project', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(mockProject);
+      mockPrisma.project.update = jest.fn().mockResolvedValue({ ...mockProject, archivedAt: new Date() });
+
+      const response = await request(app)
+        .put('/projects/4')
+        .send({ archived: true });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: { archivedAt: expect.any(Date) },
+        include: expect.objectContaining({ shares: expect.any(Object) })
+      });
+    });
+
+    it('should restore an archived project', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue({ ...mockProject, archivedAt: new Date() });
+      mockPrisma.project.update = jest.fn().mockResolvedValue(mockProject);
+
+      const response = await request(app)
+        .put('/projects/4')
+        .send({ archived: false });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: { archivedAt: null },
+        include: expect.objectContaining({ shares: expect.any(Object) })
+      });
+    });
+
+    it('should return 404 if project not found or does not belong to user', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/projects/4')
+        .send({ name: 'Work' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /projects/:id', () => {
+    it('should keep the tasks of a deleted project by default', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(mockProject);
+      mockPrisma.project.delete = jest.fn().mockResolvedValue(mockProject);
+
+      const response = await request(app).delete('/projects/4');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ message: 'Project deleted successfully', deletedTasks: 0 });
+      expect(mockPrisma.task.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should move the owner\'s tasks to the trash together with the project when requested', async () => {
+      const task = {
+        id: 7,
+        title: 'Paint the fence',
+        description: null,
+        status: 'PENDING',
+        priority: 'MEDIUM',
+        dueDate: null,
+        tags: [],
+        project: { name: 'Home' },
+        assignee: null
+      };
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(mockProject);
+      mockPrisma.project.delete = jest.fn().mockResolvedValue(mockProject);
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([task, { ...task, id: 8 }]);
+
+      const response = await request(app).delete('/projects/4').query({ tasks: 'delete' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.deletedTasks).toBe(2);
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        where: { projectId: 4, userId: 1, deletedAt: null },
+        include: expect.any(Object)
+      });
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [7, 8] } },
+        data: { deletedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ taskId: 7, action: 'DELETED', actorId: 1 })
+      });
+      expect(mockPrisma.task.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown task mode', async () => {
+      const response = await request(app).delete('/projects/4').query({ tasks: 'archive' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import request from 'supertest';
+import express from 'express';
+import { shareTask, updateTaskShare, removeTaskShare, shareProject } from '../../controllers/shareController';
+import { taskAccessWhere } from '../../utils/access';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'owner', role: 'USER', sessionId: 'session' };
+  next();
+});
+
+app.post('/tasks/:id/shares', shareTask);
+app.put('/tasks/:id/shares/:userId', updateTaskShare);
+app.delete('/tasks/:id/shares/:userId', removeTaskShare);
+app.post('/projects/:id/shares', shareProject);
+
+describe('Share Controller', () => {
+  const mockTask = { id: 1, userId: 1, shares: [], project: null };
+  const mockShare = { id: 5, taskId: 1, userId: 2, role: 'VIEWER' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /tasks/:id/shares', () => {
+    it('should share a task with another user', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 2 });
+      mockPrisma.taskShare.findUnique.mockResolvedValue(null);
+      mockPrisma.taskShare.create.mockResolvedValue({ userId: 2, role: 'EDITOR', user: { username: 'friend' } });
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'friend', role: 'EDITOR' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ userId: 2, username: 'friend', role: 'EDITOR' });
+      expect(mockPrisma.taskShare.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { taskId: 1, userId: 2, role: 'EDITOR' }
+      }));
+    });
+
+    it('should only let the owner share a task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ ...mockTask, userId: 3, shares: [{ userId: 1, role: 'EDITOR' }] });
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'friend', role: 'VIEWER' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Only the owner can share this task');
+      expect(mockPrisma.taskShare.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for tasks the user cannot see', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'friend', role: 'VIEWER' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject unknown roles', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'friend', role: 'OWNER' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Role must be one of VIEWER, EDITOR');
+    });
+
+    it('should return 404 for unknown users', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'nobody', role: 'VIEWER' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('User not found');
+    });
+
+    it('should not add the owner as a collaborator', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'owner', role: 'VIEWER' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 409 when the task is already shared with the user', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 2 });
+      mockPrisma.taskShare.findUnique.mockResolvedValue(mockShare);
+
+      const response = await request(app)
+        .post('/tasks/1/shares')
+        .send({ username: 'friend', role: 'VIEWER' });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('PUT /tasks/:id/shares/:userId', () => {
+    it('should change the role of a collaborator', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.taskShare.findUnique.mockResolvedValue(mockShare);
+      mockPrisma.taskShare.update.mockResolvedValue({ userId: 2, role: 'EDITOR', user: { username: 'friend' } });
+
+      const response = await request(app)
+        .put('/tasks/1/shares/2')
+        .send({ role: 'EDITOR' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.role).toBe('EDITOR');
+    });
+  });
+
+  describe('DELETE /tasks/:id/shares/:userId', () => {
+    it('should let collaborators leave a shared task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ ...mockTask, userId: 3, shares: [{ userId: 1, role: 'VIEWER' }] });
+      mockPrisma.taskShare.findUnique.mockResolvedValue({ ...mockShare, userId: 1 });
+      mockPrisma.taskShare.delete.mockResolvedValue({});
+
+      const response = await request(app).delete('/tasks/1/shares/1');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.taskShare.delete).toHaveBeenCalledWith({ where: { id: 5 } });
+    });
+
+    it('should unassign a removed collaborator who lost access', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(mockTask);
+      mockPrisma.taskShare.findUnique.mockResolvedValue(mockShare);
+      mockPrisma.taskShare.delete.mockResolvedValue({});
+
+      const response = await request(app).delete('/tasks/1/shares/2');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, assigneeId: 2, NOT: taskAccessWhere(2) },
+        data: { assigneeId: null }
+      });
+    });
+
+    it('should not let collaborators remove others', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ ...mockTask, userId: 3, shares: [{ userId: 1, role: 'EDITOR' }] });
+
+      const response = await request(app).delete('/tasks/1/shares/2');
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.taskShare.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /projects/:id/shares', () => {
+    it('should share a project with another user', async () => {
+      mockPrisma.project.findFirst.mockResolvedValue({ id: 4, userId: 1, shares: [] });
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 2 });
+      mockPrisma.projectShare.findUnique.mockResolvedValue(null);
+      mockPrisma.projectShare.create.mockResolvedValue({ userId: 2, role: 'VIEWER', user: { username: 'friend' } });
+
+      const response = await request(app)
+        .post('/projects/4/shares')
+        .send({ username: 'friend', role: 'VIEWER' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.projectShare.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { projectId: 4, userId: 2, role: 'VIEWER' }
+      }));
+    });
+  });
+});
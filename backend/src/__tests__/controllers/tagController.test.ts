@@ -0,0 +1,147 @@
+import request from 'supertest';
+import express from 'express';
+import { getTags, createTag, updateTag, deleteTag } from '../../controllers/tagController';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+// Setup express app for testing
+const app = express();
+app.use(express.json());
+
+// Mock auth middleware
+app.use((req, res, next) => {
+  req.user = { userId: 1, username: 'testuser', role: 'USER', sessionId: 'session' };
+  next();
+});
+
+app.get('/tags', getTags);
+app.post('/tags', createTag);
+app.put('/tags/:id', updateTag);
+app.delete('/tags/:id', deleteTag);
+
+describe('Tag Controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockTag = {
+    id: 3,
+    name: 'work',
+    color: '#1d4ed8',
+    userId: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  describe('GET /tags', () => {
+    it('should list tags with their task counts', async () => {
+      mockPrisma.tag.findMany = jest.fn().mockResolvedValue([{ ...mockTag, _count: { tasks: 4 } }]);
+
+      const response = await request(app).get('/tags');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ ...JSON.parse(JSON.stringify(mockTag)), taskCount: 4 }]);
+      expect(mockPrisma.tag.findMany).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        orderBy: { name: 'asc' },
+        include: { _count: { select: { tasks: true } } }
+      });
+    });
+  });
+
+  describe('POST /tags', () => {
+    it('should create a tag with a normalized color', async () => {
+      mockPrisma.tag.findFirst = jest.fn().mockResolvedValue(null);
+      mockPrisma.tag.create = jest.fn().mockResolvedValue(mockTag);
+
+      const response = await request(app)
+        .post('/tags')
+        .send({ name: ' work ', color: '#1D4ED8' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.taskCount).toBe(0);
+      expect(mockPrisma.tag.create).toHaveBeenCalledWith({
+        data: { name: 'work', color: '#1d4ed8', userId: 1 }
+      });
+    });
+
+    it('should return 400 for an invalid color', async () => {
+      const response = await request(app)
+        .post('/tags')
+        .send({ name: 'work', color: 'blue' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for a name that is too long', async () => {
+      const response = await request(app)
+        .post('/tags')
+        .send({ name: 'x'.repeat(31), color: '#1d4ed8' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 409 if the user already has a tag with that name', async () => {
+      mockPrisma.tag.findFirst = jest.fn().mockResolvedValue(mockTag);
+
+      const response = await request(app)
+        .post('/tags')
+        .send({ name: 'work', color: '#1d4ed8' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'Tag already exists' });
+    });
+  });
+
+  describe('PUT /tags/:id', () => {
+    it('should rename a tag', async () => {
+      mockPrisma.tag.findFirst = jest.fn()
+        .mockResolvedValueOnce(mockTag)
+        .mockResolvedValueOnce(null);
+      mockPrisma.tag.update = jest.fn().mockResolvedValue({ ...mockTag, name: 'office', _count: { tasks: 2 } });
+
+      const response = await request(app)
+        .put('/tags/3')
+        .send({ name: 'office' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe('office');
+      expect(response.body.taskCount).toBe(2);
+    });
+
+    it('should return 404 if tag not found or does not belong to user', async () => {
+      mockPrisma.tag.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/tags/3')
+        .send({ color: '#ffffff' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /tags/:id', () => {
+    it('should delete a tag', async () => {
+      mockPrisma.tag.findFirst = jest.fn().mockResolvedValue(mockTag);
+      mockPrisma.tag.delete = jest.fn().mockResolvedValue(mockTag);
+
+      const response = await request(app).delete('/tags/3');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ message: 'Tag deleted successfully' });
+      expect(mockPrisma.tag.findFirst).toHaveBeenCalledWith({
+        where: { id: 3, userId: 1 }
+      });
+    });
+
+    it('should return 500 on database error', async () => {
+      mockPrisma.tag.findFirst = jest.fn().mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app).delete('/tags/3');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Internal server error' });
+    });
+  });
+});
@@ -1,20 +1,12 @@
 import request from 'supertest';
 import express from 'express';
-import { PrismaClient, TaskStatus } from '../../generated/prisma';
-import { getTasks, createTask, updateTask, deleteTask } from '../../controllers/taskController';
-
-// Mock dependencies
-jest.mock('../../generated/prisma');
-
-const mockPrisma = {
-  task: {
-    findMany: jest.fn(),
-    findFirst: jest.fn(),
-    create: jest.fn(),
-    update: jest.fn(),
-    delete: jest.fn()
-  }
-} as unknown as PrismaClient;
+import { Prisma, TaskStatus } from '../../generated/prisma';
+import { getTasks, getTaskStats, getDueTasks, createTask, updateTask, moveTask, deleteTask, bulkUpdateTasks, bulkDeleteTasks, getTrash, restoreTask, purgeTask, getTaskHistory } from '../../controllers/taskController';
+import { taskAccessWhere, projectAccessWhere, trashedTaskWhere, TASK_ACCESS_INCLUDE } from '../../utils/access';
+import { TASK_LINK_SELECT } from '../../utils/taskDependencies';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
 
 // Setup express app for testing
 const app = express();
@@ -22,21 +14,73 @@ app.use(express.json());
 
 // Mock auth middleware
 app.use((req, res, next) => {
-  req.user = { userId: 1, username: 'testuser' };
+  req.user = { userId: 1, username: 'testuser', role: 'USER', sessionId: 'session' };
   next();
 });
 
 app.get('/tasks', getTasks);
+app.get('/tasks/stats', getTaskStats);
+app.get('/tasks/due', getDueTasks);
 app.post('/tasks', createTask);
 app.put('/tasks/:id', updateTask);
+app.put('/tasks/:id/position', moveTask);
 app.delete('/tasks/:id', deleteTask);
-
-// Mock PrismaClient constructor
-(PrismaClient as jest.MockedClass<typeof PrismaClient>).mockImplementation(() => mockPrisma);
+app.patch('/tasks/bulk', bulkUpdateTasks);
+app.post('/tasks/bulk-delete', bulkDeleteTasks);
+app.get('/tasks/trash', getTrash);
+app.post('/tasks/trash/:id/restore', restoreTask);
+app.delete('/tasks/trash/:id', purgeTask);
+app.get('/tasks/:id/history', getTaskHistory);
+
+// Every task response carries its checklist items, tags, owner, assignee, collaborators and comment count
+const taskInclude = {
+  items: { orderBy: [{ position: 'asc' }, { id: 'asc' }] },
+  tags: { select: { id: true, name: true, color: true }, orderBy: { name: 'asc' } },
+  user: { select: { id: true, username: true } },
+  assignee: { select: { id: true, username: true } },
+  shares: {
+    select: { userId: true, role: true, user: { select: { username: true } } },
+    orderBy: { createdAt: 'asc' }
+  },
+  project: { select: { ...TASK_ACCESS_INCLUDE.project.select, name: true } },
+  series: { select: { frequency: true, interval: true, weekdays: true, until: true, timeZone: true } },
+  blockedBy: {
+    where: { blocker: { deletedAt: null } },
+    select: { blocker: { select: TASK_LINK_SELECT } },
+    orderBy: { createdAt: 'asc' }
+  },
+  blocking: {
+    where: { blocked: { deletedAt: null } },
+    select: { blocked: { select: TASK_LINK_SELECT } },
+    orderBy: { createdAt: 'asc' }
+  },
+  _count: { select: { comments: true } }
+};
+
+// Tasks are loaded with what the access check and the audit trail need before they change
+const taskStateInclude = {
+  ...TASK_ACCESS_INCLUDE,
+  project: taskInclude.project,
+  tags: { select: { name: true } },
+  assignee: { select: { username: true } }
+};
+
+// Own tasks and tasks shared with the user
+const visibleTasks = taskAccessWhere(1);
+
+// Without a project filter, tasks of archived projects are hidden
+const activeScope = { OR: [{ projectId: null }, { project: { archivedAt: null } }] };
+
+// A raw query as the database receives it, with its nested fragments filled in
+const toRawQuery = ([strings, ...values]: unknown[]) => Prisma.sql(strings as readonly string[], ...values as Prisma.Sql[]);
 
 describe('Task Controller', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (mockPrisma.task.aggregate as jest.Mock).mockResolvedValue({ _min: { position: 0 } });
+    (mockPrisma.taskDependency.findMany as jest.Mock).mockResolvedValue([]);
+    // Run interactive transactions against the same mocked client
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((callback: (tx: typeof mockPrisma) => unknown) => callback(mockPrisma));
   });
 
   const mockTask = {
@@ -44,44 +88,295 @@ describe('Task Controller', () => {
     title: 'Test Task',
     description: 'Test Description',
     status: TaskStatus.PENDING,
+    priority: 'MEDIUM',
+    dueDate: null,
+    hasDueTime: false,
+    position: 0,
     userId: 1,
+    projectId: null,
+    assigneeId: null,
+    deletedAt: null,
+    seriesId: null,
     createdAt: new Date(),
-    updatedAt: new Date()
+    updatedAt: new Date(),
+    items: [],
+    tags: [],
+    user: { id: 1, username: 'testuser' },
+    assignee: null,
+    shares: [],
+    project: null,
+    blockedBy: [],
+    blocking: [],
+    _count: { comments: 0 }
   };
 
+  // The JSON the API sends for a mock task the test user owns
+  const toResponseBody = ({ user, project, _count, ...task }: Record<string, unknown> & { _count: { comments: number } }) =>
+    JSON.parse(JSON.stringify({ ...task, commentCount: _count.comments, owner: user, access: 'OWNER' }));
+
   describe('GET /tasks', () => {
-    it('should get all tasks for authenticated user', async () => {
+    it('should get the first page of tasks for authenticated user', async () => {
       const mockTasks = [mockTask];
       (mockPrisma.task.findMany as jest.Mock).mockResolvedValue(mockTasks);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(1);
 
       const response = await request(app).get('/tasks');
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
-        tasks: mockTasks,
-        total: 1
+        tasks: mockTasks.map(toResponseBody),
+        total: 1,
+        page: 1,
+        limit: 20,
+        totalPages: 1
+      });
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: { AND: [visibleTasks, activeScope] },
+        orderBy: [{ status: 'asc' }, { priority: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 20
       });
+    });
+
+    it('should apply status, search, sort and pagination parameters', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(45);
+
+      const response = await request(app)
+        .get('/tasks')
+        .query({ status: 'PENDING', search: ' report ', sortBy: 'title', sortOrder: 'asc', page: 3, limit: 10 });
+
+      const expectedWhere = {
+        status: 'PENDING',
+        AND: [
+          visibleTasks,
+          activeScope,
+          {
+            OR: [
+              { title: { contains: 'report', mode: 'insensitive' } },
+              { description: { contains: 'report', mode: 'insensitive' } }
+            ]
+          }
+        ]
+      };
 
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ total: 45, page: 3, limit: 10, totalPages: 5 });
       expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
-        where: { userId: 1 },
-        orderBy: { createdAt: 'desc' }
+        include: taskInclude,
+        where: expectedWhere,
+        orderBy: [{ title: 'asc' }, { id: 'asc' }],
+        skip: 20,
+        take: 10
       });
+      expect(mockPrisma.task.count).toHaveBeenCalledWith({ where: expectedWhere });
+    });
+
+    it('should continue from an offset instead of a page', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(45);
+
+      const response = await request(app).get('/tasks').query({ offset: '19', limit: '10' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ total: 45, page: 2, limit: 10, totalPages: 5 });
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 19, take: 10 }));
+    });
+
+    it('should return 400 for a negative offset', async () => {
+      const response = await request(app).get('/tasks').query({ offset: '-1' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Offset must be a non-negative integer' });
     });
 
     it('should return empty array when no tasks exist', async () => {
       (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(0);
 
       const response = await request(app).get('/tasks');
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         tasks: [],
-        total: 0
+        total: 0,
+        page: 1,
+        limit: 20,
+        totalPages: 0
+      });
+    });
+
+    it('should return 400 for an unknown status filter', async () => {
+      const response = await request(app).get('/tasks').query({ status: 'DONE' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid status filter' });
+    });
+
+    it('should return 400 for an unknown sort field', async () => {
+      const response = await request(app).get('/tasks').query({ sortBy: 'password' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid sort field' });
+    });
+
+    it('should return 400 for repeated query parameters', async () => {
+      const response = await request(app).get('/tasks?status=PENDING&status=COMPLETED&sortBy=title&sortBy=status');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Query parameters cannot be repeated' });
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should filter by any of the requested tags', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(0);
+
+      const response = await request(app).get('/tasks').query({ tags: '3,7' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.count).toHaveBeenCalledWith({
+        where: { tags: { some: { id: { in: [3, 7] } } }, AND: [visibleTasks, activeScope] }
+      });
+    });
+
+    it('should filter by project or by tasks without a project', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(0);
+
+      await request(app).get('/tasks').query({ projectId: '4' });
+      expect(mockPrisma.task.count).toHaveBeenLastCalledWith({
+        where: { AND: [visibleTasks, { projectId: 4 }] }
+      });
+
+      await request(app).get('/tasks').query({ projectId: 'none' });
+      expect(mockPrisma.task.count).toHaveBeenLastCalledWith({
+        where: { AND: [visibleTasks, { projectId: null }] }
+      });
+    });
+
+    it('should filter by assignee or by unassigned tasks', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(0);
+
+      await request(app).get('/tasks').query({ assigneeId: '1' });
+      expect(mockPrisma.task.count).toHaveBeenLastCalledWith({
+        where: { assigneeId: 1, AND: [visibleTasks, activeScope] }
+      });
+
+      await request(app).get('/tasks').query({ assigneeId: 'none' });
+      expect(mockPrisma.task.count).toHaveBeenLastCalledWith({
+        where: { assigneeId: null, AND: [visibleTasks, activeScope] }
+      });
+    });
+
+    it('should return 400 for a malformed assignee filter', async () => {
+      const response = await request(app).get('/tasks').query({ assigneeId: 'me' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid assignee filter' });
+    });
+
+    it('should order full-text matches by relevance and highlight them', async () => {
+      (mockPrisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([{ id: 2, rank: 0.6, total: BigInt(2) }, { id: 1, rank: 0.2, total: BigInt(2) }])
+        .mockResolvedValueOnce([
+          { id: 1, title: '<mark>Report</mark> draft', snippet: null },
+          { id: 2, title: 'Quarterly <mark>report</mark>', snippet: 'Send the <mark>report</mark>' }
+        ]);
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([mockTask, { ...mockTask, id: 2 }]);
+
+      const response = await request(app).get('/tasks').query({ q: 'repo' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(2);
+      expect(response.body.tasks.map((task: { id: number }) => task.id)).toEqual([2, 1]);
+      expect(response.body.tasks[0].match).toEqual({
+        rank: 0.6,
+        title: 'Quarterly <mark>report</mark>',
+        snippet: 'Send the <mark>report</mark>'
       });
+      // Only the tasks of the requested page are loaded, and nothing is counted separately
+      expect(mockPrisma.task.findMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({ where: { id: { in: [2, 1] } }, include: taskInclude });
+      expect(mockPrisma.task.count).not.toHaveBeenCalled();
+
+      const query = toRawQuery((mockPrisma.$queryRaw as jest.Mock).mock.calls[0]);
+      expect(query.sql).toContain('ORDER BY "rank" DESC, "id" DESC');
+      expect(query.values).toEqual(expect.arrayContaining(['repo:*', 0, 20]));
+    });
+
+    it('should apply the list filters to full-text matches in the same query', async () => {
+      (mockPrisma.$queryRaw as jest.Mock).mockResolvedValueOnce([{ id: null, rank: null, total: BigInt(0) }]);
+
+      const response = await request(app).get('/tasks').query({ q: 'test', status: 'COMPLETED', tags: '3', assigneeId: 'none', search: '50%' });
+
+      expect(response.status).toBe(200);
+      const query = toRawQuery((mockPrisma.$queryRaw as jest.Mock).mock.calls[0]);
+      expect(query.sql).toContain('"status" = ?::"TaskStatus"');
+      expect(query.sql).toContain('"assigneeId" IS NULL');
+      expect(query.values).toEqual(expect.arrayContaining(['COMPLETED', [3], '%50\\%%']));
+    });
+
+    it('should count the matches when the page is past the last one', async () => {
+      (mockPrisma.$queryRaw as jest.Mock).mockResolvedValueOnce([{ id: null, rank: null, total: BigInt(3) }]);
+
+      const response = await request(app).get('/tasks').query({ q: 'test', page: '2' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(expect.objectContaining({ tasks: [], total: 3, page: 2, totalPages: 1 }));
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled();
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a requested sort order for full-text matches', async () => {
+      (mockPrisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([{ id: 1, rank: 0.2, total: BigInt(1) }])
+        .mockResolvedValueOnce([{ id: 1, title: '<mark>Test</mark> Task', snippet: null }]);
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([mockTask]);
+
+      const response = await request(app).get('/tasks').query({ q: 'test', sortBy: 'title', sortOrder: 'asc' });
+
+      expect(response.status).toBe(200);
+      expect(toRawQuery((mockPrisma.$queryRaw as jest.Mock).mock.calls[0]).sql).toContain('ORDER BY "title" ASC, "id" ASC');
+    });
+
+    it('should ignore a search without searchable words', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(0);
+
+      const response = await request(app).get('/tasks').query({ q: '?!' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed project filter', async () => {
+      const response = await request(app).get('/tasks').query({ projectId: 'inbox' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid project filter' });
+    });
+
+    it('should return 400 for a malformed tag filter', async () => {
+      const response = await request(app).get('/tasks').query({ tags: '3,abc' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid tag filter' });
+    });
+
+    it('should return 400 when limit exceeds the maximum page size', async () => {
+      const response = await request(app).get('/tasks').query({ limit: 500 });
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled();
     });
 
     it('should return 500 on database error', async () => {
       (mockPrisma.task.findMany as jest.Mock).mockRejectedValue(new Error('Database error'));
+      (mockPrisma.task.count as jest.Mock).mockResolvedValue(0);
 
       const response = await request(app).get('/tasks');
 
@@ -92,6 +387,72 @@ describe('Task Controller', () => {
     });
   });
 
+  describe('GET /tasks/stats', () => {
+    it('should return counts for every status', async () => {
+      (mockPrisma.task.groupBy as jest.Mock).mockResolvedValue([
+        { status: 'PENDING', _count: { _all: 3 } }
+      ]);
+
+      const response = await request(app).get('/tasks/stats');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        total: 3,
+        byStatus: { PENDING: 3, IN_PROGRESS: 0, BLOCKED: 0, COMPLETED: 0, CANCELLED: 0 }
+      });
+    });
+
+    it('should count only the tasks of the requested project', async () => {
+      (mockPrisma.task.groupBy as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/tasks/stats').query({ projectId: '4' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+        where: { AND: [visibleTasks, { projectId: 4 }] }
+      }));
+    });
+  });
+
+  describe('GET /tasks/due', () => {
+    it('should list unfinished tasks due within the requested window', async () => {
+      (mockPrisma.task.findMany as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app)
+        .get('/tasks/due')
+        .query({ from: '2025-01-01T00:00:00.000Z', to: '2025-01-02T00:00:00.000Z' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: {
+          status: { notIn: ['COMPLETED', 'CANCELLED'] },
+          dueDate: { gte: new Date('2025-01-01T00:00:00.000Z'), lte: new Date('2025-01-02T00:00:00.000Z') },
+          AND: [visibleTasks, activeScope]
+        },
+        orderBy: [{ dueDate: 'asc' }, { id: 'asc' }]
+      });
+    });
+
+    it('should return 400 when the window ends before it starts', async () => {
+      const response = await request(app)
+        .get('/tasks/due')
+        .query({ from: '2025-01-02T00:00:00.000Z', to: '2025-01-01T00:00:00.000Z' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid time window' });
+    });
+
+    it('should return 400 when the window exceeds 31 days', async () => {
+      const response = await request(app)
+        .get('/tasks/due')
+        .query({ from: '2025-01-01T00:00:00.000Z', to: '2025-03-01T00:00:00.000Z' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Time window cannot exceed 31 days' });
+    });
+  });
+
   describe('POST /tasks', () => {
     const validTaskData = {
       title: 'New Task',
@@ -107,16 +468,48 @@ describe('Task Controller', () => {
         .send(validTaskData);
 
       expect(response.status).toBe(201);
-      expect(response.body).toEqual(mockTask);
+      expect(response.body).toEqual(toResponseBody(mockTask));
 
       expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
         data: {
           title: 'New Task',
           description: 'New Description',
           status: TaskStatus.PENDING,
+          position: -1024,
           userId: 1
         }
       });
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledWith({
+        data: {
+          taskId: 1,
+          action: 'CREATED',
+          changes: {
+            title: { from: null, to: 'Test Task' },
+            description: { from: null, to: 'Test Description' },
+            status: { from: null, to: TaskStatus.PENDING },
+            priority: { from: null, to: 'MEDIUM' }
+          },
+          actorId: 1
+        }
+      });
+    });
+
+    it('should place the first task at position zero', async () => {
+      (mockPrisma.task.aggregate as jest.Mock).mockResolvedValue({ _min: { position: null } });
+      (mockPrisma.task.create as jest.Mock).mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send(validTaskData);
+
+      expect(response.status).toBe(201);
+      // The manual order spans every task the user sees, like the neighbours of a move
+      expect(mockPrisma.task.aggregate).toHaveBeenCalledWith({ where: visibleTasks, _min: { position: true } });
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
+        data: expect.objectContaining({ position: 0 })
+      });
     });
 
     it('should create task with default status when status not provided', async () => {
@@ -129,10 +522,12 @@ describe('Task Controller', () => {
 
       expect(response.status).toBe(201);
       expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
         data: {
           title: 'New Task',
           description: null,
           status: 'PENDING',
+          position: -1024,
           userId: 1
         }
       });
@@ -151,15 +546,187 @@ describe('Task Controller', () => {
 
       expect(response.status).toBe(201);
       expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
         data: {
           title: 'New Task',
           description: 'New Description',
           status: 'PENDING',
+          position: -1024,
+          userId: 1
+        }
+      });
+    });
+
+    it('should store the due date and whether a time was set', async () => {
+      mockPrisma.task.create = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', dueDate: '2025-01-20T14:30:00.000Z', hasDueTime: true });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
+        data: {
+          title: 'New Task',
+          description: null,
+          status: 'PENDING',
+          dueDate: new Date('2025-01-20T14:30:00.000Z'),
+          hasDueTime: true,
+          position: -1024,
+          userId: 1
+        }
+      });
+    });
+
+    it('should store the requested priority', async () => {
+      mockPrisma.task.create = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', priority: 'URGENT' });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
+        data: {
+          title: 'New Task',
+          description: null,
+          status: 'PENDING',
+          priority: 'URGENT',
+          position: -1024,
           userId: 1
         }
       });
     });
 
+    it('should attach tags owned by the user', async () => {
+      mockPrisma.tag.count = jest.fn().mockResolvedValue(2);
+      mockPrisma.task.create = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', tagIds: [3, 7, 3] });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.tag.count).toHaveBeenCalledWith({
+        where: { userId: 1, id: { in: [3, 7] } }
+      });
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
+        data: expect.objectContaining({ tags: { connect: [{ id: 3 }, { id: 7 }] } })
+      });
+    });
+
+    it('should add the task to a project of the user', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue({ id: 4, userId: 1, archivedAt: null });
+      mockPrisma.task.create = jest.fn().mockResolvedValue({ ...mockTask, projectId: 4 });
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', projectId: 4 });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.project.findFirst).toHaveBeenCalledWith({
+        where: { id: 4, ...projectAccessWhere(1, 'EDITOR') }
+      });
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
+        data: expect.objectContaining({ projectId: 4 })
+      });
+    });
+
+    it('should return 400 for a project of another user', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', projectId: 4 });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid project' });
+    });
+
+    it('should return 409 for an archived project', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue({ id: 4, userId: 1, archivedAt: new Date() });
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', projectId: 4 });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'Project is archived' });
+    });
+
+    it('should assign the task to a collaborator on its project', async () => {
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue({ id: 4, userId: 1, archivedAt: null });
+      mockPrisma.user.findFirst = jest.fn().mockResolvedValue({ id: 2 });
+      mockPrisma.task.create = jest.fn().mockResolvedValue({ ...mockTask, projectId: 4, assigneeId: 2 });
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', projectId: 4, assigneeId: 2 });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.user.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 2,
+          OR: [{ projects: { some: { id: 4 } } }, { projectShares: { some: { projectId: 4 } } }]
+        },
+        select: { id: true }
+      });
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        include: taskInclude,
+        data: expect.objectContaining({ projectId: 4, assigneeId: 2 })
+      });
+    });
+
+    it('should return 400 for an assignee without access to the task', async () => {
+      mockPrisma.user.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', assigneeId: 2 });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Assignee does not have access to this task' });
+      expect(mockPrisma.task.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for tags of another user', async () => {
+      mockPrisma.tag.count = jest.fn().mockResolvedValue(1);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', tagIds: [3, 99] });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid tags' });
+      expect(mockPrisma.task.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown priority', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', priority: 'CRITICAL' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Invalid priority'
+      });
+    });
+
+    it('should return 400 for an invalid due date', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'New Task', dueDate: 'next tuesday' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Invalid due date'
+      });
+    });
+
     it('should return 400 if title is missing', async () => {
       const response = await request(app)
         .post('/tasks')
@@ -213,12 +780,14 @@ describe('Task Controller', () => {
         .send(updateData);
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(updatedTask);
+      expect(response.body).toEqual(toResponseBody(updatedTask));
 
       expect(mockPrisma.task.findFirst).toHaveBeenCalledWith({
-        where: { id: 1, userId: 1 }
+        where: { id: 1, ...visibleTasks },
+        include: taskStateInclude
       });
       expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
         where: { id: 1 },
         data: {
           title: 'Updated Task',
@@ -240,14 +809,146 @@ describe('Task Controller', () => {
 
       expect(response.status).toBe(200);
       expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
         where: { id: 1 },
         data: {
           title: 'Only Title Updated'
         }
       });
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledWith({
+        data: {
+          taskId: 1,
+          action: 'UPDATED',
+          changes: { title: { from: 'Test Task', to: 'Only Title Updated' } },
+          actorId: 1
+        }
+      });
     });
 
-    it('should return 400 for invalid task ID', async () => {
+    it('should not record an update that changes nothing', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ title: 'Test Task' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.taskEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for a status transition that is not allowed', async () => {
+      const cancelledTask = { ...mockTask, status: TaskStatus.CANCELLED };
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(cancelledTask);
+      mockPrisma.task.update = jest.fn();
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ status: TaskStatus.COMPLETED });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({
+        error: 'Cannot change status from CANCELLED to COMPLETED'
+      });
+      expect(mockPrisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown status', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ status: 'ARCHIVED' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Invalid status'
+      });
+    });
+
+    it('should clear the due date when null is sent', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ dueDate: null, hasDueTime: true });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: { id: 1 },
+        data: {
+          dueDate: null,
+          hasDueTime: false
+        }
+      });
+    });
+
+    it('should replace the tags of a task', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ tagIds: [] });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: { id: 1 },
+        data: { tags: { set: [] } }
+      });
+    });
+
+    it('should remove a task from its project', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue({ ...mockTask, projectId: 4 });
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ projectId: null });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.project.findFirst).not.toHaveBeenCalled();
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: { id: 1 },
+        data: { projectId: null }
+      });
+    });
+
+    it('should not let a collaborator move the task into a project they own', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue({ ...mockTask, userId: 3, shares: [{ userId: 1, role: 'EDITOR' }] });
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue({ id: 4, userId: 1, archivedAt: null });
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ projectId: 4 });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Only the owner can move this task to another project' });
+      expect(mockPrisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it('should unassign a task', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue({ ...mockTask, assigneeId: 2 });
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ assigneeId: null });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.user.findFirst).not.toHaveBeenCalled();
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: { id: 1 },
+        data: { assigneeId: null }
+      });
+    });
+
+    it('should return 400 for invalid task ID', async () => {
       const response = await request(app)
         .put('/tasks/invalid')
         .send(updateData);
@@ -298,23 +999,105 @@ describe('Task Controller', () => {
     });
   });
 
+  describe('PUT /tasks/:id/position', () => {
+    const anchorTask = { ...mockTask, id: 2, position: 2048 };
+
+    it('should move a task between the anchor and its neighbour', async () => {
+      mockPrisma.task.findFirst = jest.fn()
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(anchorTask)
+        .mockResolvedValueOnce({ ...mockTask, id: 3, position: 1024 });
+      mockPrisma.task.findUniqueOrThrow = jest.fn().mockResolvedValue(anchorTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue({ ...mockTask, position: 1536 });
+
+      const response = await request(app)
+        .put('/tasks/1/position')
+        .send({ beforeId: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.position).toBe(1536);
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        include: taskInclude,
+        where: { id: 1 },
+        data: { position: 1536 }
+      });
+    });
+
+    it('should renumber the list when there is no gap left', async () => {
+      mockPrisma.task.findFirst = jest.fn()
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(anchorTask)
+        .mockResolvedValueOnce({ ...mockTask, id: 3, position: 2049 });
+      mockPrisma.task.findUniqueOrThrow = jest.fn()
+        .mockResolvedValueOnce(anchorTask)
+        .mockResolvedValueOnce({ ...mockTask, position: 1024 });
+      mockPrisma.task.update = jest.fn();
+
+      const response = await request(app)
+        .put('/tasks/1/position')
+        .send({ afterId: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.position).toBe(1024);
+      expect(mockPrisma.task.update).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+
+      // The moved task takes the anchor's place in the order and sorts right after it
+      const query = toRawQuery((mockPrisma.$executeRaw as jest.Mock).mock.calls[0]);
+      expect(query.sql).toContain('row_number() OVER');
+      expect(query.values.slice(0, 7)).toEqual([1024, 1, 2048, 1, 2, 1, 1]);
+    });
+
+    it('should return 400 unless exactly one anchor is given', async () => {
+      const both = await request(app).put('/tasks/1/position').send({ beforeId: 2, afterId: 3 });
+      const none = await request(app).put('/tasks/1/position').send({});
+      const self = await request(app).put('/tasks/1/position').send({ beforeId: 1 });
+
+      expect(both.status).toBe(400);
+      expect(none.status).toBe(400);
+      expect(self.status).toBe(400);
+    });
+
+    it('should return 404 if either task does not belong to user', async () => {
+      mockPrisma.task.findFirst = jest.fn()
+        .mockResolvedValueOnce(mockTask)
+        .mockResolvedValueOnce(null);
+
+      const response = await request(app)
+        .put('/tasks/1/position')
+        .send({ beforeId: 2 });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        error: 'Task not found or access denied'
+      });
+    });
+  });
+
   describe('DELETE /tasks/:id', () => {
-    it('should delete task successfully', async () => {
+    it('should move the task to the trash', async () => {
       mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
-      mockPrisma.task.delete = jest.fn().mockResolvedValue(mockTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+      mockPrisma.task.delete = jest.fn();
 
       const response = await request(app).delete('/tasks/1');
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
-        message: 'Task deleted successfully'
+        message: 'Task moved to trash'
       });
 
       expect(mockPrisma.task.findFirst).toHaveBeenCalledWith({
-        where: { id: 1, userId: 1 }
+        where: { id: 1, ...visibleTasks },
+        include: taskStateInclude
       });
-      expect(mockPrisma.task.delete).toHaveBeenCalledWith({
-        where: { id: 1 }
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.task.delete).not.toHaveBeenCalled();
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ taskId: 1, action: 'DELETED', actorId: 1 })
       });
     });
 
@@ -350,6 +1133,441 @@ describe('Task Controller', () => {
     });
   });
 
+  describe('Trash', () => {
+    const trashedTask = { ...mockTask, deletedAt: new Date() };
+
+    it('should list trashed tasks with the retention period', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([trashedTask]);
+
+      const response = await request(app).get('/tasks/trash');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tasks: [toResponseBody(trashedTask)], retentionDays: 30 });
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        where: trashedTaskWhere(1),
+        include: taskInclude,
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }]
+      });
+    });
+
+    it('should restore a trashed task', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(trashedTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app).post('/tasks/trash/1/restore');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: null },
+        include: taskInclude
+      });
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ taskId: 1, action: 'RESTORED', actorId: 1 })
+      });
+    });
+
+    it('should return 404 when restoring a task that is not in the trash', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).post('/tasks/trash/1/restore');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Task not found in trash');
+    });
+
+    it('should delete a trashed task for good', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(trashedTask);
+      mockPrisma.task.delete = jest.fn().mockResolvedValue(trashedTask);
+
+      const response = await request(app).delete('/tasks/trash/1');
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.findFirst).toHaveBeenCalledWith({
+        where: { id: 1, ...trashedTaskWhere(1) }
+      });
+      expect(mockPrisma.task.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+  });
+
+  describe('Dependencies', () => {
+    const blocker = { id: 2, title: 'Write changelog', status: TaskStatus.IN_PROGRESS, userId: 1, shares: [], project: null };
+    const hiddenBlocker = { id: 3, title: 'Secret', status: TaskStatus.PENDING, userId: 4, shares: [], project: null };
+
+    it('should list the blockers the user can see', async () => {
+      const blockedTask = { ...mockTask, blockedBy: [{ blocker }, { blocker: hiddenBlocker }] };
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(blockedTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ title: 'Release' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.blockedBy).toEqual([{ id: 2, title: 'Write changelog', status: 'IN_PROGRESS' }]);
+    });
+
+    it('should return 409 when completing a task with unfinished blockers', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+      (mockPrisma.taskDependency.findMany as jest.Mock).mockResolvedValue([{ blockedId: 1, blockerId: 2 }]);
+      mockPrisma.task.update = jest.fn();
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ status: 'COMPLETED' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({
+        error: 'Cannot complete a task that is blocked by 1 unfinished task',
+        blockerIds: [2]
+      });
+      expect(mockPrisma.taskDependency.findMany).toHaveBeenCalledWith({
+        where: {
+          blockedId: { in: [1] },
+          blocker: { id: { notIn: [] }, deletedAt: null, status: { notIn: ['COMPLETED', 'CANCELLED'] } }
+        },
+        select: { blockedId: true, blockerId: true }
+      });
+      expect(mockPrisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it('should let blockers be completed together with the tasks they block', async () => {
+      const tasks = [{ ...mockTask, id: 1 }, { ...mockTask, id: 2 }];
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue(tasks);
+      mockPrisma.task.update = jest.fn().mockImplementation(({ where }) => Promise.resolve({ ...mockTask, id: where.id, status: 'COMPLETED' }));
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1, 2], status: 'COMPLETED' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.taskDependency.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ blocker: expect.objectContaining({ id: { notIn: [1, 2] } }) })
+      }));
+    });
+
+    it('should name the blocked tasks when a bulk update cannot complete them', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([mockTask]);
+      (mockPrisma.taskDependency.findMany as jest.Mock).mockResolvedValue([{ blockedId: 1, blockerId: 5 }]);
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1], status: 'COMPLETED' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.taskIds).toEqual([1]);
+    });
+  });
+
+  describe('Recurring tasks', () => {
+    const weekly = { frequency: 'WEEKLY', timeZone: 'Europe/Berlin' };
+    const dueDate = new Date('2025-10-06T09:00:00.000Z');
+    const occurrence = { ...mockTask, dueDate, hasDueTime: true, seriesId: 7 };
+    const series = {
+      id: 7,
+      frequency: 'WEEKLY',
+      interval: 1,
+      weekdays: [],
+      startsAt: dueDate,
+      until: null,
+      timeZone: 'Europe/Berlin',
+      hasDueTime: true,
+      title: 'Test Task',
+      description: null,
+      priority: 'MEDIUM',
+      userId: 1,
+      projectId: null,
+      assigneeId: null,
+      tags: [{ id: 3 }]
+    };
+
+    it('should create a series together with a recurring task', async () => {
+      mockPrisma.taskSeries.create = jest.fn().mockResolvedValue({ id: 7 });
+      mockPrisma.task.create = jest.fn().mockResolvedValue(occurrence);
+
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'Test Task', dueDate: dueDate.toISOString(), recurrence: weekly });
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.taskSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ frequency: 'WEEKLY', interval: 1, startsAt: dueDate, userId: 1 })
+      });
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ seriesId: 7 })
+      }));
+    });
+
+    it('should return 400 for recurring tasks without a due date', async () => {
+      const response = await request(app)
+        .post('/tasks')
+        .send({ title: 'Test Task', recurrence: weekly });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Recurring tasks need a due date');
+    });
+
+    it('should create the next occurrence when one is completed', async () => {
+      jest.useFakeTimers({ now: new Date('2025-10-01T12:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(occurrence);
+      mockPrisma.task.update = jest.fn().mockResolvedValue({ ...occurrence, status: TaskStatus.COMPLETED });
+      mockPrisma.taskSeries.findUnique = jest.fn().mockResolvedValue(series);
+      mockPrisma.task.count = jest.fn().mockResolvedValue(0);
+      mockPrisma.task.create = jest.fn().mockResolvedValue({ ...occurrence, id: 2 });
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ status: 'COMPLETED' });
+      jest.useRealTimers();
+
+      expect(response.status).toBe(200);
+      expect(response.body.nextOccurrence.id).toBe(2);
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          title: 'Test Task',
+          dueDate: new Date('2025-10-13T09:00:00.000Z'),
+          seriesId: 7,
+          tags: { connect: [{ id: 3 }] }
+        })
+      }));
+    });
+
+    it('should not create another occurrence while one is open', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(occurrence);
+      mockPrisma.task.update = jest.fn().mockResolvedValue({ ...occurrence, status: TaskStatus.COMPLETED });
+      mockPrisma.taskSeries.findUnique = jest.fn().mockResolvedValue(series);
+      mockPrisma.task.count = jest.fn().mockResolvedValue(1);
+      mockPrisma.task.create = jest.fn();
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ status: 'COMPLETED' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.nextOccurrence).toBeUndefined();
+      expect(mockPrisma.task.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply edits to the whole series to its template', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(occurrence);
+      mockPrisma.task.update = jest.fn().mockResolvedValue({ ...occurrence, title: 'Weekly report' });
+      mockPrisma.task.findUniqueOrThrow = jest.fn().mockResolvedValue({ ...occurrence, title: 'Weekly report' });
+      mockPrisma.taskSeries.update = jest.fn().mockResolvedValue(series);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ title: 'Weekly report', scope: 'series' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.taskSeries.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ title: 'Weekly report', tags: { set: [] } })
+      });
+    });
+
+    it('should leave the series alone for edits to one occurrence', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(occurrence);
+      mockPrisma.task.update = jest.fn().mockResolvedValue({ ...occurrence, title: 'Weekly report' });
+      mockPrisma.taskSeries.update = jest.fn();
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ title: 'Weekly report' });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.taskSeries.update).not.toHaveBeenCalled();
+    });
+
+    it('should only change the rule for the whole series', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(occurrence);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ recurrence: { frequency: 'DAILY', timeZone: 'UTC' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Recurrence can only be changed for the whole series');
+    });
+
+    it('should return 400 for the series scope on a task without a series', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .put('/tasks/1')
+        .send({ title: 'Weekly report', scope: 'series' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Task is not part of a series');
+    });
+  });
+
+  describe('Bulk operations', () => {
+    const otherTask = { ...mockTask, id: 2, title: 'Other Task' };
+
+    it('should change the status of all tasks in one transaction', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([mockTask, otherTask]);
+      mockPrisma.task.update = jest.fn()
+        .mockResolvedValueOnce({ ...mockTask, status: TaskStatus.IN_PROGRESS })
+        .mockResolvedValueOnce({ ...otherTask, status: TaskStatus.IN_PROGRESS });
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1, 2, 2], status: 'IN_PROGRESS' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.tasks.map((task: { id: number }) => task.id)).toEqual([1, 2]);
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2] }, ...visibleTasks },
+        include: taskStateInclude
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { status: TaskStatus.IN_PROGRESS },
+        include: taskInclude
+      });
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should add and remove tags', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([mockTask]);
+      mockPrisma.tag.count = jest.fn().mockResolvedValue(1);
+      mockPrisma.task.update = jest.fn().mockResolvedValue(mockTask);
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1], addTagIds: [3], removeTagIds: [4] });
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { tags: { connect: [{ id: 3 }], disconnect: [{ id: 4 }] } },
+        include: taskInclude
+      });
+    });
+
+    it('should change nothing when one of the tasks is not visible', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([mockTask]);
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1, 2], status: 'COMPLETED' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Task not found or access denied', taskIds: [2] });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject tasks the user may only view', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([
+        mockTask,
+        { ...otherTask, userId: 3, shares: [{ userId: 1, role: 'VIEWER' }] }
+      ]);
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1, 2], status: 'COMPLETED' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.taskIds).toEqual([2]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not let a collaborator move tasks into a project they own', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([
+        mockTask,
+        { ...otherTask, userId: 3, shares: [{ userId: 1, role: 'EDITOR' }] }
+      ]);
+      mockPrisma.project.findFirst = jest.fn().mockResolvedValue({ id: 4, userId: 1, archivedAt: null });
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1, 2], projectId: 4 });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Only the owner can move these tasks to another project', taskIds: [2] });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for tasks that cannot take the new status', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([mockTask, { ...otherTask, status: TaskStatus.CANCELLED }]);
+
+      const response = await request(app)
+        .patch('/tasks/bulk')
+        .send({ ids: [1, 2], status: 'IN_PROGRESS' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.taskIds).toEqual([2]);
+    });
+
+    it('should return 400 without task IDs or changes', async () => {
+      const noIds = await request(app).patch('/tasks/bulk').send({ ids: [], status: 'COMPLETED' });
+      const noChanges = await request(app).patch('/tasks/bulk').send({ ids: [1] });
+
+      expect(noIds.status).toBe(400);
+      expect(noChanges.status).toBe(400);
+      expect(noChanges.body.error).toBe('No changes given');
+    });
+
+    it('should move all tasks to the trash', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([mockTask, otherTask]);
+      mockPrisma.task.updateMany = jest.fn().mockResolvedValue({ count: 2 });
+
+      const response = await request(app)
+        .post('/tasks/bulk-delete')
+        .send({ ids: [1, 2] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ message: 'Tasks moved to trash', taskIds: [1, 2] });
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2] } },
+        data: { deletedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.taskEvent.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only let the owner delete tasks', async () => {
+      mockPrisma.task.findMany = jest.fn().mockResolvedValue([{ ...mockTask, userId: 3, shares: [{ userId: 1, role: 'EDITOR' }] }]);
+      mockPrisma.task.updateMany = jest.fn();
+
+      const response = await request(app)
+        .post('/tasks/bulk-delete')
+        .send({ ids: [1] });
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.task.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /tasks/:id/history', () => {
+    it('should return the audit trail of a visible task, newest first', async () => {
+      const events = [
+        { id: 2, action: 'UPDATED', changes: { status: { from: 'PENDING', to: 'IN_PROGRESS' } }, actor: { id: 2, username: 'friend' }, createdAt: new Date() },
+        { id: 1, action: 'CREATED', changes: { title: { from: null, to: 'Test Task' } }, actor: null, createdAt: new Date() }
+      ];
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue({ ...mockTask, userId: 2, shares: [{ userId: 1, role: 'VIEWER' }] });
+      mockPrisma.taskEvent.findMany = jest.fn().mockResolvedValue(events);
+
+      const response = await request(app).get('/tasks/1/history');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(JSON.parse(JSON.stringify(events)));
+      expect(mockPrisma.taskEvent.findMany).toHaveBeenCalledWith({
+        where: { taskId: 1 },
+        include: { actor: { select: { id: true, username: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+      });
+    });
+
+    it('should return 404 for tasks the user cannot see', async () => {
+      mockPrisma.task.findFirst = jest.fn().mockResolvedValue(null);
+
+      const response = await request(app).get('/tasks/1/history');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('Unauthenticated requests', () => {
     const unauthenticatedApp = express();
     unauthenticatedApp.use(express.json());
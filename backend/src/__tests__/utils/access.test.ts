@@ -0,0 +1,79 @@
+import { hasAccess, getTaskAccess, getProjectAccess, taskAccessWhere, trashedTaskWhere, isShareRole } from '../../utils/access';
+
+describe('Access', () => {
+  const project = { userId: 1, shares: [{ userId: 2, role: 'EDITOR' as const }] };
+
+  describe('getProjectAccess', () => {
+    it('should give the owner owner rights', () => {
+      expect(getProjectAccess(project, 1)).toBe('OWNER');
+    });
+
+    it('should give collaborators their share role', () => {
+      expect(getProjectAccess(project, 2)).toBe('EDITOR');
+    });
+
+    it('should give everyone else no access', () => {
+      expect(getProjectAccess(project, 3)).toBeNull();
+    });
+  });
+
+  describe('getTaskAccess', () => {
+    it('should use the higher of the task share and the project share', () => {
+      const task = { userId: 5, shares: [{ userId: 2, role: 'VIEWER' as const }], project };
+
+      expect(getTaskAccess(task, 2)).toBe('EDITOR');
+      expect(getTaskAccess({ ...task, project: null }, 2)).toBe('VIEWER');
+    });
+
+    it('should give the project owner owner rights on tasks of collaborators', () => {
+      expect(getTaskAccess({ userId: 2, shares: [], project }, 1)).toBe('OWNER');
+    });
+
+    it('should give no access without a share', () => {
+      expect(getTaskAccess({ userId: 5, shares: [], project: null }, 2)).toBeNull();
+    });
+  });
+
+  describe('hasAccess', () => {
+    it('should compare access levels', () => {
+      expect(hasAccess('OWNER', 'EDITOR')).toBe(true);
+      expect(hasAccess('EDITOR', 'EDITOR')).toBe(true);
+      expect(hasAccess('VIEWER', 'EDITOR')).toBe(false);
+      expect(hasAccess(null, 'VIEWER')).toBe(false);
+    });
+  });
+
+  describe('taskAccessWhere', () => {
+    it('should only count editor shares when editing', () => {
+      expect(taskAccessWhere(2, 'EDITOR')).toEqual({
+        deletedAt: null,
+        OR: [
+          { userId: 2 },
+          { shares: { some: { userId: 2, role: { in: ['EDITOR'] } } } },
+          { project: { OR: [{ userId: 2 }, { shares: { some: { userId: 2, role: { in: ['EDITOR'] } } } }] } }
+        ]
+      });
+    });
+  });
+
+  describe('trashedTaskWhere', () => {
+    it('should only find trashed tasks the user owns directly or through the project', () => {
+      expect(trashedTaskWhere(2)).toEqual({
+        deletedAt: { not: null },
+        OR: [
+          { userId: 2 },
+          { shares: { some: { userId: 2, role: { in: [] } } } },
+          { project: { OR: [{ userId: 2 }, { shares: { some: { userId: 2, role: { in: [] } } } }] } }
+        ]
+      });
+    });
+  });
+
+  describe('isShareRole', () => {
+    it('should accept only viewer and editor', () => {
+      expect(isShareRole('VIEWER')).toBe(true);
+      expect(isShareRole('EDITOR')).toBe(true);
+      expect(isShareRole('OWNER')).toBe(false);
+    });
+  });
+});
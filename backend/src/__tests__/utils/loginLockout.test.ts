@@ -0,0 +1,24 @@
+import { LOCKOUT_THRESHOLD, getLockoutDuration, toRetryAfterSeconds } from '../../utils/loginLockout';
+
+describe('Login lockout', () => {
+  it('should not lock below the threshold', () => {
+    expect(getLockoutDuration(0)).toBe(0);
+    expect(getLockoutDuration(LOCKOUT_THRESHOLD - 1)).toBe(0);
+  });
+
+  it('should double the lock with every further failure', () => {
+    expect(getLockoutDuration(LOCKOUT_THRESHOLD)).toBe(60 * 1000);
+    expect(getLockoutDuration(LOCKOUT_THRESHOLD + 1)).toBe(2 * 60 * 1000);
+    expect(getLockoutDuration(LOCKOUT_THRESHOLD + 2)).toBe(4 * 60 * 1000);
+  });
+
+  it('should cap the lock at an hour', () => {
+    expect(getLockoutDuration(LOCKOUT_THRESHOLD + 6)).toBe(60 * 60 * 1000);
+    expect(getLockoutDuration(1000)).toBe(60 * 60 * 1000);
+  });
+
+  it('should round retry-after up to whole seconds', () => {
+    expect(toRetryAfterSeconds(1500)).toBe(2);
+    expect(toRetryAfterSeconds(0)).toBe(1);
+  });
+});
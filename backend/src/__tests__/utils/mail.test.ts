@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileTransport, createConsoleTransport } from '../../utils/mail';
+
+describe('Mail transports', () => {
+  const message = {
+    to: 'someone@example.com',
+    subject: 'Reset your password',
+    text: 'Open this link to choose a new password'
+  };
+
+  describe('createFileTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each message as a JSON file', async () => {
+      await createFileTransport(directory).send(message);
+
+      const files = await fs.readdir(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/someone@example\.com\.json$/);
+      expect(JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'))).toEqual(message);
+    });
+
+    it('should create the directory if it does not exist yet', async () => {
+      const nested = path.join(directory, 'outbox');
+
+      await createFileTransport(nested).send(message);
+
+      expect(await fs.readdir(nested)).toHaveLength(1);
+    });
+  });
+
+  describe('createConsoleTransport', () => {
+    it('should log the recipient, subject and text', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await createConsoleTransport().send(message);
+
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('someone@example.com'));
+      expect(log).toHaveBeenCalledWith(expect.stringContaining(message.text));
+      log.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { createRateLimiter } from '../../utils/rateLimiter';
+
+describe('Rate limiter', () => {
+  it('should allow requests up to the limit within a window', () => {
+    const limiter = createRateLimiter({ windowMs: 1000, max: 2 });
+
+    expect(limiter.hit('a', 0).allowed).toBe(true);
+    expect(limiter.hit('a', 100).allowed).toBe(true);
+    expect(limiter.hit('a', 200)).toEqual({ allowed: false, retryAfterMs: 800 });
+  });
+
+  it('should count keys separately', () => {
+    const limiter = createRateLimiter({ windowMs: 1000, max: 1 });
+
+    expect(limiter.hit('a', 0).allowed).toBe(true);
+    expect(limiter.hit('b', 0).allowed).toBe(true);
+    expect(limiter.hit('a', 0).allowed).toBe(false);
+  });
+
+  it('should start a new window once the old one has passed', () => {
+    const limiter = createRateLimiter({ windowMs: 1000, max: 1 });
+
+    limiter.hit('a', 0);
+    expect(limiter.hit('a', 999).allowed).toBe(false);
+    expect(limiter.hit('a', 1000)).toEqual({ allowed: true, retryAfterMs: 1000 });
+  });
+});
@@ -0,0 +1,19 @@
+import { RECOVERY_CODE_COUNT, generateRecoveryCodes, hashRecoveryCode } from '../../utils/recoveryCodes';
+
+describe('Recovery code utilities', () => {
+  it('should generate distinct codes with their hashes', () => {
+    const { codes, codeHashes } = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    codes.forEach((code, index) => {
+      expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+      expect(codeHashes[index]).toBe(hashRecoveryCode(code));
+    });
+  });
+
+  it('should hash codes regardless of case, spaces and dashes', () => {
+    expect(hashRecoveryCode('ABCDE-FGHJK')).toBe(hashRecoveryCode('abcdefghjk'));
+    expect(hashRecoveryCode(' abcde fghjk ')).toBe(hashRecoveryCode('abcde-fghjk'));
+  });
+});
@@ -0,0 +1,99 @@
+import { RecurrenceFrequency } from '../../generated/prisma';
+import { getNextOccurrence, parseRecurrence, RecurrenceRule } from '../../utils/recurrence';
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: RecurrenceFrequency.DAILY,
+  interval: 1,
+  weekdays: [],
+  startsAt: new Date('2025-10-06T09:00:00.000Z'),
+  until: null,
+  timeZone: 'UTC',
+  ...overrides
+});
+
+describe('Recurrence', () => {
+  describe('parseRecurrence', () => {
+    it('should fill in the defaults', () => {
+      expect(parseRecurrence({ frequency: 'WEEKLY', timeZone: 'Europe/Berlin' })).toEqual({
+        frequency: 'WEEKLY',
+        interval: 1,
+        weekdays: [],
+        until: null,
+        timeZone: 'Europe/Berlin'
+      });
+    });
+
+    it('should sort and de-duplicate weekdays', () => {
+      expect(parseRecurrence({ frequency: 'WEEKLY', weekdays: [5, 1, 5], timeZone: 'UTC' })).toMatchObject({ weekdays: [1, 5] });
+    });
+
+    it('should pass undefined and null through', () => {
+      expect(parseRecurrence(undefined)).toBeUndefined();
+      expect(parseRecurrence(null)).toBeNull();
+    });
+
+    it('should reject malformed rules', () => {
+      expect(parseRecurrence('DAILY')).toBe('invalid');
+      expect(parseRecurrence({ frequency: 'HOURLY', timeZone: 'UTC' })).toBe('invalid');
+      expect(parseRecurrence({ frequency: 'DAILY', interval: 0, timeZone: 'UTC' })).toBe('invalid');
+      expect(parseRecurrence({ frequency: 'DAILY', weekdays: [1], timeZone: 'UTC' })).toBe('invalid');
+      expect(parseRecurrence({ frequency: 'WEEKLY', weekdays: [7], timeZone: 'UTC' })).toBe('invalid');
+      expect(parseRecurrence({ frequency: 'DAILY', timeZone: 'Mars/Olympus' })).toBe('invalid');
+      expect(parseRecurrence({ frequency: 'DAILY', until: 'never', timeZone: 'UTC' })).toBe('invalid');
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should repeat every few days', () => {
+      const everyThreeDays = rule({ interval: 3 });
+
+      expect(getNextOccurrence(everyThreeDays, new Date('2025-10-06T09:00:00.000Z'))).toEqual(new Date('2025-10-09T09:00:00.000Z'));
+      expect(getNextOccurrence(everyThreeDays, new Date('2025-10-10T00:00:00.000Z'))).toEqual(new Date('2025-10-12T09:00:00.000Z'));
+    });
+
+    it('should return the first occurrence while it is still ahead', () => {
+      expect(getNextOccurrence(rule({}), new Date('2025-10-01T00:00:00.000Z'))).toEqual(new Date('2025-10-06T09:00:00.000Z'));
+    });
+
+    it('should repeat on the chosen weekdays', () => {
+      // Monday 2025-10-06, every Monday and Friday
+      const mondaysAndFridays = rule({ frequency: RecurrenceFrequency.WEEKLY, weekdays: [1, 5] });
+
+      expect(getNextOccurrence(mondaysAndFridays, new Date('2025-10-06T09:00:00.000Z'))).toEqual(new Date('2025-10-10T09:00:00.000Z'));
+      expect(getNextOccurrence(mondaysAndFridays, new Date('2025-10-10T09:00:00.000Z'))).toEqual(new Date('2025-10-13T09:00:00.000Z'));
+    });
+
+    it('should skip weeks of biweekly rules', () => {
+      const everyOtherMonday = rule({ frequency: RecurrenceFrequency.WEEKLY, interval: 2 });
+
+      expect(getNextOccurrence(everyOtherMonday, new Date('2025-10-06T09:00:00.000Z'))).toEqual(new Date('2025-10-20T09:00:00.000Z'));
+    });
+
+    it('should keep the day of the month and clamp it to shorter months', () => {
+      const monthEnd = rule({ frequency: RecurrenceFrequency.MONTHLY, startsAt: new Date('2025-01-31T09:00:00.000Z') });
+
+      expect(getNextOccurrence(monthEnd, new Date('2025-01-31T09:00:00.000Z'))).toEqual(new Date('2025-02-28T09:00:00.000Z'));
+      expect(getNextOccurrence(monthEnd, new Date('2025-02-28T09:00:00.000Z'))).toEqual(new Date('2025-03-31T09:00:00.000Z'));
+    });
+
+    it('should repeat yearly', () => {
+      const yearly = rule({ frequency: RecurrenceFrequency.YEARLY });
+
+      expect(getNextOccurrence(yearly, new Date('2025-10-06T09:00:00.000Z'))).toEqual(new Date('2026-10-06T09:00:00.000Z'));
+    });
+
+    it('should keep the local time of day across DST changes', () => {
+      // 23:59 in Berlin, summer time (UTC+2) until 2025-10-26, then UTC+1
+      const endOfDay = rule({ startsAt: new Date('2025-10-25T21:59:59.999Z'), timeZone: 'Europe/Berlin' });
+
+      expect(getNextOccurrence(endOfDay, new Date('2025-10-25T21:59:59.999Z'))).toEqual(new Date('2025-10-26T22:59:59.999Z'));
+    });
+
+    it('should end after the until date', () => {
+      const ending = rule({ until: new Date('2025-10-07T23:59:59.999Z') });
+
+      expect(getNextOccurrence(ending, new Date('2025-10-06T09:00:00.000Z'))).toEqual(new Date('2025-10-07T09:00:00.000Z'));
+      expect(getNextOccurrence(ending, new Date('2025-10-07T09:00:00.000Z'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { randomUUID } from 'crypto';
+import { createRefreshToken, parseRefreshToken, matchesTokenHash } from '../../utils/refreshToken';
+
+describe('Refresh Token', () => {
+  const sessionId = randomUUID();
+
+  describe('createRefreshToken', () => {
+    it('should prefix a random secret with the session id', () => {
+      const first = createRefreshToken(sessionId);
+      const second = createRefreshToken(sessionId);
+
+      expect(first.token.startsWith(`${sessionId}.`)).toBe(true);
+      expect(first.token).not.toBe(second.token);
+    });
+
+    it('should store only a hash of the secret', () => {
+      const { token, tokenHash } = createRefreshToken(sessionId);
+
+      expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(token).not.toContain(tokenHash);
+    });
+  });
+
+  describe('parseRefreshToken', () => {
+    it('should round-trip a created token', () => {
+      const { token, tokenHash } = createRefreshToken(sessionId);
+      const parsed = parseRefreshToken(token);
+
+      expect(parsed?.sessionId).toBe(sessionId);
+      expect(matchesTokenHash(parsed!.secret, tokenHash)).toBe(true);
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(parseRefreshToken(undefined)).toBeNull();
+      expect(parseRefreshToken(42)).toBeNull();
+      expect(parseRefreshToken('no-separator')).toBeNull();
+      expect(parseRefreshToken(`${sessionId}.`)).toBeNull();
+      expect(parseRefreshToken('1.secret')).toBeNull();
+    });
+  });
+
+  describe('matchesTokenHash', () => {
+    it('should reject the secret of another token', () => {
+      const { tokenHash } = createRefreshToken(sessionId);
+      const other = parseRefreshToken(createRefreshToken(sessionId).token)!;
+
+      expect(matchesTokenHash(other.secret, tokenHash)).toBe(false);
+    });
+
+    it('should reject a malformed stored hash', () => {
+      const { token } = createRefreshToken(sessionId);
+
+      expect(matchesTokenHash(parseRefreshToken(token)!.secret, 'abc')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,15 @@
+import { createResetToken, hashResetToken } from '../../utils/resetToken';
+
+describe('Password reset token utilities', () => {
+  it('should create a url-safe token with its hash', () => {
+    const { token, tokenHash } = createResetToken();
+
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(tokenHash).toBe(hashResetToken(token));
+    expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should create a different token every time', () => {
+    expect(createResetToken().token).not.toBe(createResetToken().token);
+  });
+});
@@ -0,0 +1,37 @@
+import { createsCycle } from '../../utils/taskDependencies';
+
+describe('Task Dependencies', () => {
+  describe('createsCycle', () => {
+    // Blocked task id to the ids of its blockers
+    const lookup = (blockers: Record<number, number[]>) =>
+      jest.fn(async (taskIds: number[]) => taskIds.flatMap(id => blockers[id] ?? []));
+
+    it('should reject a task blocking itself', async () => {
+      await expect(createsCycle(1, 1, lookup({}))).resolves.toBe(true);
+    });
+
+    it('should detect a task that already blocks its new blocker', async () => {
+      // 1 blocks 2
+      await expect(createsCycle(2, 1, lookup({ 2: [1] }))).resolves.toBe(true);
+    });
+
+    it('should detect longer loops', async () => {
+      // 1 blocks 2, 2 blocks 3
+      await expect(createsCycle(3, 1, lookup({ 2: [1], 3: [2] }))).resolves.toBe(true);
+    });
+
+    it('should allow chains and shared blockers', async () => {
+      // 1 blocks 2 and 3, 2 blocks 3
+      await expect(createsCycle(1, 4, lookup({ 2: [1], 3: [1, 2] }))).resolves.toBe(false);
+      await expect(createsCycle(3, 4, lookup({ 2: [1], 3: [1, 2] }))).resolves.toBe(false);
+    });
+
+    it('should look up each task only once', async () => {
+      const findBlockerIds = lookup({ 3: [1, 2], 2: [1] });
+
+      await createsCycle(3, 4, findBlockerIds);
+
+      expect(findBlockerIds.mock.calls).toEqual([[[3]], [[1, 2]]]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { TaskPriority, TaskStatus } from '../../generated/prisma';
+import { toTaskSnapshot, diffSnapshots } from '../../utils/taskHistory';
+
+describe('Task History', () => {
+  const task = {
+    title: 'Write report',
+    description: null,
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.MEDIUM,
+    dueDate: new Date('2025-10-01T12:00:00.000Z'),
+    tags: [{ name: 'work' }, { name: 'urgent' }],
+    project: { name: 'Q4' },
+    assignee: null
+  };
+
+  describe('toTaskSnapshot', () => {
+    it('should record names instead of ids and sort tags', () => {
+      expect(toTaskSnapshot(task)).toEqual({
+        title: 'Write report',
+        description: null,
+        status: TaskStatus.PENDING,
+        priority: TaskPriority.MEDIUM,
+        dueDate: '2025-10-01T12:00:00.000Z',
+        tags: ['urgent', 'work'],
+        project: 'Q4',
+        assignee: null
+      });
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    const before = toTaskSnapshot(task);
+
+    it('should list only the fields that changed', () => {
+      const after = toTaskSnapshot({ ...task, status: TaskStatus.IN_PROGRESS, assignee: { username: 'friend' } });
+
+      expect(diffSnapshots(before, after)).toEqual({
+        status: { from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS },
+        assignee: { from: null, to: 'friend' }
+      });
+    });
+
+    it('should not treat reordered tags as a change', () => {
+      const after = toTaskSnapshot({ ...task, tags: [{ name: 'urgent' }, { name: 'work' }] });
+
+      expect(diffSnapshots(before, after)).toEqual({});
+    });
+
+    it('should skip empty fields of created and deleted tasks', () => {
+      const created = diffSnapshots(null, before);
+
+      expect(created).toEqual({
+        title: { from: null, to: 'Write report' },
+        status: { from: null, to: TaskStatus.PENDING },
+        priority: { from: null, to: TaskPriority.MEDIUM },
+        dueDate: { from: null, to: '2025-10-01T12:00:00.000Z' },
+        tags: { from: null, to: ['urgent', 'work'] },
+        project: { from: null, to: 'Q4' }
+      });
+      expect(Object.keys(diffSnapshots(before, null))).toEqual(Object.keys(created));
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { POSITION_STEP, positionBetween } from '../../utils/taskPosition';
+
+describe('Task Position', () => {
+  describe('positionBetween', () => {
+    it('should start an empty list at zero', () => {
+      expect(positionBetween(null, null)).toBe(0);
+    });
+
+    it('should leave a full step when moving to either end', () => {
+      expect(positionBetween(null, 0)).toBe(-POSITION_STEP);
+      expect(positionBetween(2048, null)).toBe(2048 + POSITION_STEP);
+    });
+
+    it('should pick the midpoint between two neighbours', () => {
+      expect(positionBetween(1024, 2048)).toBe(1536);
+      expect(positionBetween(-3, 0)).toBe(-2);
+    });
+
+    it('should ask for renumbering when there is no room left', () => {
+      expect(positionBetween(5, 6)).toBeNull();
+      expect(positionBetween(5, 5)).toBeNull();
+    });
+  });
+});
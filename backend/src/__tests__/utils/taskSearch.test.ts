@@ -0,0 +1,32 @@
+import { MAX_SEARCH_WORDS, toSearchQuery } from '../../utils/taskSearch';
+
+describe('Task Search', () => {
+  describe('toSearchQuery', () => {
+    it('should require every word as a prefix', () => {
+      expect(toSearchQuery('Quarterly rep')).toBe('quarterly:* & rep:*');
+    });
+
+    it('should drop punctuation and tsquery operators', () => {
+      expect(toSearchQuery("budget's (draft) & !review | 'x':*")).toBe('budget:* & s:* & draft:* & review:* & x:*');
+    });
+
+    it('should keep letters outside of ASCII', () => {
+      expect(toSearchQuery('Übung çalışma')).toBe('übung:* & çalışma:*');
+    });
+
+    it('should ignore repeated words', () => {
+      expect(toSearchQuery('report REPORT report')).toBe('report:*');
+    });
+
+    it('should cap the number of words', () => {
+      const words = Array.from({ length: MAX_SEARCH_WORDS + 2 }, (_, i) => `w${i}`);
+
+      expect(toSearchQuery(words.join(' '))!.split(' & ')).toHaveLength(MAX_SEARCH_WORDS);
+    });
+
+    it('should return null when there is nothing to search for', () => {
+      expect(toSearchQuery('')).toBeNull();
+      expect(toSearchQuery(' -*- ')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { TaskStatus } from '../../generated/prisma';
+import { canTransition, isTaskStatus, CLOSED_STATUSES } from '../../utils/taskWorkflow';
+
+describe('Task Workflow', () => {
+  describe('canTransition', () => {
+    it('should allow keeping the current status', () => {
+      for (const status of Object.values(TaskStatus)) {
+        expect(canTransition(status, status)).toBe(true);
+      }
+    });
+
+    it('should allow starting, blocking and finishing open tasks', () => {
+      expect(canTransition(TaskStatus.PENDING, TaskStatus.IN_PROGRESS)).toBe(true);
+      expect(canTransition(TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED)).toBe(true);
+      expect(canTransition(TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED)).toBe(true);
+      expect(canTransition(TaskStatus.PENDING, TaskStatus.CANCELLED)).toBe(true);
+    });
+
+    it('should not allow completing a blocked task directly', () => {
+      expect(canTransition(TaskStatus.BLOCKED, TaskStatus.COMPLETED)).toBe(false);
+    });
+
+    it('should only allow reopening closed tasks', () => {
+      expect(canTransition(TaskStatus.COMPLETED, TaskStatus.PENDING)).toBe(true);
+      expect(canTransition(TaskStatus.COMPLETED, TaskStatus.CANCELLED)).toBe(false);
+      expect(canTransition(TaskStatus.CANCELLED, TaskStatus.PENDING)).toBe(true);
+      expect(canTransition(TaskStatus.CANCELLED, TaskStatus.COMPLETED)).toBe(false);
+    });
+  });
+
+  describe('isTaskStatus', () => {
+    it('should accept known statuses only', () => {
+      expect(isTaskStatus('IN_PROGRESS')).toBe(true);
+      expect(isTaskStatus('DONE')).toBe(false);
+      expect(isTaskStatus(undefined)).toBe(false);
+    });
+  });
+
+  it('should treat completed and cancelled tasks as closed', () => {
+    expect(CLOSED_STATUSES).toEqual([TaskStatus.COMPLETED, TaskStatus.CANCELLED]);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  encodeBase32,
+  decodeBase32,
+  generateTotpSecret,
+  generateTotp,
+  getTimeStep,
+  verifyTotp,
+  buildOtpauthUri
+} from '../../utils/totp';
+
+// The SHA1 key from the RFC 6238 test vectors
+const RFC_SECRET = encodeBase32(Buffer.from('12345678901234567890'));
+
+describe('TOTP utilities', () => {
+  it('should round-trip base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(decodeBase32(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(decodeBase32('gezdgnbv').toString()).toBe('12345');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from the neighbouring time steps only', () => {
+    const now = 1111111109 * 1000;
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now)).toBeNull();
+  });
+
+  it('should ignore spaces and reject malformed codes', () => {
+    const now = 59 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '287 082', now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should generate a 160-bit secret', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(decodeBase32(secret)).toHaveLength(20);
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'testuser');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/MEAtec%20Task%20Manager%3Atestuser\?/);
+    expect(new URL(uri).searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(new URL(uri).searchParams.get('issuer')).toBe('MEAtec Task Manager');
+  });
+});
@@ -0,0 +1,39 @@
+import { DEFAULT_TRASH_RETENTION_DAYS, getTrashRetentionDays, getPurgeCutoff, purgeExpiredTasks } from '../../utils/trashPurge';
+
+// The client every module shares, from utils/__mocks__/prisma.ts
+const { prisma: mockPrisma } = jest.requireMock<typeof import('../../utils/__mocks__/prisma')>('../../utils/prisma');
+
+describe('Trash Purge', () => {
+  describe('getTrashRetentionDays', () => {
+    it('should use a positive whole number of days', () => {
+      expect(getTrashRetentionDays('7')).toBe(7);
+    });
+
+    it('should fall back to the default for missing or invalid values', () => {
+      expect(getTrashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays('1.5')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+  });
+
+  describe('getPurgeCutoff', () => {
+    it('should go back the given number of days', () => {
+      expect(getPurgeCutoff(new Date('2025-10-31T12:00:00.000Z'), 30)).toEqual(new Date('2025-10-01T12:00:00.000Z'));
+    });
+  });
+
+  describe('purgeExpiredTasks', () => {
+    it('should delete tasks trashed before the retention period', async () => {
+      mockPrisma.task.deleteMany.mockResolvedValue({ count: 2 });
+
+      const count = await purgeExpiredTasks(new Date('2025-10-31T12:00:00.000Z'));
+
+      expect(count).toBe(2);
+      expect(mockPrisma.task.deleteMany).toHaveBeenCalledWith({
+        where: { deletedAt: { lte: new Date('2025-10-01T12:00:00.000Z') } }
+      });
+    });
+  });
+});
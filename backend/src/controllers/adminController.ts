@@ -0,0 +1,208 @@
+import { Request, Response } from 'express';
+import { Prisma, Role, TaskStatus } from '../generated/prisma';
+import { prisma } from '../utils/prisma';
+import { AdminUserListQuery, UpdateUserRequest, AdminUserResponse, AdminStatsResponse } from '../types/admin';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const ROLES = Object.values(Role) as Role[];
+const TASK_STATUSES = Object.values(TaskStatus) as TaskStatus[];
+
+// Never includes the password hash or two-factor secret
+const ADMIN_USER_SELECT = {
+  id: true,
+  username: true,
+  email: true,
+  role: true,
+  disabledAt: true,
+  totpEnabledAt: true,
+  createdAt: true
+} satisfies Prisma.UserSelect;
+
+type AdminUser = Prisma.UserGetPayload<{ select: typeof ADMIN_USER_SELECT }>;
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number | null => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const emptyStatusCounts = () =>
+  Object.fromEntries(TASK_STATUSES.map(status => [status, 0])) as Record<TaskStatus, number>;
+
+// One grouped query counts the tasks of every listed user by status
+const withTaskCounts = async (users: AdminUser[]): Promise<AdminUserResponse[]> => {
+  const groups = await prisma.task.groupBy({
+    by: ['userId', 'status'],
+    where: { userId: { in: users.map(user => user.id) }, deletedAt: null },
+    _count: { _all: true }
+  });
+
+  return users.map(({ totpEnabledAt, ...user }) => {
+    const taskCounts = emptyStatusCounts();
+    for (const group of groups) {
+      if (group.userId === user.id) {
+        taskCounts[group.status] = group._count._all;
+      }
+    }
+    return {
+      ...user,
+      twoFactorEnabled: totpEnabledAt !== null,
+      taskCount: Object.values(taskCounts).reduce((sum, count) => sum + count, 0),
+      taskCounts
+    };
+  });
+};
+
+// GET /api/admin/users - Get a page of all users with their task counts
+export const getUsers = async (req: Request<{}, {}, {}, AdminUserListQuery>, res: Response) => {
+  try {
+    const page = parsePositiveInt(req.query.page, 1);
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE);
+
+    if (page === null || limit === null || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `Page must be a positive integer and limit between 1 and ${MAX_PAGE_SIZE}` });
+    }
+
+    const term = req.query.search?.trim();
+    const where: Prisma.UserWhereInput = term
+      ? {
+        OR: [
+          { username: { contains: term, mode: 'insensitive' } },
+          { email: { contains: term, mode: 'insensitive' } }
+        ]
+      }
+      : {};
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: ADMIN_USER_SELECT,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    res.json({
+      users: await withTaskCounts(users),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    });
+
+  } catch (error) {
+    console.error('Get users error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// GET /api/admin/stats - Get user and task totals across all accounts
+export const getStats = async (req: Request, res: Response) => {
+  try {
+    const [users, admins, disabledUsers, groups] = await Promise.all([
+      prisma.user.count(),
+      prisma.user.count({ where: { role: Role.ADMIN } }),
+      prisma.user.count({ where: { disabledAt: { not: null } } }),
+      prisma.task.groupBy({
+        by: ['status'],
+        where: { deletedAt: null },
+        _count: { _all: true }
+      })
+    ]);
+
+    const tasksByStatus = emptyStatusCounts();
+    for (const group of groups) {
+      tasksByStatus[group.status] = group._count._all;
+    }
+
+    const response: AdminStatsResponse = {
+      users,
+      admins,
+      disabledUsers,
+      tasks: groups.reduce((sum, group) => sum + group._count._all, 0),
+      tasksByStatus
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Get admin stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PATCH /api/admin/users/:id - Disable, enable, promote or demote a user
+export const updateUser = async (req: Request<{ id: string }, {}, UpdateUserRequest>, res: Response) => {
+  try {
+    const adminId = req.user?.userId;
+    const userId = parseInt(req.params.id);
+    const { disabled, role } = req.body ?? {};
+
+    if (!adminId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    if (disabled === undefined && role === undefined) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      return res.status(400).json({ error: 'Disabled must be a boolean' });
+    }
+
+    if (role !== undefined && !ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of ${ROLES.join(', ')}` });
+    }
+
+    // Keeps admins from locking themselves out, which would leave no way back in without the database
+    if (userId === adminId && (disabled === true || role === Role.USER)) {
+      return res.status(400).json({ error: 'You cannot disable or demote your own account' });
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, disabledAt: true }
+    });
+
+    if (!existingUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const userUpdate = prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(role !== undefined && { role }),
+        // Disabling an already disabled account keeps the original date
+        ...(disabled !== undefined && { disabledAt: disabled ? existingUser.disabledAt ?? new Date() : null })
+      },
+      select: ADMIN_USER_SELECT
+    });
+
+    // A disabled account is signed out everywhere right away
+    const [user] = disabled
+      ? await prisma.$transaction([
+        userUpdate,
+        prisma.session.updateMany({
+          where: { userId, revokedAt: null },
+          data: { revokedAt: new Date() }
+        })
+      ])
+      : [await userUpdate];
+
+    const [response] = await withTaskCounts([user]);
+    res.json(response);
+
+  } catch (error) {
+    console.error('Update user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,21 +1,158 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import { PrismaClient } from '../generated/prisma';
-import { generateToken } from '../utils/jwt';
-import { RegisterRequest, LoginRequest } from '../types/auth';
+import { randomUUID } from 'crypto';
+import { User } from '../generated/prisma';
+import { prisma } from '../utils/prisma';
+import QRCode from 'qrcode';
+import { generateToken, generateChallengeToken, verifyChallengeToken } from '../utils/jwt';
+import { REFRESH_TOKEN_TTL_MS, createRefreshToken, parseRefreshToken, matchesTokenHash } from '../utils/refreshToken';
+import { PASSWORD_RESET_TTL_MS, createResetToken, hashResetToken } from '../utils/resetToken';
+import { sendMail } from '../utils/mail';
+import { getLockoutDuration, toRetryAfterSeconds } from '../utils/loginLockout';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { generateRecoveryCodes, hashRecoveryCode } from '../utils/recoveryCodes';
+import {
+  RegisterRequest,
+  LoginRequest,
+  RefreshRequest,
+  ChangePasswordRequest,
+  ChangeUsernameRequest,
+  ChangeEmailRequest,
+  DeleteAccountRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  SessionResponse,
+  UserResponse,
+  TwoFactorLoginRequest,
+  TwoFactorCodeRequest,
+  DisableTwoFactorRequest,
+  TwoFactorSetupResponse
+} from '../types/auth';
 
-const prisma = new PrismaClient();
+const MIN_PASSWORD_LENGTH = 6;
+
+// Same rules as the registration form
+const validateUsername = (username: string | undefined): string | null => {
+  if (!username) {
+    return 'Username is required';
+  }
+  if (username.length < 3 || username.length > 20) {
+    return 'Username must be between 3 and 20 characters';
+  }
+  if (!/^[a-zA-Z0-9_]+$/.test(username)) {
+    return 'Username can only contain letters, numbers and underscores';
+  }
+  return null;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Emails are stored lowercased so uniqueness and lookups ignore case
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// An optional email field is null when left out; anything but a string becomes '' so the format check rejects it
+const parseOptionalEmail = (value: unknown) => {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? normalizeEmail(value) : '';
+};
+
+const toUserResponse = (user: User): UserResponse => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  role: user.role,
+  twoFactorEnabled: user.totpEnabledAt !== null
+});
+
+const sendLockedOut = (res: Response, lockedForMs: number) => {
+  const retryAfter = toRetryAfterSeconds(lockedForMs);
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'Account temporarily locked', retryAfter });
+};
+
+// Counts a wrong password or code towards the lockout and returns how long the account is now locked
+const recordFailedLogin = async (userId: number): Promise<number> => {
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true }
+  });
+  const lockoutMs = getLockoutDuration(failedLoginAttempts);
+
+  if (lockoutMs > 0) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { lockedUntil: new Date(Date.now() + lockoutMs) }
+    });
+  }
+
+  return lockoutMs;
+};
+
+const clearFailedLogins = async (user: User) => {
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null }
+    });
+  }
+};
+
+// Accepts a current authenticator code or an unused recovery code, and uses either up
+const consumeTwoFactorCode = async (user: User, code: string): Promise<boolean> => {
+  const step = user.totpSecret ? verifyTotp(user.totpSecret, code) : null;
+
+  if (step !== null) {
+    // Only a code from a later step than the last accepted one is new, which also settles concurrent attempts
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step }
+    });
+    return count > 0;
+  }
+
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  return count > 0;
+};
+
+// Starts a session for a fresh sign-in and returns its access and refresh token
+const startSession = async (user: User, req: Request) => {
+  const sessionId = randomUUID();
+  const { token: refreshToken, tokenHash } = createRefreshToken(sessionId);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      tokenHash,
+      userAgent: req.get('user-agent')?.slice(0, 255) || null,
+      ipAddress: req.ip || null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  });
+
+  return {
+    token: generateToken({ userId: user.id, username: user.username, role: user.role, sessionId }),
+    refreshToken
+  };
+};
 
 export const register = async (req: Request<{}, {}, RegisterRequest>, res: Response) => {
   try {
     const { username, password } = req.body;
+    const email = parseOptionalEmail(req.body.email);
 
     if (!username || !password) {
       return res.status(400).json({ error: 'Username and password are required' });
     }
 
-    if (password.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters long' });
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
     }
 
     const existingUser = await prisma.user.findUnique({
@@ -26,23 +163,36 @@ export const register = async (req: Request<{}, {}, RegisterRequest>, res: Respo
       return res.status(400).json({ error: 'Username already exists' });
     }
 
+    if (email !== null) {
+      if (!EMAIL_PATTERN.test(email)) {
+        return res.status(400).json({ error: 'Invalid email address' });
+      }
+
+      const emailOwner = await prisma.user.findUnique({
+        where: { email }
+      });
+
+      if (emailOwner) {
+        return res.status(409).json({ error: 'Email already in use' });
+      }
+    }
+
     const hashedPassword = await bcrypt.hash(password, 10);
 
     const user = await prisma.user.create({
       data: {
         username,
+        email,
         password: hashedPassword
       }
     });
 
-    const token = generateToken({ userId: user.id, username: user.username });
+    const { token, refreshToken } = await startSession(user, req);
 
     res.status(201).json({
       token,
-      user: {
-        id: user.id,
-        username: user.username
-      }
+      refreshToken,
+      user: toUserResponse(user)
     });
 
   } catch (error) {
@@ -67,24 +217,766 @@ export const login = async (req: Request<{}, {}, LoginRequest>, res: Response) =
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    // A locked account is refused before the password is checked, so guesses during the lock tell nothing
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      return sendLockedOut(res, user.lockedUntil.getTime() - Date.now());
+    }
+
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
+      const lockoutMs = await recordFailedLogin(user.id);
+      if (lockoutMs > 0) {
+        return sendLockedOut(res, lockoutMs);
+      }
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    const token = generateToken({ userId: user.id, username: user.username });
+    // Only someone who knows the password learns that the account is disabled
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account has been disabled' });
+    }
+
+    // Failed attempts are only cleared once the code is right too, so wrong codes cannot be retried forever
+    if (user.totpEnabledAt) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id)
+      });
+    }
+
+    await clearFailedLogins(user);
+
+    const { token, refreshToken } = await startSession(user, req);
 
     res.json({
       token,
-      user: {
-        id: user.id,
-        username: user.username
-      }
+      refreshToken,
+      user: toUserResponse(user)
     });
 
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
+};
+
+// POST /api/auth/login/2fa - Finish a two-factor login with an authenticator or recovery code
+export const loginTwoFactor = async (req: Request<{}, {}, TwoFactorLoginRequest>, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body ?? {};
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({ error: 'Challenge token and code are required' });
+    }
+
+    let userId: number;
+    try {
+      userId = verifyChallengeToken(challengeToken).userId;
+    } catch {
+      return res.status(401).json({ error: 'Login challenge expired, please sign in again' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || !user.totpEnabledAt) {
+      return res.status(401).json({ error: 'Login challenge expired, please sign in again' });
+    }
+
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account has been disabled' });
+    }
+
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      return sendLockedOut(res, user.lockedUntil.getTime() - Date.now());
+    }
+
+    if (!await consumeTwoFactorCode(user, code)) {
+      const lockoutMs = await recordFailedLogin(user.id);
+      if (lockoutMs > 0) {
+        return sendLockedOut(res, lockoutMs);
+      }
+      return res.status(401).json({ error: 'Invalid verification code' });
+    }
+
+    await clearFailedLogins(user);
+
+    const { token, refreshToken } = await startSession(user, req);
+
+    res.json({
+      token,
+      refreshToken,
+      user: toUserResponse(user)
+    });
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/refresh - Exchange a refresh token for a new access and refresh token
+export const refresh = async (req: Request<{}, {}, RefreshRequest>, res: Response) => {
+  try {
+    const parsedToken = parseRefreshToken(req.body?.refreshToken);
+
+    if (!parsedToken) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: parsedToken.sessionId },
+      include: { user: true }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    // Only the latest token of a session is valid. An older one being replayed means it was copied,
+    // so the whole session is revoked and the legitimate client has to sign in again as well.
+    if (!matchesTokenHash(parsedToken.secret, session.tokenHash)) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date() }
+      });
+      return res.status(401).json({ error: 'Refresh token reuse detected' });
+    }
+
+    const { token: refreshToken, tokenHash } = createRefreshToken(session.id);
+
+    // Rotating from the checked hash keeps two concurrent refreshes with the same token from both succeeding
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, tokenHash: session.tokenHash, revokedAt: null },
+      data: {
+        tokenHash,
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+      }
+    });
+
+    if (count === 0) {
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    res.json({
+      token: generateToken({
+        userId: session.user.id,
+        username: session.user.username,
+        role: session.user.role,
+        sessionId: session.id
+      }),
+      refreshToken
+    });
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/logout - End the current session
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const sessionId = req.user?.sessionId;
+
+    if (!userId || !sessionId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    res.json({ message: 'Logged out successfully' });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/logout-all - End every session of authenticated user, including the current one
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { count } = await prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    res.json({
+      message: 'Logged out of all devices',
+      revokedSessions: count
+    });
+
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// GET /api/auth/sessions - Get active sessions of authenticated user, most recently used first
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+      select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, expiresAt: true }
+    });
+
+    const response: SessionResponse[] = sessions.map(session => ({
+      ...session,
+      current: session.id === req.user?.sessionId
+    }));
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/auth/sessions/:id - Revoke one session of authenticated user
+export const revokeSession = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const sessionId = req.params.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Session not found or access denied' });
+    }
+
+    res.json({ message: 'Session revoked successfully' });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/auth/password - Change password of authenticated user and end their other sessions
+export const changePassword = async (req: Request<{}, {}, ChangePasswordRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const sessionId = req.user?.sessionId;
+    const { currentPassword, newPassword } = req.body;
+
+    if (!userId || !sessionId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ error: 'Current and new password are required' });
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // 403 rather than 401, which clients read as an expired access token
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+
+    if (!isPasswordValid) {
+      return res.status(403).json({ error: 'Current password is incorrect' });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    // Whoever knew the old password may still be signed in elsewhere
+    const [, { count }] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword }
+      }),
+      prisma.session.updateMany({
+        where: { userId, id: { not: sessionId }, revokedAt: null },
+        data: { revokedAt: new Date() }
+      })
+    ]);
+
+    res.json({
+      message: 'Password changed successfully',
+      revokedSessions: count
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/auth/username - Rename authenticated user
+export const changeUsername = async (req: Request<{}, {}, ChangeUsernameRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const sessionId = req.user?.sessionId;
+    const { username } = req.body;
+
+    if (!userId || !sessionId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const usernameError = validateUsername(username);
+    if (usernameError) {
+      return res.status(400).json({ error: usernameError });
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { username }
+    });
+
+    if (existingUser && existingUser.id !== userId) {
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { username }
+    });
+
+    // The access token carries the username, so the client gets one with the new name
+    res.json({
+      token: generateToken({ userId: user.id, username: user.username, role: user.role, sessionId }),
+      user: toUserResponse(user)
+    });
+
+  } catch (error) {
+    console.error('Change username error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/auth/email - Set, change or remove the email address used for password resets
+export const changeEmail = async (req: Request<{}, {}, ChangeEmailRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const email = parseOptionalEmail(req.body?.email);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (email !== null) {
+      if (!EMAIL_PATTERN.test(email)) {
+        return res.status(400).json({ error: 'Invalid email address' });
+      }
+
+      const emailOwner = await prisma.user.findUnique({
+        where: { email }
+      });
+
+      if (emailOwner && emailOwner.id !== userId) {
+        return res.status(409).json({ error: 'Email already in use' });
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { email }
+    });
+
+    res.json({ user: toUserResponse(user) });
+
+  } catch (error) {
+    console.error('Change email error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/auth/account - Delete authenticated user together with all their data
+export const deleteAccount = async (req: Request<{}, {}, DeleteAccountRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { password } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!password) {
+      return res.status(400).json({ error: 'Password is required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+
+    if (!isPasswordValid) {
+      return res.status(403).json({ error: 'Password is incorrect' });
+    }
+
+    // Tasks, tags, projects and sessions are removed by their cascading foreign keys
+    await prisma.user.delete({
+      where: { id: userId }
+    });
+
+    res.json({ message: 'Account deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/forgot-password - Email a password reset link if the address belongs to an account
+export const forgotPassword = async (req: Request<{}, {}, ForgotPasswordRequest>, res: Response) => {
+  try {
+    const email = typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : '';
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: 'A valid email address is required' });
+    }
+
+    // The response is the same whether or not the address is known, so it cannot be used to find accounts
+    const response = { message: 'If an account uses this email, a reset link has been sent' };
+
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (!user) {
+      return res.json(response);
+    }
+
+    const { token, tokenHash } = createResetToken();
+
+    // Only the newest link works
+    await prisma.$transaction([
+      prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: new Date() }
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash,
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS)
+        }
+      })
+    ]);
+
+    const resetUrl = `${process.env.APP_URL || 'http://localhost:5173'}/reset-password?token=${token}`;
+
+    // A failed delivery is only logged; answering differently would tell that the address belongs to an account
+    try {
+      await sendMail({
+        to: email,
+        subject: 'Reset your password',
+        text: `Hi ${user.username},\n\n`
+          + `Open this link within the next hour to choose a new password:\n${resetUrl}\n\n`
+          + 'If you did not ask for a password reset, you can ignore this email.'
+      });
+    } catch (error) {
+      console.error('Password reset email error:', error);
+    }
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/reset-password - Set a new password with a reset token and end every session
+export const resetPassword = async (req: Request<{}, {}, ResetPasswordRequest>, res: Response) => {
+  try {
+    const { token, password } = req.body ?? {};
+
+    if (typeof token !== 'string' || !token || !password) {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+    }
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashResetToken(token) }
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const reset = await prisma.$transaction(async (tx) => {
+      // Claiming the token first keeps two requests with the same link from both succeeding
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      // Proving access to the email also lifts a lockout from failed sign-ins
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword, failedLoginAttempts: 0, lockedUntil: null }
+      });
+      await tx.session.updateMany({
+        where: { userId: resetToken.userId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+      return true;
+    });
+
+    if (!reset) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    res.json({ message: 'Password has been reset' });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/2fa/setup - Start two-factor enrollment with a new secret for the authenticator app
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    // Starting over replaces a secret from an enrollment that was never confirmed
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: secret, totpLastStep: null }
+    });
+
+    const otpauthUri = buildOtpauthUri(secret, user.username);
+    const response: TwoFactorSetupResponse = {
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri)
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/2fa/enable - Confirm enrollment with a code from the app and get recovery codes
+export const enableTwoFactor = async (req: Request<{}, {}, TwoFactorCodeRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { code } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!code) {
+      return res.status(400).json({ error: 'Verification code is required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!user.totpSecret) {
+      return res.status(400).json({ error: 'Two-factor setup has not been started' });
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const { codes, codeHashes } = generateRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { totpEnabledAt: new Date(), totpLastStep: step }
+      }),
+      prisma.recoveryCode.deleteMany({
+        where: { userId }
+      }),
+      prisma.recoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash }))
+      })
+    ]);
+
+    res.json({ recoveryCodes: codes });
+
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/2fa/recovery-codes - Replace all recovery codes, confirmed with a current code
+export const regenerateRecoveryCodes = async (req: Request<{}, {}, TwoFactorCodeRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { code } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!code) {
+      return res.status(400).json({ error: 'Verification code is required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    if (!await consumeTwoFactorCode(user, code)) {
+      return res.status(403).json({ error: 'Invalid verification code' });
+    }
+
+    const { codes, codeHashes } = generateRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({
+        where: { userId }
+      }),
+      prisma.recoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash }))
+      })
+    ]);
+
+    res.json({ recoveryCodes: codes });
+
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/auth/2fa/disable - Turn two-factor authentication off, confirmed with password and code
+export const disableTwoFactor = async (req: Request<{}, {}, DisableTwoFactorRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { password, code } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!password || !code) {
+      return res.status(400).json({ error: 'Password and verification code are required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!user.totpEnabledAt) {
+      return res.status(409).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+
+    if (!isPasswordValid) {
+      return res.status(403).json({ error: 'Password is incorrect' });
+    }
+
+    if (!await consumeTwoFactorCode(user, code)) {
+      return res.status(403).json({ error: 'Invalid verification code' });
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null }
+      }),
+      prisma.recoveryCode.deleteMany({
+        where: { userId }
+      })
+    ]);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 };
\ No newline at end of file
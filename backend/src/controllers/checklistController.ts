@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { prisma } from '../utils/prisma';
+import { POSITION_STEP } from '../utils/taskPosition';
+import { taskAccessWhere } from '../utils/access';
+import { AccessLevel } from '../types/share';
+import { CreateChecklistItemRequest, UpdateChecklistItemRequest } from '../types/checklist';
+
+type TaskParams = { id: string };
+type ItemParams = { id: string; itemId: string };
+
+// Items have no owner of their own; access always goes through the parent task and its shares
+const findAccessibleTask = (taskId: number, userId: number, required: AccessLevel) => {
+  return prisma.task.findFirst({
+    where: { id: taskId, ...taskAccessWhere(userId, required) },
+    select: { id: true }
+  });
+};
+
+// GET /api/tasks/:id/items - Get checklist items of a task
+export const getChecklistItems = async (req: Request<TaskParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    if (!await findAccessibleTask(taskId, userId, 'VIEWER')) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    const items = await prisma.checklistItem.findMany({
+      where: { taskId },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }]
+    });
+
+    res.json(items);
+
+  } catch (error) {
+    console.error('Get checklist items error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/tasks/:id/items - Add checklist item to the end of a task's checklist
+export const createChecklistItem = async (req: Request<TaskParams, {}, CreateChecklistItemRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const { title } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    if (!title || title.trim().length === 0) {
+      return res.status(400).json({ error: 'Title is required' });
+    }
+
+    if (!await findAccessibleTask(taskId, userId, 'EDITOR')) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    const { _max } = await prisma.checklistItem.aggregate({
+      where: { taskId },
+      _max: { position: true }
+    });
+
+    const item = await prisma.checklistItem.create({
+      data: {
+        title: title.trim(),
+        position: _max.position === null ? 0 : _max.position + POSITION_STEP,
+        taskId
+      }
+    });
+
+    res.status(201).json(item);
+
+  } catch (error) {
+    console.error('Create checklist item error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/tasks/:id/items/:itemId - Rename or check off a checklist item
+export const updateChecklistItem = async (req: Request<ItemParams, {}, UpdateChecklistItemRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const itemId = parseInt(req.params.itemId);
+    const { title, done } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(itemId)) {
+      return res.status(400).json({ error: 'Invalid task or item ID' });
+    }
+
+    if (title !== undefined && title.trim().length === 0) {
+      return res.status(400).json({ error: 'Title cannot be empty' });
+    }
+
+    if (done !== undefined && typeof done !== 'boolean') {
+      return res.status(400).json({ error: 'Done must be a boolean' });
+    }
+
+    // Check if item exists and the user may edit its task
+    const existingItem = await prisma.checklistItem.findFirst({
+      where: { id: itemId, task: { id: taskId, ...taskAccessWhere(userId, 'EDITOR') } }
+    });
+
+    if (!existingItem) {
+      return res.status(404).json({ error: 'Checklist item not found or access denied' });
+    }
+
+    const item = await prisma.checklistItem.update({
+      where: { id: itemId },
+      data: {
+        ...(title !== undefined && { title: title.trim() }),
+        ...(done !== undefined && { done })
+      }
+    });
+
+    res.json(item);
+
+  } catch (error) {
+    console.error('Update checklist item error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tasks/:id/items/:itemId - Delete checklist item
+export const deleteChecklistItem = async (req: Request<ItemParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const itemId = parseInt(req.params.itemId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(itemId)) {
+      return res.status(400).json({ error: 'Invalid task or item ID' });
+    }
+
+    // Check if item exists and the user may edit its task
+    const existingItem = await prisma.checklistItem.findFirst({
+      where: { id: itemId, task: { id: taskId, ...taskAccessWhere(userId, 'EDITOR') } }
+    });
+
+    if (!existingItem) {
+      return res.status(404).json({ error: 'Checklist item not found or access denied' });
+    }
+
+    await prisma.checklistItem.delete({
+      where: { id: itemId }
+    });
+
+    res.json({ message: 'Checklist item deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete checklist item error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
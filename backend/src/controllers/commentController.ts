@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import { Prisma } from '../generated/prisma';
+import { prisma } from '../utils/prisma';
+import { taskAccessWhere } from '../utils/access';
+import { CreateCommentRequest, UpdateCommentRequest } from '../types/comment';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+type TaskParams = { id: string };
+type CommentParams = { id: string; commentId: string };
+
+const COMMENT_INCLUDE = {
+  author: { select: { id: true, username: true } }
+} satisfies Prisma.CommentInclude;
+
+// Returns an error message, or null for a valid body
+const validateBody = (body: unknown): string | null => {
+  if (typeof body !== 'string' || body.trim().length === 0) {
+    return 'Comment cannot be empty';
+  }
+  if (body.trim().length > MAX_COMMENT_LENGTH) {
+    return `Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Comments have no access rules of their own: anyone who can see the task reads and writes them
+const findVisibleTask = (taskId: number, userId: number) => {
+  return prisma.task.findFirst({
+    where: { id: taskId, ...taskAccessWhere(userId) },
+    select: { id: true }
+  });
+};
+
+// Loads a comment on a task the user can see; only its author may change it
+const findComment = (commentId: number, taskId: number, userId: number) => {
+  return prisma.comment.findFirst({
+    where: { id: commentId, task: { id: taskId, ...taskAccessWhere(userId) } }
+  });
+};
+
+// GET /api/tasks/:id/comments - Get the comments of a task, oldest first
+export const getComments = async (req: Request<TaskParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    if (!await findVisibleTask(taskId, userId)) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    const comments = await prisma.comment.findMany({
+      where: { taskId },
+      include: COMMENT_INCLUDE,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    res.json(comments);
+
+  } catch (error) {
+    console.error('Get comments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/tasks/:id/comments - Comment on a task
+export const createComment = async (req: Request<TaskParams, {}, CreateCommentRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    const bodyError = validateBody(req.body.body);
+
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    if (!await findVisibleTask(taskId, userId)) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        body: req.body.body.trim(),
+        taskId,
+        authorId: userId
+      },
+      include: COMMENT_INCLUDE
+    });
+
+    res.status(201).json(comment);
+
+  } catch (error) {
+    console.error('Create comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/tasks/:id/comments/:commentId - Edit own comment
+export const updateComment = async (req: Request<CommentParams, {}, UpdateCommentRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const commentId = parseInt(req.params.commentId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(commentId)) {
+      return res.status(400).json({ error: 'Invalid task or comment ID' });
+    }
+
+    const bodyError = validateBody(req.body.body);
+
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    const existingComment = await findComment(commentId, taskId, userId);
+
+    if (!existingComment) {
+      return res.status(404).json({ error: 'Comment not found or access denied' });
+    }
+
+    if (existingComment.authorId !== userId) {
+      return res.status(403).json({ error: 'Only the author can edit this comment' });
+    }
+
+    const comment = await prisma.comment.update({
+      where: { id: commentId },
+      data: { body: req.body.body.trim() },
+      include: COMMENT_INCLUDE
+    });
+
+    res.json(comment);
+
+  } catch (error) {
+    console.error('Update comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tasks/:id/comments/:commentId - Delete own comment
+export const deleteComment = async (req: Request<CommentParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const commentId = parseInt(req.params.commentId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(commentId)) {
+      return res.status(400).json({ error: 'Invalid task or comment ID' });
+    }
+
+    const existingComment = await findComment(commentId, taskId, userId);
+
+    if (!existingComment) {
+      return res.status(404).json({ error: 'Comment not found or access denied' });
+    }
+
+    if (existingComment.authorId !== userId) {
+      return res.status(403).json({ error: 'Only the author can delete this comment' });
+    }
+
+    await prisma.comment.delete({
+      where: { id: commentId }
+    });
+
+    res.json({ message: 'Comment deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
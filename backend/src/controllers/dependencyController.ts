@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { prisma } from '../utils/prisma';
+import { getTaskAccess, hasAccess, taskAccessWhere } from '../utils/access';
+import { createsCycle, TASK_LINK_SELECT } from '../utils/taskDependencies';
+import { CreateDependencyRequest, DependencyResponse } from '../types/dependency';
+
+type TaskParams = { id: string };
+type DependencyParams = { id: string; blockerId: string };
+
+// Dependencies belong to the blocked task, so changing them takes edit rights on it
+const findEditableTask = async (taskId: number, userId: number) => {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...taskAccessWhere(userId) },
+    select: TASK_LINK_SELECT
+  });
+  return task && { task, canEdit: hasAccess(getTaskAccess(task, userId), 'EDITOR') };
+};
+
+const findBlockerIds = async (taskIds: number[]) => {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { blockedId: { in: taskIds } },
+    select: { blockerId: true }
+  });
+  return dependencies.map(dependency => dependency.blockerId);
+};
+
+// POST /api/tasks/:id/dependencies - Mark the task as blocked by another task the user can see
+export const createDependency = async (req: Request<TaskParams, {}, CreateDependencyRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const { blockerId } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    if (!Number.isInteger(blockerId)) {
+      return res.status(400).json({ error: 'Blocker ID is required' });
+    }
+
+    if (blockerId === taskId) {
+      return res.status(400).json({ error: 'A task cannot block itself' });
+    }
+
+    const found = await findEditableTask(taskId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    if (!found.canEdit) {
+      return res.status(403).json({ error: 'You do not have permission to edit this task' });
+    }
+
+    const blocker = await prisma.task.findFirst({
+      where: { id: blockerId, ...taskAccessWhere(userId) },
+      select: { id: true, title: true, status: true }
+    });
+
+    if (!blocker) {
+      return res.status(404).json({ error: 'Blocking task not found or access denied' });
+    }
+
+    const existingDependency = await prisma.taskDependency.findUnique({
+      where: { blockedId_blockerId: { blockedId: taskId, blockerId } }
+    });
+
+    if (existingDependency) {
+      return res.status(409).json({ error: 'Task is already blocked by this task' });
+    }
+
+    if (await createsCycle(blockerId, taskId, findBlockerIds)) {
+      return res.status(409).json({ error: 'This dependency would create a cycle' });
+    }
+
+    await prisma.taskDependency.create({
+      data: { blockerId, blockedId: taskId }
+    });
+
+    const { id, title, status } = found.task;
+    const response: DependencyResponse = { blocker, blocked: { id, title, status } };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    console.error('Create dependency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tasks/:id/dependencies/:blockerId - Stop the task from being blocked by another task
+export const deleteDependency = async (req: Request<DependencyParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const blockerId = parseInt(req.params.blockerId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(blockerId)) {
+      return res.status(400).json({ error: 'Invalid task or blocker ID' });
+    }
+
+    const found = await findEditableTask(taskId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    if (!found.canEdit) {
+      return res.status(403).json({ error: 'You do not have permission to edit this task' });
+    }
+
+    const existingDependency = await prisma.taskDependency.findUnique({
+      where: { blockedId_blockerId: { blockedId: taskId, blockerId } }
+    });
+
+    if (!existingDependency) {
+      return res.status(404).json({ error: 'Dependency not found' });
+    }
+
+    await prisma.taskDependency.delete({
+      where: { id: existingDependency.id }
+    });
+
+    res.json({ message: 'Dependency removed successfully' });
+
+  } catch (error) {
+    console.error('Delete dependency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
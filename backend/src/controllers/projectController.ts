@@ -0,0 +1,267 @@
+import { Request, Response } from 'express';
+import { Prisma } from '../generated/prisma';
+import { prisma } from '../utils/prisma';
+import { CLOSED_STATUSES } from '../utils/taskWorkflow';
+import { isHexColor } from '../utils/color';
+import { getProjectAccess, projectAccessWhere } from '../utils/access';
+import { toTaskSnapshot, diffSnapshots, recordTaskEvent } from '../utils/taskHistory';
+import { CreateProjectRequest, UpdateProjectRequest, DeleteProjectQuery, ProjectResponse } from '../types/project';
+
+const MAX_PROJECT_NAME_LENGTH = 50;
+
+// Owner and collaborators are shown for shared projects
+const PROJECT_INCLUDE = {
+  user: { select: { id: true, username: true } },
+  shares: {
+    select: { userId: true, role: true, user: { select: { username: true } } },
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.ProjectInclude;
+
+type ProjectWithRelations = Prisma.ProjectGetPayload<{ include: typeof PROJECT_INCLUDE }>;
+
+// What the audit trail records of a task that is deleted together with its project
+const TASK_SNAPSHOT_INCLUDE = {
+  project: { select: { name: true } },
+  tags: { select: { name: true } },
+  assignee: { select: { username: true } }
+} satisfies Prisma.TaskInclude;
+
+const validateName = (name: string | undefined): string | null => {
+  if (!name || name.trim().length === 0) {
+    return 'Project name is required';
+  }
+  if (name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+    return `Project name cannot exceed ${MAX_PROJECT_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Counts of all and of still open tasks for each of the given projects, leaving out the trash
+const countTasks = async (projectIds: number[]) => {
+  const [all, open] = await Promise.all([
+    prisma.task.groupBy({
+      by: ['projectId'],
+      where: { projectId: { in: projectIds }, deletedAt: null },
+      _count: { _all: true }
+    }),
+    prisma.task.groupBy({
+      by: ['projectId'],
+      where: { projectId: { in: projectIds }, status: { notIn: CLOSED_STATUSES }, deletedAt: null },
+      _count: { _all: true }
+    })
+  ]);
+
+  const toMap = (groups: typeof all) => new Map(groups.map(group => [group.projectId, group._count._all]));
+  return { all: toMap(all), open: toMap(open) };
+};
+
+const toProjectResponse = (
+  { user, shares, ...project }: ProjectWithRelations,
+  counts: Awaited<ReturnType<typeof countTasks>>,
+  userId: number
+): ProjectResponse => ({
+  ...project,
+  taskCount: counts.all.get(project.id) ?? 0,
+  openTaskCount: counts.open.get(project.id) ?? 0,
+  owner: user,
+  shares: shares.map(share => ({ userId: share.userId, username: share.user.username, role: share.role })),
+  access: getProjectAccess({ userId: project.userId, shares }, userId)!
+});
+
+// GET /api/projects - Get own and shared projects of authenticated user, active ones first
+export const getProjects = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const projects = await prisma.project.findMany({
+      where: projectAccessWhere(userId),
+      include: PROJECT_INCLUDE,
+      orderBy: [{ archivedAt: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }]
+    });
+
+    const counts = await countTasks(projects.map(project => project.id));
+
+    res.json(projects.map(project => toProjectResponse(project, counts, userId)));
+
+  } catch (error) {
+    console.error('Get projects error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/projects - Create new project
+export const createProject = async (req: Request<{}, {}, CreateProjectRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { name, description, color } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const nameError = validateName(name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    if (color != null && !isHexColor(color)) {
+      return res.status(400).json({ error: 'Color must be a hex value like #1d4ed8' });
+    }
+
+    const existingProject = await prisma.project.findFirst({
+      where: { userId, name: name.trim() }
+    });
+
+    if (existingProject) {
+      return res.status(409).json({ error: 'Project already exists' });
+    }
+
+    const project = await prisma.project.create({
+      data: {
+        name: name.trim(),
+        description: description?.trim() || null,
+        color: color?.toLowerCase() || null,
+        userId
+      },
+      include: PROJECT_INCLUDE
+    });
+
+    res.status(201).json(toProjectResponse(project, { all: new Map(), open: new Map() }, userId));
+
+  } catch (error) {
+    console.error('Create project error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/projects/:id - Rename, describe, recolor, archive or restore project
+export const updateProject = async (req: Request<{ id: string }, {}, UpdateProjectRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const projectId = parseInt(req.params.id);
+    const { name, description, color, archived } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(projectId)) {
+      return res.status(400).json({ error: 'Invalid project ID' });
+    }
+
+    const nameError = name !== undefined ? validateName(name) : null;
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    if (color != null && !isHexColor(color)) {
+      return res.status(400).json({ error: 'Color must be a hex value like #1d4ed8' });
+    }
+
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return res.status(400).json({ error: 'Archived must be a boolean' });
+    }
+
+    // Check if project exists and belongs to user
+    const existingProject = await prisma.project.findFirst({
+      where: { id: projectId, userId }
+    });
+
+    if (!existingProject) {
+      return res.status(404).json({ error: 'Project not found or access denied' });
+    }
+
+    if (name !== undefined) {
+      const duplicateProject = await prisma.project.findFirst({
+        where: { userId, name: name.trim(), id: { not: projectId } }
+      });
+
+      if (duplicateProject) {
+        return res.status(409).json({ error: 'Project already exists' });
+      }
+    }
+
+    const project = await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description?.trim() || null }),
+        ...(color !== undefined && { color: color?.toLowerCase() || null }),
+        // Archiving twice keeps the original archive date
+        ...(archived !== undefined && { archivedAt: archived ? existingProject.archivedAt ?? new Date() : null })
+      },
+      include: PROJECT_INCLUDE
+    });
+
+    const counts = await countTasks([project.id]);
+
+    res.json(toProjectResponse(project, counts, userId));
+
+  } catch (error) {
+    console.error('Update project error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/projects/:id?tasks=unassign|delete - Delete project, keeping its tasks without a project by default
+export const deleteProject = async (req: Request<{ id: string }, {}, {}, DeleteProjectQuery>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const projectId = parseInt(req.params.id);
+    const mode = req.query.tasks ?? 'unassign';
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(projectId)) {
+      return res.status(400).json({ error: 'Invalid project ID' });
+    }
+
+    if (mode !== 'unassign' && mode !== 'delete') {
+      return res.status(400).json({ error: 'Tasks must be unassign or delete' });
+    }
+
+    // Check if project exists and belongs to user
+    const existingProject = await prisma.project.findFirst({
+      where: { id: projectId, userId }
+    });
+
+    if (!existingProject) {
+      return res.status(404).json({ error: 'Project not found or access denied' });
+    }
+
+    // The delete mode moves the owner's tasks to the trash first, where they can still be restored. The foreign key
+    // unassigns everything left, so collaborators keep their own tasks without a project.
+    const deletedTasks = await prisma.$transaction(async (tx) => {
+      const tasks = mode === 'delete'
+        ? await tx.task.findMany({ where: { projectId, userId, deletedAt: null }, include: TASK_SNAPSHOT_INCLUDE })
+        : [];
+      if (tasks.length > 0) {
+        await tx.task.updateMany({
+          where: { id: { in: tasks.map(task => task.id) } },
+          data: { deletedAt: new Date() }
+        });
+        for (const task of tasks) {
+          await recordTaskEvent(tx, task.id, 'DELETED', diffSnapshots(toTaskSnapshot(task), null), userId);
+        }
+      }
+      await tx.project.delete({ where: { id: projectId } });
+      return tasks.length;
+    });
+
+    res.json({
+      message: 'Project deleted successfully',
+      deletedTasks
+    });
+
+  } catch (error) {
+    console.error('Delete project error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,377 @@
+import { Request, Response } from 'express';
+import { Prisma, ShareRole } from '../generated/prisma';
+import { prisma } from '../utils/prisma';
+import {
+  getProjectAccess,
+  getTaskAccess,
+  hasAccess,
+  isShareRole,
+  projectAccessWhere,
+  taskAccessWhere,
+  PROJECT_ACCESS_INCLUDE,
+  TASK_ACCESS_INCLUDE
+} from '../utils/access';
+import { CreateShareRequest, UpdateShareRequest, ShareResponse } from '../types/share';
+
+type ResourceParams = { id: string };
+type CollaboratorParams = { id: string; userId: string };
+
+const SHARE_SELECT = {
+  userId: true,
+  role: true,
+  user: { select: { username: true } }
+} as const;
+
+const toShareResponse = (share: { userId: number; role: ShareRole; user: { username: string } }): ShareResponse => ({
+  userId: share.userId,
+  username: share.user.username,
+  role: share.role
+});
+
+const ROLE_ERROR = `Role must be one of ${Object.values(ShareRole).join(', ')}`;
+
+// Finds the user a task or project is shared with; its owner already has full access and cannot be added
+const findCollaborator = async (
+  body: CreateShareRequest,
+  ownerId: number
+): Promise<{ status: number; error: string } | { id: number }> => {
+  if (!body.username || typeof body.username !== 'string') {
+    return { status: 400, error: 'Username is required' };
+  }
+  if (!isShareRole(body.role)) {
+    return { status: 400, error: ROLE_ERROR };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { username: body.username.trim() },
+    select: { id: true }
+  });
+
+  if (!user) {
+    return { status: 404, error: 'User not found' };
+  }
+  if (user.id === ownerId) {
+    return { status: 400, error: 'The owner cannot be added as a collaborator' };
+  }
+  return user;
+};
+
+// Whoever loses access to a task also stops being its assignee, unless another share still covers them
+const unassignWithoutAccess = (where: Prisma.TaskWhereInput, userId: number) => {
+  return prisma.task.updateMany({
+    where: { ...where, assigneeId: userId, NOT: taskAccessWhere(userId) },
+    data: { assigneeId: null }
+  });
+};
+
+const findTask = async (taskId: number, userId: number) => {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...taskAccessWhere(userId) },
+    include: TASK_ACCESS_INCLUDE
+  });
+  return task && { task, access: getTaskAccess(task, userId) };
+};
+
+const findProject = async (projectId: number, userId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, ...projectAccessWhere(userId) },
+    include: PROJECT_ACCESS_INCLUDE
+  });
+  return project && { project, access: getProjectAccess(project, userId) };
+};
+
+// POST /api/tasks/:id/shares - Share task with another user as viewer or editor
+export const shareTask = async (req: Request<ResourceParams, {}, CreateShareRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    const found = await findTask(taskId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    if (!hasAccess(found.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can share this task' });
+    }
+
+    const collaborator = await findCollaborator(req.body, found.task.userId);
+
+    if ('error' in collaborator) {
+      return res.status(collaborator.status).json({ error: collaborator.error });
+    }
+
+    const existingShare = await prisma.taskShare.findUnique({
+      where: { taskId_userId: { taskId, userId: collaborator.id } }
+    });
+
+    if (existingShare) {
+      return res.status(409).json({ error: 'Already shared with this user' });
+    }
+
+    const share = await prisma.taskShare.create({
+      data: { taskId, userId: collaborator.id, role: req.body.role },
+      select: SHARE_SELECT
+    });
+
+    res.status(201).json(toShareResponse(share));
+
+  } catch (error) {
+    console.error('Share task error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/tasks/:id/shares/:userId - Change a collaborator's role on a task
+export const updateTaskShare = async (req: Request<CollaboratorParams, {}, UpdateShareRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const collaboratorId = parseInt(req.params.userId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(collaboratorId)) {
+      return res.status(400).json({ error: 'Invalid task or user ID' });
+    }
+
+    if (!isShareRole(req.body.role)) {
+      return res.status(400).json({ error: ROLE_ERROR });
+    }
+
+    const found = await findTask(taskId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    if (!hasAccess(found.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can share this task' });
+    }
+
+    const existingShare = await prisma.taskShare.findUnique({
+      where: { taskId_userId: { taskId, userId: collaboratorId } }
+    });
+
+    if (!existingShare) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    const share = await prisma.taskShare.update({
+      where: { id: existingShare.id },
+      data: { role: req.body.role },
+      select: SHARE_SELECT
+    });
+
+    res.json(toShareResponse(share));
+
+  } catch (error) {
+    console.error('Update task share error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tasks/:id/shares/:userId - Remove a collaborator from a task, or leave a task shared with you
+export const removeTaskShare = async (req: Request<CollaboratorParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+    const collaboratorId = parseInt(req.params.userId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId) || isNaN(collaboratorId)) {
+      return res.status(400).json({ error: 'Invalid task or user ID' });
+    }
+
+    const found = await findTask(taskId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    if (collaboratorId !== userId && !hasAccess(found.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can share this task' });
+    }
+
+    const existingShare = await prisma.taskShare.findUnique({
+      where: { taskId_userId: { taskId, userId: collaboratorId } }
+    });
+
+    if (!existingShare) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    await prisma.taskShare.delete({
+      where: { id: existingShare.id }
+    });
+    await unassignWithoutAccess({ id: taskId }, collaboratorId);
+
+    res.json({ message: 'Collaborator removed successfully' });
+
+  } catch (error) {
+    console.error('Remove task share error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/projects/:id/shares - Share project and all of its tasks with another user
+export const shareProject = async (req: Request<ResourceParams, {}, CreateShareRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const projectId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(projectId)) {
+      return res.status(400).json({ error: 'Invalid project ID' });
+    }
+
+    const found = await findProject(projectId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Project not found or access denied' });
+    }
+
+    if (!hasAccess(found.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can share this project' });
+    }
+
+    const collaborator = await findCollaborator(req.body, found.project.userId);
+
+    if ('error' in collaborator) {
+      return res.status(collaborator.status).json({ error: collaborator.error });
+    }
+
+    const existingShare = await prisma.projectShare.findUnique({
+      where: { projectId_userId: { projectId, userId: collaborator.id } }
+    });
+
+    if (existingShare) {
+      return res.status(409).json({ error: 'Already shared with this user' });
+    }
+
+    const share = await prisma.projectShare.create({
+      data: { projectId, userId: collaborator.id, role: req.body.role },
+      select: SHARE_SELECT
+    });
+
+    res.status(201).json(toShareResponse(share));
+
+  } catch (error) {
+    console.error('Share project error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/projects/:id/shares/:userId - Change a collaborator's role on a project
+export const updateProjectShare = async (req: Request<CollaboratorParams, {}, UpdateShareRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const projectId = parseInt(req.params.id);
+    const collaboratorId = parseInt(req.params.userId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(projectId) || isNaN(collaboratorId)) {
+      return res.status(400).json({ error: 'Invalid project or user ID' });
+    }
+
+    if (!isShareRole(req.body.role)) {
+      return res.status(400).json({ error: ROLE_ERROR });
+    }
+
+    const found = await findProject(projectId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Project not found or access denied' });
+    }
+
+    if (!hasAccess(found.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can share this project' });
+    }
+
+    const existingShare = await prisma.projectShare.findUnique({
+      where: { projectId_userId: { projectId, userId: collaboratorId } }
+    });
+
+    if (!existingShare) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    const share = await prisma.projectShare.update({
+      where: { id: existingShare.id },
+      data: { role: req.body.role },
+      select: SHARE_SELECT
+    });
+
+    res.json(toShareResponse(share));
+
+  } catch (error) {
+    console.error('Update project share error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/projects/:id/shares/:userId - Remove a collaborator from a project, or leave a project shared with you
+export const removeProjectShare = async (req: Request<CollaboratorParams>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const projectId = parseInt(req.params.id);
+    const collaboratorId = parseInt(req.params.userId);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(projectId) || isNaN(collaboratorId)) {
+      return res.status(400).json({ error: 'Invalid project or user ID' });
+    }
+
+    const found = await findProject(projectId, userId);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Project not found or access denied' });
+    }
+
+    if (collaboratorId !== userId && !hasAccess(found.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can share this project' });
+    }
+
+    const existingShare = await prisma.projectShare.findUnique({
+      where: { projectId_userId: { projectId, userId: collaboratorId } }
+    });
+
+    if (!existingShare) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    await prisma.projectShare.delete({
+      where: { id: existingShare.id }
+    });
+    await unassignWithoutAccess({ projectId }, collaboratorId);
+
+    res.json({ message: 'Collaborator removed successfully' });
+
+  } catch (error) {
+    console.error('Remove project share error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
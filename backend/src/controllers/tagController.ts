@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import { prisma } from '../utils/prisma';
+import { isHexColor } from '../utils/color';
+import { CreateTagRequest, UpdateTagRequest } from '../types/tag';
+
+const MAX_TAG_NAME_LENGTH = 30;
+
+const validateName = (name: string | undefined): string | null => {
+  if (!name || name.trim().length === 0) {
+    return 'Tag name is required';
+  }
+  if (name.trim().length > MAX_TAG_NAME_LENGTH) {
+    return `Tag name cannot exceed ${MAX_TAG_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+// GET /api/tags - Get all tags of authenticated user with the number of tasks using each
+export const getTags = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { tasks: true } } }
+    });
+
+    res.json(tags.map(({ _count, ...tag }) => ({ ...tag, taskCount: _count.tasks })));
+
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/tags - Create new tag
+export const createTag = async (req: Request<{}, {}, CreateTagRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { name, color } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const nameError = validateName(name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    if (!isHexColor(color)) {
+      return res.status(400).json({ error: 'Color must be a hex value like #1d4ed8' });
+    }
+
+    const existingTag = await prisma.tag.findFirst({
+      where: { userId, name: name.trim() }
+    });
+
+    if (existingTag) {
+      return res.status(409).json({ error: 'Tag already exists' });
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        name: name.trim(),
+        color: color.toLowerCase(),
+        userId
+      }
+    });
+
+    res.status(201).json({ ...tag, taskCount: 0 });
+
+  } catch (error) {
+    console.error('Create tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PUT /api/tags/:id - Rename or recolor tag
+export const updateTag = async (req: Request<{ id: string }, {}, UpdateTagRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const tagId = parseInt(req.params.id);
+    const { name, color } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(tagId)) {
+      return res.status(400).json({ error: 'Invalid tag ID' });
+    }
+
+    const nameError = name !== undefined ? validateName(name) : null;
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+
+    if (color !== undefined && !isHexColor(color)) {
+      return res.status(400).json({ error: 'Color must be a hex value like #1d4ed8' });
+    }
+
+    // Check if tag exists and belongs to user
+    const existingTag = await prisma.tag.findFirst({
+      where: { id: tagId, userId }
+    });
+
+    if (!existingTag) {
+      return res.status(404).json({ error: 'Tag not found or access denied' });
+    }
+
+    if (name !== undefined) {
+      const duplicateTag = await prisma.tag.findFirst({
+        where: { userId, name: name.trim(), id: { not: tagId } }
+      });
+
+      if (duplicateTag) {
+        return res.status(409).json({ error: 'Tag already exists' });
+      }
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id: tagId },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(color !== undefined && { color: color.toLowerCase() })
+      },
+      include: { _count: { select: { tasks: true } } }
+    });
+
+    const { _count, ...updatedTag } = tag;
+    res.json({ ...updatedTag, taskCount: _count.tasks });
+
+  } catch (error) {
+    console.error('Update tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tags/:id - Delete tag and remove it from all tasks
+export const deleteTag = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const tagId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(tagId)) {
+      return res.status(400).json({ error: 'Invalid tag ID' });
+    }
+
+    // Check if tag exists and belongs to user
+    const existingTag = await prisma.tag.findFirst({
+      where: { id: tagId, userId }
+    });
+
+    if (!existingTag) {
+      return res.status(404).json({ error: 'Tag not found or access denied' });
+    }
+
+    await prisma.tag.delete({
+      where: { id: tagId }
+    });
+
+    res.json({ message: 'Tag deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,11 +1,781 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '../generated/prisma';
-import { CreateTaskRequest, UpdateTaskRequest } from '../types/task';
+import { Prisma, TaskStatus, TaskPriority } from '../generated/prisma';
+import { prisma } from '../utils/prisma';
+import { CLOSED_STATUSES, canTransition, isTaskStatus } from '../utils/taskWorkflow';
+import { POSITION_STEP, positionBetween } from '../utils/taskPosition';
+import { toSearchQuery, TITLE_HEADLINE_OPTIONS, SNIPPET_HEADLINE_OPTIONS } from '../utils/taskSearch';
+import { getTaskAccess, hasAccess, projectAccessWhere, taskAccessWhere, trashedTaskWhere, TASK_ACCESS_INCLUDE } from '../utils/access';
+import { toTaskSnapshot, diffSnapshots, recordTaskEvent } from '../utils/taskHistory';
+import { getTrashRetentionDays } from '../utils/trashPurge';
+import { getNextOccurrence, parseRecurrence, RecurrenceSettings } from '../utils/recurrence';
+import { TASK_LINK_SELECT } from '../utils/taskDependencies';
+import { CreateTaskRequest, UpdateTaskRequest, UpdateTaskResponse, EditScope, MoveTaskRequest, TaskListQuery, TaskStatsQuery, DueTasksQuery, TaskSortField, SortOrder, TaskResponse, TaskLink, TrashResponse, BulkUpdateTasksRequest, BulkDeleteTasksRequest, BulkTasksResponse } from '../types/task';
+import { TaskChanges, TaskEventResponse } from '../types/history';
+import { AccessLevel } from '../types/share';
 
-const prisma = new PrismaClient();
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_BULK_SIZE = 100;
+const SORT_FIELDS: TaskSortField[] = ['createdAt', 'updatedAt', 'title', 'status', 'priority', 'dueDate', 'position'];
+const DEFAULT_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_REMINDER_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+const TASK_STATUSES = Object.values(TaskStatus) as TaskStatus[];
+const TASK_PRIORITIES = Object.values(TaskPriority) as TaskPriority[];
+const EDIT_SCOPES: EditScope[] = ['occurrence', 'series'];
 
-// GET /api/tasks - Get all tasks for authenticated user
-export const getTasks = async (req: Request, res: Response) => {
+// What the access checks and the audit trail need to know about a task before it changes
+const TASK_STATE_INCLUDE = {
+  ...TASK_ACCESS_INCLUDE,
+  project: { select: { ...TASK_ACCESS_INCLUDE.project.select, name: true } },
+  tags: { select: { name: true } },
+  assignee: { select: { username: true } }
+} satisfies Prisma.TaskInclude;
+
+// Checklist items and tags are small, so they travel with every task instead of needing a request per card.
+// Comments are only counted; the thread is loaded when a card is opened.
+const TASK_INCLUDE = {
+  items: { orderBy: [{ position: 'asc' }, { id: 'asc' }] },
+  tags: { select: { id: true, name: true, color: true }, orderBy: { name: 'asc' } },
+  user: { select: { id: true, username: true } },
+  assignee: { select: { id: true, username: true } },
+  shares: {
+    select: { userId: true, role: true, user: { select: { username: true } } },
+    orderBy: { createdAt: 'asc' }
+  },
+  project: TASK_STATE_INCLUDE.project,
+  series: { select: { frequency: true, interval: true, weekdays: true, until: true, timeZone: true } },
+  // Dependencies on tasks in the trash are left out until those tasks are restored
+  blockedBy: {
+    where: { blocker: { deletedAt: null } },
+    select: { blocker: { select: TASK_LINK_SELECT } },
+    orderBy: { createdAt: 'asc' }
+  },
+  blocking: {
+    where: { blocked: { deletedAt: null } },
+    select: { blocked: { select: TASK_LINK_SELECT } },
+    orderBy: { createdAt: 'asc' }
+  },
+  _count: { select: { comments: true } }
+} satisfies Prisma.TaskInclude;
+
+type TaskWithRelations = Prisma.TaskGetPayload<{ include: typeof TASK_INCLUDE }>;
+type TaskWithState = Prisma.TaskGetPayload<{ include: typeof TASK_STATE_INCLUDE }>;
+
+// Tasks on the other side of a dependency may be out of the user's reach, and are left out then
+const toTaskLinks = (tasks: Prisma.TaskGetPayload<{ select: typeof TASK_LINK_SELECT }>[], userId: number): TaskLink[] => {
+  return tasks
+    .filter(task => getTaskAccess(task, userId))
+    .map(({ id, title, status }) => ({ id, title, status }));
+};
+
+// Only tasks the user can see are ever loaded, so the access level is never null here
+const toTaskResponse = ({ user, shares, project, series, blockedBy, blocking, _count, ...task }: TaskWithRelations, userId: number): TaskResponse => ({
+  ...task,
+  recurrence: series,
+  blockedBy: toTaskLinks(blockedBy.map(dependency => dependency.blocker), userId),
+  blocking: toTaskLinks(blocking.map(dependency => dependency.blocked), userId),
+  commentCount: _count.comments,
+  owner: user,
+  shares: shares.map(share => ({ userId: share.userId, username: share.user.username, role: share.role })),
+  access: getTaskAccess({ userId: task.userId, shares, project }, userId)!
+});
+
+// Loads a task the user can at least see, together with what they may do with it
+const findAccessibleTask = async (taskId: number, userId: number) => {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...taskAccessWhere(userId) },
+    include: TASK_STATE_INCLUDE
+  });
+  return task && { task, access: getTaskAccess(task, userId) };
+};
+
+// Blockers that keep the given tasks from being completed; closed tasks and tasks in the trash block nothing.
+// Blockers listed in `exceptIds` are left out, for blockers that are completed in the same request.
+const findOpenBlockers = (taskIds: number[], exceptIds: number[] = []) => {
+  return prisma.taskDependency.findMany({
+    where: {
+      blockedId: { in: taskIds },
+      blocker: { id: { notIn: exceptIds }, deletedAt: null, status: { notIn: CLOSED_STATUSES } }
+    },
+    select: { blockedId: true, blockerId: true }
+  });
+};
+
+// Bulk errors name the tasks that caused them, so the client can point them out
+type BulkError = { status: number; error: string; taskIds: number[] };
+
+// Unique task ids of a bulk request, or null unless it lists between one and MAX_BULK_SIZE valid ids
+const parseTaskIds = (ids: unknown): number[] | null => {
+  if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id) && id > 0)) {
+    return null;
+  }
+  const uniqueIds = [...new Set(ids as number[])];
+  return uniqueIds.length > 0 && uniqueIds.length <= MAX_BULK_SIZE ? uniqueIds : null;
+};
+
+// Loads all requested tasks, checking each of them like the single-task endpoints do
+const findBulkTasks = async (
+  ids: number[],
+  userId: number,
+  required: AccessLevel
+): Promise<BulkError | { tasks: TaskWithState[] }> => {
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: ids }, ...taskAccessWhere(userId) },
+    include: TASK_STATE_INCLUDE
+  });
+  const foundIds = new Set(tasks.map(task => task.id));
+  const missingIds = ids.filter(id => !foundIds.has(id));
+
+  if (missingIds.length > 0) {
+    return { status: 404, error: 'Task not found or access denied', taskIds: missingIds };
+  }
+
+  const forbiddenIds = tasks.filter(task => !hasAccess(getTaskAccess(task, userId), required)).map(task => task.id);
+
+  if (forbiddenIds.length > 0) {
+    return required === 'OWNER'
+      ? { status: 403, error: 'Only the owner can delete this task', taskIds: forbiddenIds }
+      : { status: 403, error: 'You do not have permission to edit this task', taskIds: forbiddenIds };
+  }
+  return { tasks };
+};
+
+// Runs the checks of updateTask for every task; the first failing check is reported with all tasks it fails for
+const checkBulkUpdate = async (
+  tasks: TaskWithState[],
+  { status, projectId, addTagIds, removeTagIds }: BulkUpdateTasksRequest,
+  userId: number
+): Promise<BulkError | null> => {
+  if (status !== undefined) {
+    const blockedIds = tasks.filter(task => !canTransition(task.status, status)).map(task => task.id);
+    if (blockedIds.length > 0) {
+      return { status: 409, error: `Cannot change status to ${status}`, taskIds: blockedIds };
+    }
+  }
+
+  if (status === TaskStatus.COMPLETED) {
+    const completingIds = tasks.filter(task => task.status !== TaskStatus.COMPLETED).map(task => task.id);
+    const blockers = await findOpenBlockers(completingIds, completingIds);
+    if (blockers.length > 0) {
+      const waitingIds = [...new Set(blockers.map(blocker => blocker.blockedId))];
+      return { status: 409, error: 'Cannot complete tasks that are blocked by unfinished tasks', taskIds: waitingIds };
+    }
+  }
+
+  // Tags belong to the task owner, so they are checked once per owner
+  for (const ownerId of new Set(tasks.map(task => task.userId))) {
+    const ownerTaskIds = tasks.filter(task => task.userId === ownerId).map(task => task.id);
+    const [added, removed] = await Promise.all([resolveTagIds(addTagIds, ownerId), resolveTagIds(removeTagIds, ownerId)]);
+    if (added === null || removed === null) {
+      return { status: 400, error: 'Invalid tags', taskIds: ownerTaskIds };
+    }
+  }
+
+  // Tasks already in the target project stay where they are
+  const movingTasks = projectId !== undefined ? tasks.filter(task => task.projectId !== projectId) : [];
+
+  if (movingTasks.length > 0) {
+    // Collaborators cannot move tasks, or they could take them over by moving them into a project they own
+    const sharedIds = movingTasks.filter(task => !hasAccess(getTaskAccess(task, userId), 'OWNER')).map(task => task.id);
+    if (sharedIds.length > 0) {
+      return { status: 403, error: 'Only the owner can move these tasks to another project', taskIds: sharedIds };
+    }
+
+    const projectError = await checkTargetProject(projectId, userId);
+    if (projectError) {
+      return { ...projectError, taskIds: movingTasks.map(task => task.id) };
+    }
+
+    // Assignees must keep access to the tasks that move
+    const lostIds = [];
+    for (const task of movingTasks) {
+      if (await checkAssignee(task.assigneeId, { id: task.id, userId: task.userId, projectId: projectId ?? null })) {
+        lostIds.push(task.id);
+      }
+    }
+    if (lostIds.length > 0) {
+      return { status: 400, error: 'Assignee does not have access to this task', taskIds: lostIds };
+    }
+  }
+  return null;
+};
+
+// The fields of an occurrence that the later occurrences of its series start with
+const toSeriesTemplate = (task: TaskWithRelations) => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  hasDueTime: task.hasDueTime,
+  projectId: task.projectId,
+  assigneeId: task.assigneeId
+});
+
+// Applies an update to the task's series: null stops it, a rule makes the task recurring or changes its rule,
+// and edits to the whole series become the template of the occurrences still to come.
+// Returns whether the series of the task changed.
+const updateSeries = async (
+  tx: Prisma.TransactionClient,
+  task: TaskWithRelations,
+  existingTask: TaskWithState,
+  recurrence: RecurrenceSettings | null | undefined,
+  scope: EditScope
+) => {
+  if (recurrence === null) {
+    // Occurrences stay as they are, only without a series
+    if (existingTask.seriesId) {
+      await tx.taskSeries.delete({ where: { id: existingTask.seriesId } });
+    }
+    return Boolean(existingTask.seriesId);
+  }
+
+  if (!existingTask.seriesId) {
+    if (recurrence && task.dueDate) {
+      await tx.taskSeries.create({
+        data: {
+          ...recurrence,
+          ...toSeriesTemplate(task),
+          startsAt: task.dueDate,
+          userId: task.userId,
+          tags: { connect: task.tags.map(tag => ({ id: tag.id })) },
+          tasks: { connect: { id: task.id } }
+        }
+      });
+      return true;
+    }
+    return false;
+  }
+
+  if (scope !== 'series') {
+    return false;
+  }
+
+  // Moving the due date of the whole series moves the date its occurrences are counted from
+  const dueDateMoved = task.dueDate?.getTime() !== existingTask.dueDate?.getTime();
+  await tx.taskSeries.update({
+    where: { id: existingTask.seriesId },
+    data: {
+      ...recurrence,
+      ...toSeriesTemplate(task),
+      ...(dueDateMoved && task.dueDate && { startsAt: task.dueDate }),
+      tags: { set: task.tags.map(tag => ({ id: tag.id })) }
+    }
+  });
+  return true;
+};
+
+// Creates the next occurrence once an occurrence of a recurring task is completed. It is due at the first
+// date of the rule after the completed one's due date, or after now when that has passed; missed dates are skipped.
+// A series has one open occurrence at a time, so reopening and completing again creates nothing new.
+const createNextOccurrence = async (tx: Prisma.TransactionClient, completedTask: TaskWithRelations, userId: number) => {
+  if (!completedTask.seriesId) {
+    return null;
+  }
+
+  const series = await tx.taskSeries.findUnique({
+    where: { id: completedTask.seriesId },
+    include: { tags: { select: { id: true } } }
+  });
+  const now = new Date();
+  const dueDate = series && getNextOccurrence(series, completedTask.dueDate && completedTask.dueDate > now ? completedTask.dueDate : now);
+
+  if (!series || !dueDate) {
+    return null;
+  }
+
+  const openOccurrences = await tx.task.count({
+    where: { seriesId: series.id, id: { not: completedTask.id }, deletedAt: null, status: { notIn: CLOSED_STATUSES } }
+  });
+
+  if (openOccurrences > 0) {
+    return null;
+  }
+
+  // The assignee may have lost access since the series was last edited
+  const assigneeError = await checkAssignee(series.assigneeId, { userId: series.userId, projectId: series.projectId });
+  // Like a new task, the occurrence goes to the top of the manual order the owner sees
+  const { _min } = await tx.task.aggregate({
+    where: taskAccessWhere(series.userId),
+    _min: { position: true }
+  });
+
+  const task = await tx.task.create({
+    data: {
+      title: series.title,
+      description: series.description,
+      priority: series.priority,
+      dueDate,
+      hasDueTime: series.hasDueTime,
+      position: positionBetween(null, _min.position) ?? 0,
+      userId: series.userId,
+      projectId: series.projectId,
+      assigneeId: assigneeError ? null : series.assigneeId,
+      seriesId: series.id,
+      ...(series.tags.length > 0 && { tags: { connect: series.tags } }),
+      // Collaborators of the completed occurrence keep working on the series
+      ...(completedTask.shares.length > 0 && {
+        shares: { create: completedTask.shares.map(share => ({ userId: share.userId, role: share.role })) }
+      })
+    },
+    include: TASK_INCLUDE
+  });
+  await recordTaskEvent(tx, task.id, 'CREATED', diffSnapshots(null, toTaskSnapshot(task)), userId);
+  return task;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number | null => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseDate = (value: string): Date | null => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// undefined leaves the due date untouched, null clears it
+const parseDueDate = (value: string | null | undefined): Date | null | undefined | 'invalid' => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  return parseDate(value) ?? 'invalid';
+};
+
+// Parses a comma separated list of ids such as "3,7"; null when any part is not a positive integer
+const parseIdList = (value: string): number[] | null => {
+  const ids = value.split(',').map(Number);
+  return ids.every(id => Number.isInteger(id) && id > 0) ? ids : null;
+};
+
+// A project id, "none" for tasks outside any project, or nothing for every task outside archived projects.
+// Returns null for a malformed filter.
+const parseProjectScope = (projectId: string | undefined): Prisma.TaskWhereInput | null => {
+  if (projectId === undefined || projectId === '') {
+    return { OR: [{ projectId: null }, { project: { archivedAt: null } }] };
+  }
+  if (projectId === 'none') {
+    return { projectId: null };
+  }
+  const id = Number(projectId);
+  return Number.isInteger(id) && id > 0 ? { projectId: id } : null;
+};
+
+// A user id, "none" for unassigned tasks, or nothing for every task. Returns null for a malformed filter.
+const parseAssigneeFilter = (assigneeId: string | undefined): Prisma.TaskWhereInput | null => {
+  if (assigneeId === undefined || assigneeId === '') {
+    return {};
+  }
+  if (assigneeId === 'none') {
+    return { assigneeId: null };
+  }
+  const id = Number(assigneeId);
+  return Number.isInteger(id) && id > 0 ? { assigneeId: id } : null;
+};
+
+// Tasks can only be put into projects the user owns or edits that are not archived
+const checkTargetProject = async (projectId: unknown, userId: number): Promise<{ status: number; error: string } | null> => {
+  if (projectId === undefined || projectId === null) {
+    return null;
+  }
+  if (!Number.isInteger(projectId)) {
+    return { status: 400, error: 'Invalid project' };
+  }
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId as number, ...projectAccessWhere(userId, 'EDITOR') }
+  });
+
+  if (!project) {
+    return { status: 400, error: 'Invalid project' };
+  }
+  if (project.archivedAt) {
+    return { status: 409, error: 'Project is archived' };
+  }
+  return null;
+};
+
+// Tasks can only be assigned to someone who can see them: the owner, a collaborator on the task or one on its project
+const checkAssignee = async (
+  assigneeId: unknown,
+  task: { id?: number; userId: number; projectId: number | null }
+): Promise<{ status: number; error: string } | null> => {
+  if (assigneeId === undefined || assigneeId === null) {
+    return null;
+  }
+  if (!Number.isInteger(assigneeId)) {
+    return { status: 400, error: 'Invalid assignee' };
+  }
+  if (assigneeId === task.userId) {
+    return null;
+  }
+
+  const assignee = await prisma.user.findFirst({
+    where: {
+      id: assigneeId as number,
+      OR: [
+        ...(task.id ? [{ taskShares: { some: { taskId: task.id } } }] : []),
+        ...(task.projectId ? [
+          { projects: { some: { id: task.projectId } } },
+          { projectShares: { some: { projectId: task.projectId } } }
+        ] : [])
+      ]
+    },
+    select: { id: true }
+  });
+
+  return assignee ? null : { status: 400, error: 'Assignee does not have access to this task' };
+};
+
+// undefined leaves the tags untouched, null means an id is malformed or belongs to another user
+const resolveTagIds = async (tagIds: unknown, userId: number): Promise<number[] | null | undefined> => {
+  if (tagIds === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(tagIds) || !tagIds.every(id => Number.isInteger(id))) {
+    return null;
+  }
+
+  const ids = [...new Set(tagIds as number[])];
+  if (ids.length === 0) {
+    return ids;
+  }
+
+  const ownedCount = await prisma.tag.count({
+    where: { userId, id: { in: ids } }
+  });
+  return ownedCount === ids.length ? ids : null;
+};
+
+// Raw SQL counterpart of taskAccessWhere for the queries Prisma cannot express
+const visibleTasksSql = (userId: number) => Prisma.sql`"deletedAt" IS NULL AND (
+  "userId" = ${userId}
+  OR "id" IN (SELECT "taskId" FROM "task_shares" WHERE "userId" = ${userId})
+  OR "projectId" IN (
+    SELECT "id" FROM "projects" WHERE "userId" = ${userId}
+    UNION SELECT "projectId" FROM "project_shares" WHERE "userId" = ${userId}
+  )
+)`;
+
+// The list filters of getTasks once they are validated; a full-text search applies them in SQL
+interface TaskListFilters {
+  status?: TaskStatus;
+  dueFrom?: Date;
+  dueTo?: Date;
+  tagIds?: number[];
+  projectId?: string;
+  assigneeId?: string;
+  overdue: boolean;
+  term?: string;
+}
+
+// Columns each sort field orders by in raw queries
+const SORT_COLUMNS: Record<TaskSortField, Prisma.Sql> = {
+  createdAt: Prisma.sql`"createdAt"`,
+  updatedAt: Prisma.sql`"updatedAt"`,
+  title: Prisma.sql`"title"`,
+  status: Prisma.sql`"status"`,
+  priority: Prisma.sql`"priority"`,
+  dueDate: Prisma.sql`"dueDate"`,
+  position: Prisma.sql`"position"`
+};
+
+// Dates are stored as UTC timestamps without a time zone, whatever the session time zone is
+const utcTimestampSql = (date: Date) => Prisma.sql`(${date}::timestamptz AT TIME ZONE 'UTC')`;
+
+// The same conditions as the Prisma where of getTasks, including parseProjectScope and parseAssigneeFilter
+const buildFilterSql = (userId: number, filters: TaskListFilters): Prisma.Sql => {
+  const conditions = [visibleTasksSql(userId)];
+
+  if (filters.status) {
+    conditions.push(Prisma.sql`"status" = ${filters.status}::"TaskStatus"`);
+  }
+  if (filters.dueFrom) {
+    conditions.push(Prisma.sql`"dueDate" >= ${utcTimestampSql(filters.dueFrom)}`);
+  }
+  if (filters.dueTo) {
+    conditions.push(Prisma.sql`"dueDate" <= ${utcTimestampSql(filters.dueTo)}`);
+  }
+  if (filters.tagIds) {
+    conditions.push(Prisma.sql`"id" IN (SELECT "B" FROM "_TagToTask" WHERE "A" = ANY(${filters.tagIds}))`);
+  }
+  if (filters.assigneeId) {
+    conditions.push(filters.assigneeId === 'none'
+      ? Prisma.sql`"assigneeId" IS NULL`
+      : Prisma.sql`"assigneeId" = ${Number(filters.assigneeId)}`);
+  }
+  if (!filters.projectId) {
+    conditions.push(Prisma.sql`("projectId" IS NULL OR "projectId" IN (SELECT "id" FROM "projects" WHERE "archivedAt" IS NULL))`);
+  } else {
+    conditions.push(filters.projectId === 'none'
+      ? Prisma.sql`"projectId" IS NULL`
+      : Prisma.sql`"projectId" = ${Number(filters.projectId)}`);
+  }
+  if (filters.overdue) {
+    conditions.push(Prisma.sql`"dueDate" < ${utcTimestampSql(new Date())}`);
+    conditions.push(Prisma.sql`"status"::text NOT IN (${Prisma.join(CLOSED_STATUSES)})`);
+  }
+  if (filters.term) {
+    // Wildcards typed into the term are matched literally
+    const pattern = `%${filters.term.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push(Prisma.sql`("title" ILIKE ${pattern} OR "description" ILIKE ${pattern})`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
+
+// Relevance comes first unless a sort field is requested, which then orders like buildOrderBy
+const buildOrderBySql = (sortBy: TaskSortField | undefined, sortOrder: SortOrder): Prisma.Sql => {
+  if (!sortBy) {
+    return Prisma.sql`"rank" DESC, "id" DESC`;
+  }
+  const column = SORT_COLUMNS[sortBy];
+  const direction = sortOrder === 'asc' ? Prisma.sql`ASC` : Prisma.sql`DESC`;
+  return sortBy === 'dueDate'
+    ? Prisma.sql`${column} ${direction} NULLS LAST, "id" ${direction}`
+    : Prisma.sql`${column} ${direction}, "id" ${direction}`;
+};
+
+// Filters, orders and pages the full-text matches in one query, which also counts them all.
+// The page is joined to the count so the count arrives even when the page is past the last match.
+const searchTasks = async (userId: number, searchQuery: string, filters: TaskListFilters, orderBy: Prisma.Sql, skip: number, take: number) => {
+  const rows = await prisma.$queryRaw<{ id: number | null; rank: number | null; total: bigint }[]>`
+    WITH matches AS (
+      SELECT "tasks".*, ts_rank("search_vector", query) AS "rank"
+      FROM "tasks", to_tsquery('simple', ${searchQuery}) query
+      WHERE "search_vector" @@ query AND ${buildFilterSql(userId, filters)}
+    )
+    SELECT page."id", page."rank", counted."total"
+    FROM (SELECT count(*) AS "total" FROM matches) AS counted
+    LEFT JOIN (
+      SELECT "id", "rank", row_number() OVER (ORDER BY ${orderBy}) AS "index" FROM matches
+    ) AS page ON page."index" > ${skip} AND page."index" <= ${skip + take}
+    ORDER BY page."index"`;
+
+  const ranks = new Map(rows.flatMap(row => row.id === null ? [] : [[row.id, row.rank ?? 0] as const]));
+  const tasks = ranks.size > 0
+    ? await prisma.task.findMany({ where: { id: { in: [...ranks.keys()] } }, include: TASK_INCLUDE })
+    : [];
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+  return [[...ranks.keys()].flatMap(id => tasksById.get(id) ?? []), Number(rows[0].total), ranks] as const;
+};
+
+// Highlighting is comparatively expensive, so it only runs for the tasks of the requested page
+const highlightSearchMatches = async (taskIds: number[], searchQuery: string) => {
+  const rows = await prisma.$queryRaw<{ id: number; title: string; snippet: string | null }[]>`
+    SELECT "id",
+      ts_headline('simple', "title", query, ${TITLE_HEADLINE_OPTIONS}) AS "title",
+      CASE WHEN "description" IS NULL THEN NULL
+        ELSE ts_headline('simple', "description", query, ${SNIPPET_HEADLINE_OPTIONS}) END AS "snippet"
+    FROM "tasks", to_tsquery('simple', ${searchQuery}) query
+    WHERE "id" = ANY(${taskIds})`;
+
+  return new Map(rows.map(row => [row.id, row]));
+};
+
+// Without an explicit sort field, pending tasks come first, then the most urgent and newest within each status.
+// Enum columns sort by declaration order, so descending priority puts URGENT first.
+const buildOrderBy = (sortBy: TaskSortField | undefined, sortOrder: SortOrder): Prisma.TaskOrderByWithRelationInput[] => {
+  if (!sortBy) {
+    return [{ status: 'asc' }, { priority: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }];
+  }
+  if (sortBy === 'dueDate') {
+    return [{ dueDate: { sort: sortOrder, nulls: 'last' } }, { id: sortOrder }];
+  }
+  return [{ [sortBy]: sortOrder }, { id: sortOrder }];
+};
+
+// GET /api/tasks - Get a filtered, sorted page of tasks for authenticated user
+export const getTasks = async (req: Request<{}, {}, {}, TaskListQuery>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { status, search, q, sortBy, sortOrder, dueFrom, dueTo, overdue, tags, projectId, assigneeId } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // A repeated parameter arrives as an array, which none of the filters accept
+    if (Object.values(req.query).some(value => typeof value !== 'string')) {
+      return res.status(400).json({ error: 'Query parameters cannot be repeated' });
+    }
+
+    if (status !== undefined && !isTaskStatus(status)) {
+      return res.status(400).json({ error: 'Invalid status filter' });
+    }
+
+    if (sortBy !== undefined && !SORT_FIELDS.includes(sortBy as TaskSortField)) {
+      return res.status(400).json({ error: 'Invalid sort field' });
+    }
+
+    if (sortOrder !== undefined && sortOrder !== 'asc' && sortOrder !== 'desc') {
+      return res.status(400).json({ error: 'Sort order must be asc or desc' });
+    }
+
+    const page = parsePositiveInt(req.query.page, 1);
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE);
+
+    if (page === null || limit === null || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `Page must be a positive integer and limit between 1 and ${MAX_PAGE_SIZE}` });
+    }
+
+    // An offset continues right after the tasks a client already has, which stop lining up with pages once
+    // the client removes or adds tasks locally
+    const offset = req.query.offset ? Number(req.query.offset) : undefined;
+
+    if (offset !== undefined && !(Number.isInteger(offset) && offset >= 0)) {
+      return res.status(400).json({ error: 'Offset must be a non-negative integer' });
+    }
+
+    const skip = offset ?? (page - 1) * limit;
+
+    const dueFromDate = dueFrom !== undefined ? parseDate(dueFrom) : undefined;
+    const dueToDate = dueTo !== undefined ? parseDate(dueTo) : undefined;
+
+    if (dueFromDate === null || dueToDate === null) {
+      return res.status(400).json({ error: 'Invalid due date range' });
+    }
+
+    const tagIds = tags ? parseIdList(tags) : undefined;
+
+    if (tagIds === null) {
+      return res.status(400).json({ error: 'Invalid tag filter' });
+    }
+
+    const projectScope = parseProjectScope(projectId);
+
+    if (projectScope === null) {
+      return res.status(400).json({ error: 'Invalid project filter' });
+    }
+
+    const assigneeScope = parseAssigneeFilter(assigneeId);
+
+    if (assigneeScope === null) {
+      return res.status(400).json({ error: 'Invalid assignee filter' });
+    }
+
+    // Text without any searchable words does not narrow the list
+    const searchQuery = q ? toSearchQuery(q) : null;
+
+    const term = search?.trim();
+    const where: Prisma.TaskWhereInput = {
+      ...(status && { status: status as TaskStatus }),
+      ...((dueFromDate || dueToDate) && {
+        dueDate: { ...(dueFromDate && { gte: dueFromDate }), ...(dueToDate && { lte: dueToDate }) }
+      }),
+      // Tasks carrying any of the requested tags
+      ...(tagIds && { tags: { some: { id: { in: tagIds } } } }),
+      ...assigneeScope,
+      AND: [
+        // Own tasks and tasks shared with the user, directly or through a project
+        taskAccessWhere(userId),
+        projectScope,
+        // Overdue tasks are compared against the server clock so the result does not depend on the client time zone
+        ...(overdue === 'true' ? [{ dueDate: { lt: new Date() } }, { status: { notIn: CLOSED_STATUSES } }] : []),
+        ...(term ? [{
+          OR: [
+            { title: { contains: term, mode: 'insensitive' as const } },
+            { description: { contains: term, mode: 'insensitive' as const } }
+          ]
+        }] : [])
+      ]
+    };
+
+    // Prisma cannot express the full-text match, so a search runs the same filters as one raw query
+    const filters: TaskListFilters = {
+      status: status as TaskStatus | undefined,
+      dueFrom: dueFromDate,
+      dueTo: dueToDate,
+      tagIds,
+      projectId,
+      assigneeId,
+      overdue: overdue === 'true',
+      term
+    };
+    const orderBy = buildOrderBySql(sortBy as TaskSortField | undefined, (sortOrder as SortOrder) || 'desc');
+
+    const [tasks, total, ranks] = searchQuery
+      ? await searchTasks(userId, searchQuery, filters, orderBy, skip, limit)
+      : await Promise.all([
+        prisma.task.findMany({
+          where,
+          include: TASK_INCLUDE,
+          orderBy: buildOrderBy(sortBy as TaskSortField | undefined, (sortOrder as SortOrder) || 'desc'),
+          skip,
+          take: limit
+        }),
+        prisma.task.count({ where }),
+        undefined
+      ]);
+
+    const highlights = ranks && tasks.length > 0
+      ? await highlightSearchMatches(tasks.map(task => task.id), searchQuery!)
+      : undefined;
+
+    res.json({
+      tasks: highlights
+        ? tasks.map(task => ({
+          ...toTaskResponse(task, userId),
+          match: {
+            rank: ranks!.get(task.id) ?? 0,
+            title: highlights.get(task.id)?.title ?? task.title,
+            snippet: highlights.get(task.id)?.snippet ?? null
+          }
+        }))
+        : tasks.map(task => toTaskResponse(task, userId)),
+      total,
+      page: Math.floor(skip / limit) + 1,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    });
+
+  } catch (error) {
+    console.error('Get tasks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// GET /api/tasks/stats - Get task counts per status for authenticated user, optionally within one project
+export const getTaskStats = async (req: Request<{}, {}, {}, TaskStatsQuery>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const projectScope = parseProjectScope(req.query.projectId);
+
+    if (projectScope === null) {
+      return res.status(400).json({ error: 'Invalid project filter' });
+    }
+
+    const groups = await prisma.task.groupBy({
+      by: ['status'],
+      where: { AND: [taskAccessWhere(userId), projectScope] },
+      _count: { _all: true }
+    });
+
+    const byStatus = Object.fromEntries(TASK_STATUSES.map(status => [status, 0])) as Record<TaskStatus, number>;
+    for (const group of groups) {
+      byStatus[group.status] = group._count._all;
+    }
+
+    res.json({
+      total: groups.reduce((sum, group) => sum + group._count._all, 0),
+      byStatus
+    });
+
+  } catch (error) {
+    console.error('Get task stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// GET /api/tasks/due - Get unfinished tasks due within a time window (defaults to the next 24 hours)
+export const getDueTasks = async (req: Request<{}, {}, {}, DueTasksQuery>, res: Response) => {
   try {
     const userId = req.user?.userId;
 
@@ -13,18 +783,39 @@ export const getTasks = async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
+    const from = req.query.from !== undefined ? parseDate(req.query.from) : new Date();
+    const to = req.query.to !== undefined
+      ? parseDate(req.query.to)
+      : from && new Date(from.getTime() + DEFAULT_REMINDER_WINDOW_MS);
+
+    if (!from || !to || to < from) {
+      return res.status(400).json({ error: 'Invalid time window' });
+    }
+
+    if (to.getTime() - from.getTime() > MAX_REMINDER_WINDOW_MS) {
+      return res.status(400).json({ error: 'Time window cannot exceed 31 days' });
+    }
+
     const tasks = await prisma.task.findMany({
-      where: { userId },
-      orderBy: { createdAt: 'desc' }
+      where: {
+        status: { notIn: CLOSED_STATUSES },
+        dueDate: { gte: from, lte: to },
+        // Archived projects do not send reminders
+        AND: [taskAccessWhere(userId), parseProjectScope(undefined)!]
+      },
+      include: TASK_INCLUDE,
+      orderBy: [{ dueDate: 'asc' }, { id: 'asc' }]
     });
 
     res.json({
-      tasks,
-      total: tasks.length
+      tasks: tasks.map(task => toTaskResponse(task, userId)),
+      total: tasks.length,
+      from,
+      to
     });
 
   } catch (error) {
-    console.error('Get tasks error:', error);
+    console.error('Get due tasks error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -33,7 +824,7 @@ export const getTasks = async (req: Request, res: Response) => {
 export const createTask = async (req: Request<{}, {}, CreateTaskRequest>, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { title, description, status } = req.body;
+    const { title, description, status, priority, hasDueTime } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -43,16 +834,91 @@ export const createTask = async (req: Request<{}, {}, CreateTaskRequest>, res: R
       return res.status(400).json({ error: 'Title is required' });
     }
 
-    const task = await prisma.task.create({
-      data: {
-        title: title.trim(),
-        description: description?.trim() || null,
-        status: status || 'PENDING',
-        userId
-      }
+    if (status !== undefined && !isTaskStatus(status)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+
+    if (priority !== undefined && !TASK_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ error: 'Invalid priority' });
+    }
+
+    const dueDate = parseDueDate(req.body.dueDate);
+
+    if (dueDate === 'invalid') {
+      return res.status(400).json({ error: 'Invalid due date' });
+    }
+
+    const recurrence = parseRecurrence(req.body.recurrence);
+
+    if (recurrence === 'invalid') {
+      return res.status(400).json({ error: 'Invalid recurrence' });
+    }
+
+    // Occurrences are counted from the first due date
+    if (recurrence && !dueDate) {
+      return res.status(400).json({ error: 'Recurring tasks need a due date' });
+    }
+
+    const tagIds = await resolveTagIds(req.body.tagIds, userId);
+
+    if (tagIds === null) {
+      return res.status(400).json({ error: 'Invalid tags' });
+    }
+
+    const projectError = await checkTargetProject(req.body.projectId, userId);
+
+    if (projectError) {
+      return res.status(projectError.status).json({ error: projectError.error });
+    }
+
+    const assigneeError = await checkAssignee(req.body.assigneeId, { userId, projectId: req.body.projectId ?? null });
+
+    if (assigneeError) {
+      return res.status(assigneeError.status).json({ error: assigneeError.error });
+    }
+
+    // New tasks go to the top of the manual order, which spans every task the user sees
+    const { _min } = await prisma.task.aggregate({
+      where: taskAccessWhere(userId),
+      _min: { position: true }
+    });
+
+    const task = await prisma.$transaction(async (tx) => {
+      const series = recurrence && dueDate && await tx.taskSeries.create({
+        data: {
+          ...recurrence,
+          startsAt: dueDate,
+          hasDueTime: Boolean(hasDueTime),
+          title: title.trim(),
+          description: description?.trim() || null,
+          ...(priority && { priority }),
+          userId,
+          projectId: req.body.projectId ?? null,
+          assigneeId: req.body.assigneeId ?? null,
+          ...(tagIds?.length && { tags: { connect: tagIds.map(id => ({ id })) } })
+        }
+      });
+      const createdTask = await tx.task.create({
+        data: {
+          title: title.trim(),
+          description: description?.trim() || null,
+          status: status || 'PENDING',
+          ...(priority && { priority }),
+          ...(dueDate && { dueDate, hasDueTime: Boolean(hasDueTime) }),
+          position: positionBetween(null, _min.position) ?? 0,
+          ...(tagIds?.length && { tags: { connect: tagIds.map(id => ({ id })) } }),
+          ...(req.body.projectId && { projectId: req.body.projectId }),
+          ...(req.body.assigneeId && { assigneeId: req.body.assigneeId }),
+          ...(series && { seriesId: series.id }),
+          userId
+        },
+        include: TASK_INCLUDE
+      });
+      await recordTaskEvent(tx, createdTask.id, 'CREATED', diffSnapshots(null, toTaskSnapshot(createdTask)), userId);
+      return createdTask;
     });
 
-    res.status(201).json(task);
+    res.status(201).json(toTaskResponse(task, userId));
 
   } catch (error) {
     console.error('Create task error:', error);
@@ -65,7 +931,7 @@ export const updateTask = async (req: Request<{ id: string }, {}, UpdateTaskRequ
   try {
     const userId = req.user?.userId;
     const taskId = parseInt(req.params.id);
-    const { title, description, status } = req.body;
+    const { title, description, status, priority, hasDueTime } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -75,30 +941,154 @@ export const updateTask = async (req: Request<{ id: string }, {}, UpdateTaskRequ
       return res.status(400).json({ error: 'Invalid task ID' });
     }
 
-    // Check if task exists and belongs to user
-    const existingTask = await prisma.task.findFirst({
-      where: { id: taskId, userId }
-    });
+    const accessible = await findAccessibleTask(taskId, userId);
 
-    if (!existingTask) {
+    if (!accessible) {
       return res.status(404).json({ error: 'Task not found or access denied' });
     }
 
+    if (!hasAccess(accessible.access, 'EDITOR')) {
+      return res.status(403).json({ error: 'You do not have permission to edit this task' });
+    }
+
+    const existingTask = accessible.task;
+
     // Validate title if provided
     if (title !== undefined && title.trim().length === 0) {
       return res.status(400).json({ error: 'Title cannot be empty' });
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...(title !== undefined && { title: title.trim() }),
-        ...(description !== undefined && { description: description?.trim() || null }),
-        ...(status !== undefined && { status })
+    if (status !== undefined && !isTaskStatus(status)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+
+    if (status !== undefined && !canTransition(existingTask.status, status)) {
+      return res.status(409).json({ error: `Cannot change status from ${existingTask.status} to ${status}` });
+    }
+
+    if (status === TaskStatus.COMPLETED && existingTask.status !== TaskStatus.COMPLETED) {
+      const blockers = await findOpenBlockers([taskId]);
+      if (blockers.length > 0) {
+        return res.status(409).json({
+          error: `Cannot complete a task that is blocked by ${blockers.length} unfinished ${blockers.length === 1 ? 'task' : 'tasks'}`,
+          blockerIds: blockers.map(blocker => blocker.blockerId)
+        });
+      }
+    }
+
+    if (priority !== undefined && !TASK_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ error: 'Invalid priority' });
+    }
+
+    const dueDate = parseDueDate(req.body.dueDate);
+
+    if (dueDate === 'invalid') {
+      return res.status(400).json({ error: 'Invalid due date' });
+    }
+
+    const scope = req.body.scope ?? 'occurrence';
+
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: 'Invalid scope' });
+    }
+
+    if (scope === 'series' && !existingTask.seriesId) {
+      return res.status(400).json({ error: 'Task is not part of a series' });
+    }
+
+    const recurrence = parseRecurrence(req.body.recurrence);
+
+    if (recurrence === 'invalid') {
+      return res.status(400).json({ error: 'Invalid recurrence' });
+    }
+
+    if (recurrence !== undefined && existingTask.seriesId && scope !== 'series') {
+      return res.status(400).json({ error: 'Recurrence can only be changed for the whole series' });
+    }
+
+    // A series that goes on needs the due date it is counted from
+    const nextDueDate = dueDate !== undefined ? dueDate : existingTask.dueDate;
+    const continuesSeries = Boolean(recurrence) || (scope === 'series' && recurrence !== null);
+
+    if (continuesSeries && !nextDueDate) {
+      return res.status(400).json({ error: 'Recurring tasks need a due date' });
+    }
+
+    // Tags belong to the task owner, also when a collaborator edits the task
+    const tagIds = await resolveTagIds(req.body.tagIds, existingTask.userId);
+
+    if (tagIds === null) {
+      return res.status(400).json({ error: 'Invalid tags' });
+    }
+
+    const movesProject = req.body.projectId !== undefined && req.body.projectId !== existingTask.projectId;
+
+    // Collaborators cannot move the task, or they could take it over by moving it into a project they own
+    if (movesProject && !hasAccess(accessible.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can move this task to another project' });
+    }
+
+    // Moving a task into another project
+    const projectError = movesProject
+      ? await checkTargetProject(req.body.projectId, userId)
+      : null;
+
+    if (projectError) {
+      return res.status(projectError.status).json({ error: projectError.error });
+    }
+
+    // The assignee must keep access when the task moves to another project
+    const projectId = req.body.projectId !== undefined ? req.body.projectId : existingTask.projectId;
+    const assigneeError = req.body.assigneeId !== undefined || projectId !== existingTask.projectId
+      ? await checkAssignee(
+        req.body.assigneeId !== undefined ? req.body.assigneeId : existingTask.assigneeId,
+        { id: taskId, userId: existingTask.userId, projectId }
+      )
+      : null;
+
+    if (assigneeError) {
+      return res.status(assigneeError.status).json({ error: assigneeError.error });
+    }
+
+    // Moves in the manual order are not part of the history, so only this endpoint records updates
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      const task = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          ...(title !== undefined && { title: title.trim() }),
+          ...(description !== undefined && { description: description?.trim() || null }),
+          ...(status !== undefined && { status }),
+          ...(priority !== undefined && { priority }),
+          ...(dueDate !== undefined && { dueDate, hasDueTime: dueDate !== null && Boolean(hasDueTime) }),
+          ...(tagIds !== undefined && { tags: { set: tagIds.map(id => ({ id })) } }),
+          ...(req.body.projectId !== undefined && { projectId: req.body.projectId }),
+          ...(req.body.assigneeId !== undefined && { assigneeId: req.body.assigneeId })
+        },
+        include: TASK_INCLUDE
+      });
+      const changes = diffSnapshots(toTaskSnapshot(existingTask), toTaskSnapshot(task));
+
+      // Saving the form without changing anything leaves no entry
+      if (Object.keys(changes).length > 0) {
+        await recordTaskEvent(tx, taskId, 'UPDATED', changes, userId);
       }
+
+      const seriesChanged = await updateSeries(tx, task, existingTask, recurrence, scope);
+      const currentTask = seriesChanged
+        ? await tx.task.findUniqueOrThrow({ where: { id: taskId }, include: TASK_INCLUDE })
+        : task;
+      const nextOccurrence = status === 'COMPLETED' && existingTask.status !== 'COMPLETED'
+        ? await createNextOccurrence(tx, currentTask, userId)
+        : null;
+      return { task: currentTask, nextOccurrence };
     });
 
-    res.json(updatedTask);
+    const response: UpdateTaskResponse = {
+      ...toTaskResponse(updatedTask.task, userId),
+      ...(updatedTask.nextOccurrence && { nextOccurrence: toTaskResponse(updatedTask.nextOccurrence, userId) })
+    };
+
+    res.json(response);
 
   } catch (error) {
     console.error('Update task error:', error);
@@ -106,11 +1096,12 @@ export const updateTask = async (req: Request<{ id: string }, {}, UpdateTaskRequ
   }
 };
 
-// DELETE /api/tasks/:id - Delete task
-export const deleteTask = async (req: Request<{ id: string }>, res: Response) => {
+// PUT /api/tasks/:id/position - Move task directly before or after another task in the manual order
+export const moveTask = async (req: Request<{ id: string }, {}, MoveTaskRequest>, res: Response) => {
   try {
     const userId = req.user?.userId;
     const taskId = parseInt(req.params.id);
+    const { beforeId, afterId } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -120,23 +1111,385 @@ export const deleteTask = async (req: Request<{ id: string }>, res: Response) =>
       return res.status(400).json({ error: 'Invalid task ID' });
     }
 
-    // Check if task exists and belongs to user
-    const existingTask = await prisma.task.findFirst({
-      where: { id: taskId, userId }
+    const anchorId = beforeId ?? afterId;
+
+    if ((beforeId === undefined) === (afterId === undefined) || !Number.isInteger(anchorId) || anchorId === taskId) {
+      return res.status(400).json({ error: 'Provide either beforeId or afterId of another task' });
+    }
+
+    const placement = beforeId !== undefined ? 'before' : 'after';
+
+    const [accessible, anchorTask] = await Promise.all([
+      findAccessibleTask(taskId, userId),
+      prisma.task.findFirst({ where: { id: anchorId, ...taskAccessWhere(userId) } })
+    ]);
+
+    if (!accessible || !anchorTask) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    if (!hasAccess(accessible.access, 'EDITOR')) {
+      return res.status(403).json({ error: 'You do not have permission to edit this task' });
+    }
+
+    // Neighbour lookup and any renumbering happen in one transaction so concurrent moves cannot interleave
+    const movedTask = await prisma.$transaction(async (tx) => {
+      const anchor = await tx.task.findUniqueOrThrow({ where: { id: anchorTask.id } });
+
+      // Manual order is position ascending with the id as tie-breaker, over every task the user sees
+      const neighbour = await tx.task.findFirst({
+        where: {
+          ...taskAccessWhere(userId),
+          id: { not: taskId },
+          OR: placement === 'before'
+            ? [{ position: { lt: anchor.position } }, { position: anchor.position, id: { lt: anchor.id } }]
+            : [{ position: { gt: anchor.position } }, { position: anchor.position, id: { gt: anchor.id } }]
+        },
+        orderBy: placement === 'before'
+          ? [{ position: 'desc' }, { id: 'desc' }]
+          : [{ position: 'asc' }, { id: 'asc' }]
+      });
+
+      const position = placement === 'before'
+        ? positionBetween(neighbour?.position ?? null, anchor.position)
+        : positionBetween(anchor.position, neighbour?.position ?? null);
+
+      if (position !== null) {
+        return tx.task.update({ where: { id: taskId }, data: { position }, include: TASK_INCLUDE });
+      }
+
+      // No gap left between the neighbours: space out the user's whole list again in one statement.
+      // The moved task sorts as if it had the anchor's place, and the last key puts it on the requested side.
+      await tx.$executeRaw`
+        UPDATE "tasks" SET "position" = ordered."index" * ${POSITION_STEP}
+        FROM (
+          SELECT "id", row_number() OVER (ORDER BY
+            CASE WHEN "id" = ${taskId} THEN ${anchor.position} ELSE "position" END,
+            CASE WHEN "id" = ${taskId} THEN ${anchor.id} ELSE "id" END,
+            CASE WHEN "id" = ${taskId} THEN ${placement === 'before' ? -1 : 1} ELSE 0 END
+          ) - 1 AS "index"
+          FROM "tasks"
+          WHERE ${visibleTasksSql(userId)}
+        ) AS ordered
+        WHERE "tasks"."id" = ordered."id"`;
+
+      return tx.task.findUniqueOrThrow({ where: { id: taskId }, include: TASK_INCLUDE });
     });
 
-    if (!existingTask) {
+    res.json(toTaskResponse(movedTask, userId));
+
+  } catch (error) {
+    console.error('Move task error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tasks/:id - Move task to the trash
+export const deleteTask = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    const accessible = await findAccessibleTask(taskId, userId);
+
+    if (!accessible) {
       return res.status(404).json({ error: 'Task not found or access denied' });
     }
 
+    // Collaborators can edit a shared task but not remove it for everyone
+    if (!hasAccess(accessible.access, 'OWNER')) {
+      return res.status(403).json({ error: 'Only the owner can delete this task' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.task.update({
+        where: { id: taskId },
+        data: { deletedAt: new Date() }
+      });
+      await recordTaskEvent(tx, taskId, 'DELETED', diffSnapshots(toTaskSnapshot(accessible.task), null), userId);
+    });
+
+    res.json({ message: 'Task moved to trash' });
+
+  } catch (error) {
+    console.error('Delete task error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// PATCH /api/tasks/bulk - Change status, project or tags of several tasks at once
+export const bulkUpdateTasks = async (req: Request<{}, {}, BulkUpdateTasksRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { status, projectId, addTagIds, removeTagIds } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const ids = parseTaskIds(req.body.ids);
+
+    if (!ids) {
+      return res.status(400).json({ error: `Provide between 1 and ${MAX_BULK_SIZE} task IDs` });
+    }
+
+    if (status === undefined && projectId === undefined && addTagIds === undefined && removeTagIds === undefined) {
+      return res.status(400).json({ error: 'No changes given' });
+    }
+
+    if (status !== undefined && !isTaskStatus(status)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+
+    const found = await findBulkTasks(ids, userId, 'EDITOR');
+
+    if ('error' in found) {
+      return res.status(found.status).json({ error: found.error, taskIds: found.taskIds });
+    }
+
+    const error = await checkBulkUpdate(found.tasks, req.body, userId);
+
+    if (error) {
+      return res.status(error.status).json({ error: error.error, taskIds: error.taskIds });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const tasks = [];
+      const createdTasks = [];
+      for (const existingTask of found.tasks) {
+        const task = await tx.task.update({
+          where: { id: existingTask.id },
+          data: {
+            ...(status !== undefined && { status }),
+            ...(projectId !== undefined && { projectId }),
+            ...((addTagIds?.length || removeTagIds?.length) && {
+              tags: {
+                connect: (addTagIds ?? []).map(id => ({ id })),
+                disconnect: (removeTagIds ?? []).map(id => ({ id }))
+              }
+            })
+          },
+          include: TASK_INCLUDE
+        });
+        const changes = diffSnapshots(toTaskSnapshot(existingTask), toTaskSnapshot(task));
+
+        if (Object.keys(changes).length > 0) {
+          await recordTaskEvent(tx, task.id, 'UPDATED', changes, userId);
+        }
+        tasks.push(task);
+
+        const nextOccurrence = status === 'COMPLETED' && existingTask.status !== 'COMPLETED'
+          ? await createNextOccurrence(tx, task, userId)
+          : null;
+        if (nextOccurrence) {
+          createdTasks.push(nextOccurrence);
+        }
+      }
+      return { tasks, createdTasks };
+    });
+
+    const response: BulkTasksResponse = {
+      tasks: result.tasks.map(task => toTaskResponse(task, userId)),
+      createdTasks: result.createdTasks.map(task => toTaskResponse(task, userId))
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Bulk update tasks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/tasks/bulk-delete - Move several tasks to the trash at once
+export const bulkDeleteTasks = async (req: Request<{}, {}, BulkDeleteTasksRequest>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const ids = parseTaskIds(req.body.ids);
+
+    if (!ids) {
+      return res.status(400).json({ error: `Provide between 1 and ${MAX_BULK_SIZE} task IDs` });
+    }
+
+    const found = await findBulkTasks(ids, userId, 'OWNER');
+
+    if ('error' in found) {
+      return res.status(found.status).json({ error: found.error, taskIds: found.taskIds });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.task.updateMany({
+        where: { id: { in: ids } },
+        data: { deletedAt: new Date() }
+      });
+      for (const task of found.tasks) {
+        await recordTaskEvent(tx, task.id, 'DELETED', diffSnapshots(toTaskSnapshot(task), null), userId);
+      }
+    });
+
+    res.json({ message: 'Tasks moved to trash', taskIds: ids });
+
+  } catch (error) {
+    console.error('Bulk delete tasks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// GET /api/tasks/trash - Get deleted tasks that can still be restored, most recently deleted first
+export const getTrash = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: trashedTaskWhere(userId),
+      include: TASK_INCLUDE,
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }]
+    });
+
+    const response: TrashResponse = {
+      tasks: tasks.map(task => toTaskResponse(task, userId)),
+      retentionDays: getTrashRetentionDays()
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// POST /api/tasks/trash/:id/restore - Take task out of the trash
+export const restoreTask = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    const trashedTask = await prisma.task.findFirst({
+      where: { id: taskId, ...trashedTaskWhere(userId) },
+      include: TASK_STATE_INCLUDE
+    });
+
+    if (!trashedTask) {
+      return res.status(404).json({ error: 'Task not found in trash' });
+    }
+
+    const restoredTask = await prisma.$transaction(async (tx) => {
+      const task = await tx.task.update({
+        where: { id: taskId },
+        data: { deletedAt: null },
+        include: TASK_INCLUDE
+      });
+      await recordTaskEvent(tx, taskId, 'RESTORED', diffSnapshots(null, toTaskSnapshot(trashedTask)), userId);
+      return task;
+    });
+
+    res.json(toTaskResponse(restoredTask, userId));
+
+  } catch (error) {
+    console.error('Restore task error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// DELETE /api/tasks/trash/:id - Delete task from the trash for good
+export const purgeTask = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    const trashedTask = await prisma.task.findFirst({
+      where: { id: taskId, ...trashedTaskWhere(userId) }
+    });
+
+    if (!trashedTask) {
+      return res.status(404).json({ error: 'Task not found in trash' });
+    }
+
+    // Events are not tied to the task row, so the trail survives the deletion
     await prisma.task.delete({
       where: { id: taskId }
     });
 
-    res.json({ message: 'Task deleted successfully' });
+    res.json({ message: 'Task deleted permanently' });
 
   } catch (error) {
-    console.error('Delete task error:', error);
+    console.error('Purge task error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// GET /api/tasks/:id/history - Get the audit trail of a task, newest first
+export const getTaskHistory = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const taskId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+
+    const accessible = await findAccessibleTask(taskId, userId);
+
+    if (!accessible) {
+      return res.status(404).json({ error: 'Task not found or access denied' });
+    }
+
+    const events = await prisma.taskEvent.findMany({
+      where: { taskId },
+      include: { actor: { select: { id: true, username: true } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+
+    const history: TaskEventResponse[] = events.map(event => ({
+      id: event.id,
+      action: event.action,
+      changes: event.changes as TaskChanges,
+      actor: event.actor,
+      createdAt: event.createdAt
+    }));
+
+    res.json(history);
+
+  } catch (error) {
+    console.error('Get task history error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
\ No newline at end of file
@@ -3,6 +3,10 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import authRoutes from './routes/authRoutes';
 import taskRoutes from './routes/taskRoutes';
+import tagRoutes from './routes/tagRoutes';
+import projectRoutes from './routes/projectRoutes';
+import adminRoutes from './routes/adminRoutes';
+import { startTrashPurge } from './utils/trashPurge';
 
 dotenv.config();
 
@@ -14,6 +18,9 @@ app.use(express.json());
 
 app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/admin', adminRoutes);
 
 app.get('/', (req: Request, res: Response) => {
   res.send('Task Management API is running!');
@@ -21,4 +28,5 @@ app.get('/', (req: Request, res: Response) => {
 
 app.listen(port, () => {
   console.log(`Backend server is running at http://localhost:${port}`);
+  startTrashPurge();
 });
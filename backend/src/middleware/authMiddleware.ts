@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../utils/prisma';
 import { verifyToken } from '../utils/jwt';
+import { Role } from '../generated/prisma';
 import { JWTPayload } from '../types/auth';
 
 declare global {
@@ -10,19 +12,79 @@ declare global {
   }
 }
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+// Last seen times only need to be accurate to a few minutes, so most requests skip the write
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+  // Everything after the scheme, however many spaces separate them
+  const token = authHeader?.replace(/^\S+\s*/, '');
 
   if (!token) {
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  let decoded: JWTPayload;
   try {
-    const decoded = verifyToken(token);
-    req.user = decoded;
-    next();
+    decoded = verifyToken(token);
   } catch (error) {
+    // Expired tokens get a 401 so clients know to renew them with their refresh token
+    if (error instanceof Error && error.name === 'TokenExpiredError') {
+      return res.status(401).json({ error: 'Access token expired' });
+    }
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
+
+  try {
+    // A signed token is only as good as its session, which logout and revocation end right away
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sessionId ?? '' },
+      select: {
+        userId: true,
+        revokedAt: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        user: { select: { role: true, disabledAt: true } }
+      }
+    });
+
+    if (
+      !session ||
+      session.userId !== decoded.userId ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      session.user.disabledAt
+    ) {
+      return res.status(401).json({ error: 'Session has been revoked' });
+    }
+
+    if (Date.now() - session.lastUsedAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+      await prisma.session.update({
+        where: { id: decoded.sessionId },
+        data: { lastUsedAt: new Date() }
+      });
+    }
+
+    // The role is read from the database, so a changed role applies before the token is renewed
+    req.user = { ...decoded, role: session.user.role };
+    next();
+  } catch (error) {
+    console.error('Session check error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Runs after authenticateToken and lets only users with one of the given roles through
+export const requireRole = (...roles: Role[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    next();
+  };
 };
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { createRateLimiter } from '../utils/rateLimiter';
+import { toRetryAfterSeconds } from '../utils/loginLockout';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Requests without a key are not counted
+  key: (req: Request) => string | undefined;
+}
+
+export const rateLimit = ({ windowMs, max, key }: RateLimitOptions) => {
+  const limiter = createRateLimiter({ windowMs, max });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const limitKey = key(req);
+
+    if (!limitKey) {
+      return next();
+    }
+
+    const { allowed, retryAfterMs } = limiter.hit(limitKey);
+
+    if (!allowed) {
+      const retryAfter = toRetryAfterSeconds(retryAfterMs);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: 'Too many requests', retryAfter });
+    }
+
+    next();
+  };
+};
+
+export const byIp = (req: Request) => req.ip;
+
+// Usernames are unique as typed, but attempts on different spellings of one name still count together
+export const byUsername = (req: Request) =>
+  typeof req.body?.username === 'string' && req.body.username ? req.body.username.toLowerCase() : undefined;
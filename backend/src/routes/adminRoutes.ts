@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getUsers, getStats, updateUser } from '../controllers/adminController';
+import { authenticateToken, requireRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All admin routes require an authenticated admin
+router.use(authenticateToken, requireRole('ADMIN'));
+
+router.get('/users', getUsers);
+router.get('/stats', getStats);
+router.patch('/users/:id', updateUser);
+
+export default router;
@@ -1,9 +1,58 @@
 import { Router } from 'express';
-import { register, login } from '../controllers/authController';
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
+  changePassword,
+  changeUsername,
+  changeEmail,
+  deleteAccount,
+  forgotPassword,
+  resetPassword,
+  loginTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} from '../controllers/authController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { rateLimit, byIp, byUsername } from '../middleware/rateLimitMiddleware';
 
 const router = Router();
 
-router.post('/register', register);
-router.post('/login', login);
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+
+// Limits on password guessing: one client trying many accounts, and many clients trying one account
+const ipLimit = rateLimit({ windowMs: FIFTEEN_MINUTES, max: 20, key: byIp });
+const usernameLimit = rateLimit({ windowMs: FIFTEEN_MINUTES, max: 10, key: byUsername });
+
+router.post('/register', ipLimit, usernameLimit, register);
+router.post('/login', ipLimit, usernameLimit, login);
+router.post('/login/2fa', ipLimit, loginTwoFactor);
+router.post('/refresh', refresh);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+
+// Session management requires authentication
+router.post('/logout', authenticateToken, logout);
+router.post('/logout-all', authenticateToken, logoutAll);
+router.get('/sessions', authenticateToken, getSessions);
+router.delete('/sessions/:id', authenticateToken, revokeSession);
+
+// Account management requires authentication
+router.put('/password', authenticateToken, changePassword);
+router.put('/username', authenticateToken, changeUsername);
+router.put('/email', authenticateToken, changeEmail);
+router.delete('/account', authenticateToken, deleteAccount);
+
+// Two-factor authentication
+router.post('/2fa/setup', authenticateToken, setupTwoFactor);
+router.post('/2fa/enable', authenticateToken, enableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, regenerateRecoveryCodes);
+router.post('/2fa/disable', authenticateToken, disableTwoFactor);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getChecklistItems, createChecklistItem, updateChecklistItem, deleteChecklistItem } from '../controllers/checklistController';
+
+// Mounted under /api/tasks/:id/items, so it needs the parent task id from the outer router
+const router = Router({ mergeParams: true });
+
+router.get('/', getChecklistItems);
+router.post('/', createChecklistItem);
+router.put('/:itemId', updateChecklistItem);
+router.delete('/:itemId', deleteChecklistItem);
+
+export default router;
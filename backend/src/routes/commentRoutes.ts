@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getComments, createComment, updateComment, deleteComment } from '../controllers/commentController';
+
+// Mounted under /api/tasks/:id/comments, so it needs the parent task id from the outer router
+const router = Router({ mergeParams: true });
+
+router.get('/', getComments);
+router.post('/', createComment);
+router.put('/:commentId', updateComment);
+router.delete('/:commentId', deleteComment);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { createDependency, deleteDependency } from '../controllers/dependencyController';
+
+// Mounted under /api/tasks/:id/dependencies, so it needs the parent task id from the outer router
+const router = Router({ mergeParams: true });
+
+router.post('/', createDependency);
+router.delete('/:blockerId', deleteDependency);
+
+export default router;
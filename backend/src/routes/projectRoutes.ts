@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getProjects, createProject, updateProject, deleteProject } from '../controllers/projectController';
+import { shareProject, updateProjectShare, removeProjectShare } from '../controllers/shareController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All project routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getProjects);
+router.post('/', createProject);
+router.put('/:id', updateProject);
+router.delete('/:id', deleteProject);
+router.post('/:id/shares', shareProject);
+router.put('/:id/shares/:userId', updateProjectShare);
+router.delete('/:id/shares/:userId', removeProjectShare);
+
+export default router;
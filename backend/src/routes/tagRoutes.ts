@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { getTags, createTag, updateTag, deleteTag } from '../controllers/tagController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All tag routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getTags);
+router.post('/', createTag);
+router.put('/:id', updateTag);
+router.delete('/:id', deleteTag);
+
+export default router;
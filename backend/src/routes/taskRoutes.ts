@@ -1,6 +1,10 @@
 import { Router } from 'express';
-import { getTasks, createTask, updateTask, deleteTask } from '../controllers/taskController';
+import { getTasks, getTaskStats, getDueTasks, createTask, updateTask, moveTask, deleteTask, bulkUpdateTasks, bulkDeleteTasks, getTrash, restoreTask, purgeTask, getTaskHistory } from '../controllers/taskController';
+import { shareTask, updateTaskShare, removeTaskShare } from '../controllers/shareController';
 import { authenticateToken } from '../middleware/authMiddleware';
+import checklistRoutes from './checklistRoutes';
+import commentRoutes from './commentRoutes';
+import dependencyRoutes from './dependencyRoutes';
 
 const router = Router();
 
@@ -8,8 +12,23 @@ const router = Router();
 router.use(authenticateToken);
 
 router.get('/', getTasks);
+router.get('/stats', getTaskStats);
+router.get('/due', getDueTasks);
+router.get('/trash', getTrash);
+router.post('/trash/:id/restore', restoreTask);
+router.delete('/trash/:id', purgeTask);
 router.post('/', createTask);
+router.patch('/bulk', bulkUpdateTasks);
+router.post('/bulk-delete', bulkDeleteTasks);
 router.put('/:id', updateTask);
+router.put('/:id/position', moveTask);
 router.delete('/:id', deleteTask);
+router.get('/:id/history', getTaskHistory);
+router.post('/:id/shares', shareTask);
+router.put('/:id/shares/:userId', updateTaskShare);
+router.delete('/:id/shares/:userId', removeTaskShare);
+router.use('/:id/items', checklistRoutes);
+router.use('/:id/comments', commentRoutes);
+router.use('/:id/dependencies', dependencyRoutes);
 
 export default router;
\ No newline at end of file
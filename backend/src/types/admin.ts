@@ -0,0 +1,32 @@
+import { Role, TaskStatus } from '../generated/prisma';
+
+export interface AdminUserListQuery {
+  search?: string;
+  page?: string;
+  limit?: string;
+}
+
+export interface UpdateUserRequest {
+  disabled?: boolean;
+  role?: Role;
+}
+
+export interface AdminUserResponse {
+  id: number;
+  username: string;
+  email: string | null;
+  role: Role;
+  disabledAt: Date | null;
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+  taskCount: number;
+  taskCounts: Record<TaskStatus, number>;
+}
+
+export interface AdminStatsResponse {
+  users: number;
+  admins: number;
+  disabledUsers: number;
+  tasks: number;
+  tasksByStatus: Record<TaskStatus, number>;
+}
@@ -1,6 +1,9 @@
+import { Role } from '../generated/prisma';
+
 export interface RegisterRequest {
   username: string;
   password: string;
+  email?: string;
 }
 
 export interface LoginRequest {
@@ -8,15 +11,94 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangeUsernameRequest {
+  username: string;
+}
+
+export interface ChangeEmailRequest {
+  email: string | null;
+}
+
+export interface DeleteAccountRequest {
+  password: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface UserResponse {
+  id: number;
+  username: string;
+  email: string | null;
+  role: Role;
+  twoFactorEnabled: boolean;
+}
+
 export interface AuthResponse {
   token: string;
-  user: {
-    id: number;
-    username: string;
-  };
+  refreshToken: string;
+  user: UserResponse;
+}
+
+// Returned by login instead of AuthResponse when the account has two-factor authentication enabled
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest {
+  password: string;
+  code: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
 }
 
 export interface JWTPayload {
   userId: number;
   username: string;
+  role: Role;
+  sessionId: string;
+}
+
+export interface ChallengeTokenPayload {
+  userId: number;
+  purpose: string;
+}
+
+export interface SessionResponse {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
 }
\ No newline at end of file
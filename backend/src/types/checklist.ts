@@ -0,0 +1,18 @@
+export interface CreateChecklistItemRequest {
+  title: string;
+}
+
+export interface UpdateChecklistItemRequest {
+  title?: string;
+  done?: boolean;
+}
+
+export interface ChecklistItemResponse {
+  id: number;
+  title: string;
+  done: boolean;
+  position: number;
+  taskId: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
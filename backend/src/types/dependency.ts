@@ -0,0 +1,10 @@
+import { TaskLink } from './task';
+
+export interface CreateDependencyRequest {
+  blockerId: number;
+}
+
+export interface DependencyResponse {
+  blocker: TaskLink;
+  blocked: TaskLink;
+}
@@ -0,0 +1,26 @@
+import { TaskEventAction, TaskPriority, TaskStatus } from '../generated/prisma';
+import { UserSummary } from './share';
+
+export interface TaskSnapshot {
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: string | null;
+  tags: string[];
+  project: string | null;
+  assignee: string | null;
+}
+
+export type TaskChanges = {
+  [Field in keyof TaskSnapshot]?: { from: TaskSnapshot[Field] | null; to: TaskSnapshot[Field] | null };
+};
+
+export interface TaskEventResponse {
+  id: number;
+  action: TaskEventAction;
+  changes: TaskChanges;
+  // null once the acting account has been deleted
+  actor: UserSummary | null;
+  createdAt: Date;
+}
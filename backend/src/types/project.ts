@@ -0,0 +1,34 @@
+import { AccessLevel, UserSummary, ShareResponse } from './share';
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+  color?: string | null;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  description?: string | null;
+  color?: string | null;
+  archived?: boolean;
+}
+
+export interface DeleteProjectQuery {
+  tasks?: string;
+}
+
+export interface ProjectResponse {
+  id: number;
+  name: string;
+  description: string | null;
+  color: string | null;
+  archivedAt: Date | null;
+  userId: number;
+  taskCount: number;
+  openTaskCount: number;
+  owner: UserSummary;
+  shares: ShareResponse[];
+  access: AccessLevel;
+  createdAt: Date;
+  updatedAt: Date;
+}
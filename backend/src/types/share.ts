@@ -0,0 +1,25 @@
+import { ShareRole } from '../generated/prisma';
+
+// What the current user may do with a task or project: owners also manage sharing and can delete,
+// editors change the content and viewers only read it
+export type AccessLevel = 'OWNER' | ShareRole;
+
+export interface CreateShareRequest {
+  username: string;
+  role: ShareRole;
+}
+
+export interface UpdateShareRequest {
+  role: ShareRole;
+}
+
+export interface ShareResponse {
+  userId: number;
+  username: string;
+  role: ShareRole;
+}
+
+export interface UserSummary {
+  id: number;
+  username: string;
+}
@@ -0,0 +1,23 @@
+export interface CreateTagRequest {
+  name: string;
+  color: string;
+}
+
+export interface UpdateTagRequest {
+  name?: string;
+  color?: string;
+}
+
+// The subset of a tag embedded in every task response
+export interface TagSummary {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface TagResponse extends TagSummary {
+  userId: number;
+  taskCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
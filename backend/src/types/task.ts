@@ -1,15 +1,97 @@
-import { TaskStatus } from '../generated/prisma';
+import { TaskStatus, TaskPriority, RecurrenceFrequency } from '../generated/prisma';
+import { ChecklistItemResponse } from './checklist';
+import { TagSummary } from './tag';
+import { AccessLevel, UserSummary, ShareResponse } from './share';
+
+// RRULE-style: repeats every `interval` days, weeks, months or years, starting at the task's due date.
+// Occurrences keep their local time of day in `timeZone`, an IANA name such as "Europe/Berlin".
+export interface RecurrenceRequest {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  // Days of the week of weekly rules, 0 = Sunday
+  weekdays?: number[];
+  until?: string | null;
+  timeZone: string;
+}
+
+// Edits to an occurrence of a recurring task apply to it alone, or also to the occurrences still to come
+export type EditScope = 'occurrence' | 'series';
 
 export interface CreateTaskRequest {
   title: string;
   description?: string;
   status?: TaskStatus;
+  priority?: TaskPriority;
+  dueDate?: string | null;
+  hasDueTime?: boolean;
+  tagIds?: number[];
+  projectId?: number | null;
+  assigneeId?: number | null;
+  recurrence?: RecurrenceRequest | null;
 }
 
 export interface UpdateTaskRequest {
   title?: string;
   description?: string;
   status?: TaskStatus;
+  priority?: TaskPriority;
+  dueDate?: string | null;
+  hasDueTime?: boolean;
+  tagIds?: number[];
+  projectId?: number | null;
+  assigneeId?: number | null;
+  // Changing or stopping the recurrence always applies to the whole series
+  recurrence?: RecurrenceRequest | null;
+  scope?: EditScope;
+}
+
+// Exactly one of the two is given: the task is placed directly before or after that task
+export interface MoveTaskRequest {
+  beforeId?: number;
+  afterId?: number;
+}
+
+// The same changes are applied to every listed task, or to none of them
+export interface BulkUpdateTasksRequest {
+  ids: number[];
+  status?: TaskStatus;
+  projectId?: number | null;
+  addTagIds?: number[];
+  removeTagIds?: number[];
+}
+
+export interface BulkDeleteTasksRequest {
+  ids: number[];
+}
+
+export type TaskSortField = 'createdAt' | 'updatedAt' | 'title' | 'status' | 'priority' | 'dueDate' | 'position';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface TaskListQuery {
+  status?: string;
+  search?: string;
+  q?: string;
+  sortBy?: string;
+  sortOrder?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  overdue?: string;
+  tags?: string;
+  projectId?: string;
+  assigneeId?: string;
+  page?: string;
+  limit?: string;
+  offset?: string;
+}
+
+export interface TaskStatsQuery {
+  projectId?: string;
+}
+
+export interface DueTasksQuery {
+  from?: string;
+  to?: string;
 }
 
 export interface TaskResponse {
@@ -17,12 +99,81 @@ export interface TaskResponse {
   title: string;
   description: string | null;
   status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  hasDueTime: boolean;
+  position: number;
   userId: number;
+  projectId: number | null;
+  assigneeId: number | null;
+  // Only set on tasks in the trash
+  deletedAt: Date | null;
+  seriesId: number | null;
+  recurrence: RecurrenceResponse | null;
+  // Only the dependencies on tasks the user can see; hidden blockers still keep the task from being completed
+  blockedBy: TaskLink[];
+  blocking: TaskLink[];
   createdAt: Date;
   updatedAt: Date;
+  items: ChecklistItemResponse[];
+  tags: TagSummary[];
+  commentCount: number;
+  owner: UserSummary;
+  assignee: UserSummary | null;
+  shares: ShareResponse[];
+  access: AccessLevel;
+  // Only present on full-text search results
+  match?: TaskSearchMatch;
+}
+
+// Another task as a dependency shows it
+export interface TaskLink {
+  id: number;
+  title: string;
+  status: TaskStatus;
+}
+
+export interface RecurrenceResponse {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  until: Date | null;
+  timeZone: string;
+}
+
+// Completing an occurrence of a recurring task creates the next one
+export interface UpdateTaskResponse extends TaskResponse {
+  nextOccurrence?: TaskResponse;
+}
+
+// Title and snippet mark the matched words with <mark> tags
+export interface TaskSearchMatch {
+  rank: number;
+  title: string;
+  snippet: string | null;
 }
 
 export interface TasksListResponse {
   tasks: TaskResponse[];
   total: number;
-}
\ No newline at end of file
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface BulkTasksResponse {
+  tasks: TaskResponse[];
+  // Next occurrences of completed recurring tasks
+  createdTasks: TaskResponse[];
+}
+
+export interface TrashResponse {
+  tasks: TaskResponse[];
+  // Days a deleted task stays in the trash before it is purged
+  retentionDays: number;
+}
+
+export interface TaskStatsResponse {
+  total: number;
+  byStatus: Record<TaskStatus, number>;
+}
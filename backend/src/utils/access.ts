@@ -0,0 +1,94 @@
+import { Prisma, ShareRole } from '../generated/prisma';
+import { AccessLevel } from '../types/share';
+
+interface ShareEntry {
+  userId: number;
+  role: ShareRole;
+}
+
+interface SharedProject {
+  userId: number;
+  shares: ShareEntry[];
+}
+
+interface SharedTask extends SharedProject {
+  project: SharedProject | null;
+}
+
+// Relations getTaskAccess and getProjectAccess read, for loading a task or project together with its access level
+export const TASK_ACCESS_INCLUDE = {
+  shares: { select: { userId: true, role: true } },
+  project: { select: { userId: true, shares: { select: { userId: true, role: true } } } }
+} satisfies Prisma.TaskInclude;
+
+export const PROJECT_ACCESS_INCLUDE = {
+  shares: { select: { userId: true, role: true } }
+} satisfies Prisma.ProjectInclude;
+
+const ACCESS_RANK: Record<AccessLevel, number> = { VIEWER: 1, EDITOR: 2, OWNER: 3 };
+
+// Share roles that grant at least the required level; owner rights never come from a share
+const grantingRoles = (required: AccessLevel): ShareRole[] => {
+  if (required === 'OWNER') {
+    return [];
+  }
+  return required === 'EDITOR' ? [ShareRole.EDITOR] : [ShareRole.VIEWER, ShareRole.EDITOR];
+};
+
+export const isShareRole = (value: unknown): value is ShareRole => {
+  return typeof value === 'string' && Object.values(ShareRole).includes(value as ShareRole);
+};
+
+export const hasAccess = (level: AccessLevel | null, required: AccessLevel): boolean => {
+  return level !== null && ACCESS_RANK[level] >= ACCESS_RANK[required];
+};
+
+export const projectAccessWhere = (userId: number, required: AccessLevel = 'VIEWER'): Prisma.ProjectWhereInput => {
+  return {
+    OR: [
+      { userId },
+      { shares: { some: { userId, role: { in: grantingRoles(required) } } } }
+    ]
+  };
+};
+
+// A task is reachable through its own shares or through its project, and the project owner has owner rights on it
+const taskReachWhere = (userId: number, required: AccessLevel): Prisma.TaskWhereInput => {
+  return {
+    OR: [
+      { userId },
+      { shares: { some: { userId, role: { in: grantingRoles(required) } } } },
+      { project: projectAccessWhere(userId, required) }
+    ]
+  };
+};
+
+// Tasks in the trash are out of reach until they are restored
+export const taskAccessWhere = (userId: number, required: AccessLevel = 'VIEWER'): Prisma.TaskWhereInput => {
+  return { deletedAt: null, ...taskReachWhere(userId, required) };
+};
+
+// Only owners delete tasks, so only they see them in the trash to restore or delete them for good
+export const trashedTaskWhere = (userId: number): Prisma.TaskWhereInput => {
+  return { deletedAt: { not: null }, ...taskReachWhere(userId, 'OWNER') };
+};
+
+export const getProjectAccess = (project: SharedProject, userId: number): AccessLevel | null => {
+  if (project.userId === userId) {
+    return 'OWNER';
+  }
+  return project.shares.find(share => share.userId === userId)?.role ?? null;
+};
+
+// The higher of the task's own share and the one inherited from its project
+export const getTaskAccess = (task: SharedTask, userId: number): AccessLevel | null => {
+  const levels = [
+    getProjectAccess(task, userId),
+    task.project && getProjectAccess(task.project, userId)
+  ].filter((level): level is AccessLevel => Boolean(level));
+
+  return levels.reduce<AccessLevel | null>(
+    (highest, level) => highest && ACCESS_RANK[highest] >= ACCESS_RANK[level] ? highest : level,
+    null
+  );
+};
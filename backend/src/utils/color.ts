@@ -0,0 +1,5 @@
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export const isHexColor = (value: unknown): value is string => {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+};
@@ -1,12 +1,30 @@
-import jwt from 'jsonwebtoken';
-import { JWTPayload } from '../types/auth';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { JWTPayload, ChallengeTokenPayload } from '../types/auth';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+// Access tokens are short-lived; clients renew them with their refresh token
 export const generateToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '24h' });
+  const expiresIn = (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+  return jwt.sign(payload, JWT_SECRET, { expiresIn });
 };
 
 export const verifyToken = (token: string): JWTPayload => {
   return jwt.verify(token, JWT_SECRET) as JWTPayload;
+};
+
+// Issued after the password step of a two-factor login, good only for the code step that follows
+const CHALLENGE_PURPOSE = 'login-2fa';
+
+export const generateChallengeToken = (userId: number): string => {
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, JWT_SECRET, { expiresIn: '5m' });
+};
+
+// Access tokens are signed with the same secret, so the purpose claim is what tells the two apart
+export const verifyChallengeToken = (token: string): ChallengeTokenPayload => {
+  const payload = jwt.verify(token, JWT_SECRET) as ChallengeTokenPayload;
+  if (payload.purpose !== CHALLENGE_PURPOSE) {
+    throw new Error('Not a challenge token');
+  }
+  return payload;
 };
\ No newline at end of file
@@ -0,0 +1,17 @@
+// Failures allowed before the account locks
+export const LOCKOUT_THRESHOLD = 5;
+
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// The lock doubles with every failure past the threshold: 1, 2, 4 ... minutes, up to an hour
+export const getLockoutDuration = (failedAttempts: number): number => {
+  if (failedAttempts < LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+  const doublings = Math.min(failedAttempts - LOCKOUT_THRESHOLD, 10);
+  return Math.min(BASE_LOCKOUT_MS * 2 ** doublings, MAX_LOCKOUT_MS);
+};
+
+// Whole seconds for the Retry-After header, never zero while still locked
+export const toRetryAfterSeconds = (ms: number): number => Math.max(1, Math.ceil(ms / 1000));
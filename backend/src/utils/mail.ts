@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'MEAtec Task Manager <no-reply@localhost>';
+
+// Sends through an SMTP server, for production
+export const createSmtpTransport = (options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user && { auth: { user: options.user, pass: options.pass } })
+  });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail({ from: options.from, ...message });
+    }
+  };
+};
+
+// Writes every message as a JSON file into a directory, for local development and tests
+export const createFileTransport = (directory: string): MailTransport => ({
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await fs.writeFile(path.join(directory, fileName), JSON.stringify(message, null, 2));
+  }
+});
+
+// Prints every message to the server log, the default when nothing is configured
+export const createConsoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+let transport: MailTransport | null = null;
+
+// Picks the transport from MAIL_TRANSPORT on first use, after dotenv has loaded the environment
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'smtp':
+        transport = createSmtpTransport({
+          host: process.env.SMTP_HOST || 'localhost',
+          port: parseInt(process.env.SMTP_PORT || '587'),
+          secure: process.env.SMTP_SECURE === 'true',
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+          from: process.env.MAIL_FROM || DEFAULT_FROM
+        });
+        break;
+      case 'file':
+        transport = createFileTransport(process.env.MAIL_DIR || path.join(process.cwd(), 'mail'));
+        break;
+      default:
+        transport = createConsoleTransport();
+    }
+  }
+  return transport;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => getMailTransport().send(message);
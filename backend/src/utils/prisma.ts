@@ -0,0 +1,4 @@
+import { PrismaClient } from '../generated/prisma';
+
+// The one client, and so the one connection pool, that every controller and job shares
+export const prisma = new PrismaClient();
@@ -0,0 +1,38 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  // Milliseconds until the current window ends
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  hit(key: string, now?: number): RateLimitResult;
+}
+
+// Fixed-window counter kept in memory, so limits apply per server process
+export const createRateLimiter = ({ windowMs, max }: { windowMs: number; max: number }): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  return {
+    hit: (key, now = Date.now()) => {
+      let window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        // Dropping expired windows on each new one keeps the map from growing with every client ever seen
+        sweep(now);
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count += 1;
+      return { allowed: window.count <= max, retryAfterMs: window.resetAt - now };
+    }
+  };
+};
@@ -0,0 +1,22 @@
+import { createHash, randomBytes } from 'crypto';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Letters and digits without the look-alikes 0/o and 1/l, since the codes are typed in by hand
+const ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+// Dashes, spaces and case are ignored, so codes can be typed however they were written down
+export const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+export const hashRecoveryCode = (code: string): string =>
+  createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const generateRecoveryCode = (): string => {
+  const chars = Array.from(randomBytes(10), (byte) => ALPHABET[byte % ALPHABET.length]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+};
+
+export const generateRecoveryCodes = (): { codes: string[]; codeHashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  return { codes, codeHashes: codes.map(hashRecoveryCode) };
+};
@@ -0,0 +1,156 @@
+import { RecurrenceFrequency } from '../generated/prisma';
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Days of the week of weekly rules, 0 = Sunday; empty repeats on the weekday of startsAt
+  weekdays: number[];
+  // Due date of the first occurrence
+  startsAt: Date;
+  until: Date | null;
+  timeZone: string;
+}
+
+// What a client sends; the first occurrence is the task's due date
+export type RecurrenceSettings = Omit<RecurrenceRule, 'startsAt'>;
+
+export const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || value.length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// undefined leaves the recurrence untouched, null stops it
+export const parseRecurrence = (value: unknown): RecurrenceSettings | null | undefined | 'invalid' => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (typeof value !== 'object') {
+    return 'invalid';
+  }
+
+  const { frequency, interval = 1, weekdays = [], until = null, timeZone } = value as Record<string, unknown>;
+
+  if (!Object.values(RecurrenceFrequency).includes(frequency as RecurrenceFrequency)) {
+    return 'invalid';
+  }
+  if (!Number.isInteger(interval) || (interval as number) < 1 || (interval as number) > MAX_RECURRENCE_INTERVAL) {
+    return 'invalid';
+  }
+  if (!Array.isArray(weekdays) || !weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return 'invalid';
+  }
+  if (weekdays.length > 0 && frequency !== RecurrenceFrequency.WEEKLY) {
+    return 'invalid';
+  }
+  if (!isTimeZone(timeZone)) {
+    return 'invalid';
+  }
+
+  const untilDate = typeof until === 'string' ? new Date(until) : null;
+  if (until !== null && (!untilDate || isNaN(untilDate.getTime()))) {
+    return 'invalid';
+  }
+
+  return {
+    frequency: frequency as RecurrenceFrequency,
+    interval: interval as number,
+    weekdays: [...new Set(weekdays as number[])].sort((a, b) => a - b),
+    until: untilDate,
+    timeZone
+  };
+};
+
+// The local date and time of an instant in a time zone, kept in the UTC fields of a Date.
+// Rules are applied to these wall-clock times, so occurrences keep their time of day across DST changes.
+const toWallClock = (date: Date, timeZone: string): Date => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  return new Date(Date.UTC(
+    field('year'), field('month') - 1, field('day'),
+    field('hour'), field('minute'), field('second'), date.getUTCMilliseconds()
+  ));
+};
+
+// The instant of a wall-clock time. The offset is looked up twice, the second time at the instant
+// itself, in case the first guess lands on the other side of a DST change.
+const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  const guess = new Date(2 * wallClock.getTime() - toWallClock(wallClock, timeZone).getTime());
+  return new Date(wallClock.getTime() - (toWallClock(guess, timeZone).getTime() - guess.getTime()));
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// Keeps the day of the month, clamped to shorter months: Jan 31 is followed by Feb 28 and then Mar 31
+const addMonths = (date: Date, months: number) => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year, month, Math.min(date.getUTCDate(), lastDay),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+  ));
+};
+
+// First occurrence after `after`, counted from `start`; both are wall-clock times
+const nextWallClockOccurrence = (rule: RecurrenceRule, start: Date, after: Date): Date => {
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY: {
+      const index = start > after ? 0 : Math.floor((after.getTime() - start.getTime()) / (rule.interval * DAY_MS)) + 1;
+      return addDays(start, index * rule.interval);
+    }
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [start.getUTCDay()];
+      const weekStart = addDays(start, -start.getUTCDay());
+      // Weeks that repeat, from the one `after` falls into; the next occurrence is at most one round later
+      let round = Math.max(0, Math.floor((after.getTime() - weekStart.getTime()) / (rule.interval * 7 * DAY_MS)));
+      for (;; round++) {
+        for (const weekday of weekdays) {
+          const date = addDays(weekStart, round * rule.interval * 7 + weekday);
+          if (date >= start && date > after) {
+            return date;
+          }
+        }
+      }
+    }
+    case RecurrenceFrequency.MONTHLY:
+    case RecurrenceFrequency.YEARLY: {
+      const months = rule.frequency === RecurrenceFrequency.MONTHLY ? rule.interval : rule.interval * 12;
+      const elapsed = (after.getUTCFullYear() - start.getUTCFullYear()) * 12 + after.getUTCMonth() - start.getUTCMonth();
+      let index = Math.max(0, Math.floor(elapsed / months));
+      while (addMonths(start, index * months) <= after) {
+        index++;
+      }
+      return addMonths(start, index * months);
+    }
+  }
+};
+
+// Due date of the first occurrence after `after`, or null once the series has ended
+export const getNextOccurrence = (rule: RecurrenceRule, after: Date): Date | null => {
+  const next = fromWallClock(
+    nextWallClockOccurrence(rule, toWallClock(rule.startsAt, rule.timeZone), toWallClock(after, rule.timeZone)),
+    rule.timeZone
+  );
+  return rule.until && next > rule.until ? null : next;
+};
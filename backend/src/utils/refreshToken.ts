@@ -0,0 +1,32 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Refresh tokens slide: every rotation starts a new period
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+// A refresh token is "<session id>.<random secret>"; only the hash of the secret is stored
+export const createRefreshToken = (sessionId: string): { token: string; tokenHash: string } => {
+  const secret = randomBytes(32).toString('base64url');
+  return { token: `${sessionId}.${secret}`, tokenHash: hashSecret(secret) };
+};
+
+export const parseRefreshToken = (token: unknown): { sessionId: string; secret: string } | null => {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const separator = token.indexOf('.');
+  const sessionId = token.slice(0, separator);
+  const secret = token.slice(separator + 1);
+
+  return separator !== -1 && SESSION_ID.test(sessionId) && secret.length > 0 ? { sessionId, secret } : null;
+};
+
+export const matchesTokenHash = (secret: string, tokenHash: string): boolean => {
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  const expected = Buffer.from(tokenHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,12 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Reset links are meant to be used right away
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// The token is looked up by its hash, so a leaked database does not leak usable links
+export const hashResetToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const createResetToken = (): { token: string; tokenHash: string } => {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashResetToken(token) };
+};
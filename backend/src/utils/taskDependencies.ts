@@ -0,0 +1,32 @@
+import { Prisma } from '../generated/prisma';
+import { TASK_ACCESS_INCLUDE } from './access';
+
+// What a task shows of the tasks it depends on, with the relations needed to hide those the user cannot see
+export const TASK_LINK_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  userId: true,
+  ...TASK_ACCESS_INCLUDE
+} satisfies Prisma.TaskSelect;
+
+// Whether making `blockerId` a blocker of `blockedId` closes a loop, because `blockedId` already blocks
+// `blockerId` directly or through other tasks. Walks the blockers of `blockerId` one level per lookup.
+export const createsCycle = async (
+  blockerId: number,
+  blockedId: number,
+  findBlockerIds: (taskIds: number[]) => Promise<number[]>
+): Promise<boolean> => {
+  const visited = new Set([blockerId]);
+  let frontier = [blockerId];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(blockedId)) {
+      return true;
+    }
+    const blockerIds = await findBlockerIds(frontier);
+    frontier = [...new Set(blockerIds)].filter(id => !visited.has(id));
+    frontier.forEach(id => visited.add(id));
+  }
+  return false;
+};
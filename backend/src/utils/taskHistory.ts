@@ -0,0 +1,57 @@
+import { Prisma, TaskStatus, TaskPriority, TaskEventAction } from '../generated/prisma';
+import { TaskChanges, TaskSnapshot } from '../types/history';
+
+interface RecordedTask {
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  tags: { name: string }[];
+  project: { name: string } | null;
+  assignee: { username: string } | null;
+}
+
+// The fields the audit trail tracks, with names instead of ids so entries stay readable after renames and deletes.
+// The manual position is left out: reordering is not a change to the task itself.
+export const toTaskSnapshot = (task: RecordedTask): TaskSnapshot => ({
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate?.toISOString() ?? null,
+  tags: task.tags.map(tag => tag.name).sort(),
+  project: task.project?.name ?? null,
+  assignee: task.assignee?.username ?? null
+});
+
+// Fields that differ between two snapshots; a missing snapshot stands for a task that does not exist (yet)
+export const diffSnapshots = (before: TaskSnapshot | null, after: TaskSnapshot | null): TaskChanges => {
+  const fields = Object.keys(before ?? after ?? {}) as (keyof TaskSnapshot)[];
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  const isEmpty = (value: unknown) => value === null || (Array.isArray(value) && value.length === 0);
+
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to) && !(isEmpty(from) && isEmpty(to))) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes as TaskChanges;
+};
+
+// Adds an entry to a task's audit trail, inside the transaction that makes the change
+export const recordTaskEvent = (
+  tx: Prisma.TransactionClient,
+  taskId: number,
+  action: TaskEventAction,
+  changes: TaskChanges,
+  actorId: number
+) => {
+  return tx.taskEvent.create({
+    data: { taskId, action, changes: changes as Prisma.InputJsonObject, actorId }
+  });
+};
@@ -0,0 +1,20 @@
+// Gap left between neighbouring tasks so most moves only rewrite the moved task
+export const POSITION_STEP = 1024;
+
+// Position strictly between two neighbours, where null means the list ends on that side.
+// Returns null when the neighbours are adjacent and the list has to be renumbered first.
+export const positionBetween = (previous: number | null, next: number | null): number | null => {
+  if (previous === null && next === null) {
+    return 0;
+  }
+  if (previous === null) {
+    return next! - POSITION_STEP;
+  }
+  if (next === null) {
+    return previous + POSITION_STEP;
+  }
+  if (next - previous < 2) {
+    return null;
+  }
+  return Math.floor((previous + next) / 2);
+};
@@ -0,0 +1,24 @@
+// Full-text search runs over the generated "search_vector" column of the tasks table.
+// The 'simple' configuration does not stem words, so it behaves the same for every interface language.
+
+// Longer queries are cut off instead of building an ever larger tsquery
+export const MAX_SEARCH_WORDS = 8;
+
+// Matches are wrapped in <mark> tags; the surrounding text is returned as stored, not HTML-escaped
+export const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+export const SNIPPET_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Turns free text into a tsquery that requires every word, each as a prefix, so results
+// already match while the last word is still being typed. Returns null when there is nothing to search for.
+export const toSearchQuery = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+
+  if (!words) {
+    return null;
+  }
+
+  return [...new Set(words)]
+    .slice(0, MAX_SEARCH_WORDS)
+    .map(word => `${word}:*`)
+    .join(' & ');
+};
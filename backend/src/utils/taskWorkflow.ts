@@ -0,0 +1,20 @@
+import { TaskStatus } from '../generated/prisma';
+
+// Statuses that end a task's workflow; closed tasks are never overdue or due for reminders
+export const CLOSED_STATUSES: TaskStatus[] = [TaskStatus.COMPLETED, TaskStatus.CANCELLED];
+
+const ALLOWED_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.PENDING]: [TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED, TaskStatus.COMPLETED, TaskStatus.CANCELLED],
+  [TaskStatus.IN_PROGRESS]: [TaskStatus.PENDING, TaskStatus.BLOCKED, TaskStatus.COMPLETED, TaskStatus.CANCELLED],
+  [TaskStatus.BLOCKED]: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.CANCELLED],
+  [TaskStatus.COMPLETED]: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS],
+  [TaskStatus.CANCELLED]: [TaskStatus.PENDING]
+};
+
+export const isTaskStatus = (value: unknown): value is TaskStatus => {
+  return typeof value === 'string' && Object.values(TaskStatus).includes(value as TaskStatus);
+};
+
+export const canTransition = (from: TaskStatus, to: TaskStatus): boolean => {
+  return from === to || ALLOWED_TRANSITIONS[from].includes(to);
+};
@@ -0,0 +1,37 @@
+import { prisma } from './prisma';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// TRASH_RETENTION_DAYS overrides how long deleted tasks stay restorable
+export const getTrashRetentionDays = (value = process.env.TRASH_RETENTION_DAYS): number => {
+  const days = Number(value);
+  return value && Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// Tasks moved to the trash before this moment are past the retention period
+export const getPurgeCutoff = (now: Date, retentionDays: number): Date => {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+};
+
+// Deletes expired tasks for good; their checklist items, comments and shares go with them
+export const purgeExpiredTasks = async (now = new Date()): Promise<number> => {
+  const { count } = await prisma.task.deleteMany({
+    where: { deletedAt: { lte: getPurgeCutoff(now, getTrashRetentionDays()) } }
+  });
+  return count;
+};
+
+// Runs the purge on startup and then every hour, without keeping the process alive on its own
+export const startTrashPurge = () => {
+  const run = () => {
+    purgeExpiredTasks()
+      .then(count => count > 0 && console.log(`Purged ${count} task(s) from the trash`))
+      .catch(error => console.error('Trash purge error:', error));
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+};
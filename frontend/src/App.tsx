@@ -3,9 +3,16 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { Provider } from 'react-redux';
 import { store } from './store';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { TaskViewProvider } from './contexts/TaskViewContext';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
+import Sessions from './pages/Sessions';
+import Settings from './pages/Settings';
+import Admin from './pages/Admin';
+import Trash from './pages/Trash';
 import ProtectedRoute from './components/ProtectedRoute';
 import './i18n';
 
@@ -13,11 +20,14 @@ function App() {
   return (
     <Provider store={store}>
       <ThemeProvider>
+        <TaskViewProvider>
         <Router>
           <div className="min-h-screen grid-pattern text-gray-900 dark:text-white transition-colors duration-200">
             <Routes>
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
               <Route 
                 path="/dashboard" 
                 element={
@@ -26,11 +36,44 @@ function App() {
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/sessions" 
+                element={
+                  <ProtectedRoute>
+                    <Sessions />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/settings" 
+                element={
+                  <ProtectedRoute>
+                    <Settings />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/trash" 
+                element={
+                  <ProtectedRoute>
+                    <Trash />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/admin" 
+                element={
+                  <ProtectedRoute roles={['ADMIN']}>
+                    <Admin />
+                  </ProtectedRoute>
+                } 
+              />
               <Route path="/" element={<Navigate to="/dashboard" replace />} />
               <Route path="*" element={<Navigate to="/dashboard" replace />} />
             </Routes>
           </div>
         </Router>
+        </TaskViewProvider>
       </ThemeProvider>
     </Provider>
   );
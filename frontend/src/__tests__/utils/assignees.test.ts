@@ -0,0 +1,36 @@
+import { getAssigneeOptions } from '../../utils/assignees';
+
+describe('getAssigneeOptions', () => {
+  const owner = { id: 1, username: 'owner' };
+
+  it('should offer only the owner of an unshared task', () => {
+    expect(getAssigneeOptions({ owner, shares: [] })).toEqual([owner]);
+  });
+
+  it('should add task collaborators sorted by username', () => {
+    const options = getAssigneeOptions({
+      owner,
+      shares: [
+        { userId: 3, username: 'zoe', role: 'VIEWER' },
+        { userId: 2, username: 'adam', role: 'EDITOR' },
+      ],
+    });
+
+    expect(options).toEqual([owner, { id: 2, username: 'adam' }, { id: 3, username: 'zoe' }]);
+  });
+
+  it('should add the owner and collaborators of the project once', () => {
+    const options = getAssigneeOptions(
+      { owner, shares: [{ userId: 2, username: 'adam', role: 'VIEWER' }] },
+      {
+        owner: { id: 4, username: 'lead' },
+        shares: [
+          { userId: 2, username: 'adam', role: 'EDITOR' },
+          { userId: 1, username: 'owner', role: 'EDITOR' },
+        ],
+      }
+    );
+
+    expect(options).toEqual([owner, { id: 2, username: 'adam' }, { id: 4, username: 'lead' }]);
+  });
+});
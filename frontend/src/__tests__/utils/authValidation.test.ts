@@ -0,0 +1,58 @@
+import { usernameRule, passwordRule, optionalEmailRule, getUsernameChecks, getPasswordChecks } from '../../utils/authValidation';
+
+const firstError = (result: { success: boolean; error?: { issues: { message: string }[] } }) =>
+  result.success ? undefined : result.error?.issues[0].message;
+
+describe('Account validation rules', () => {
+  describe('usernameRule', () => {
+    it('should accept letters, numbers and underscores', () => {
+      expect(usernameRule.safeParse('task_master42').success).toBe(true);
+    });
+
+    it('should report the first broken rule as a translation key', () => {
+      expect(firstError(usernameRule.safeParse(''))).toBe('usernameRequired');
+      expect(firstError(usernameRule.safeParse('ab'))).toBe('usernameMinLength');
+      expect(firstError(usernameRule.safeParse('a'.repeat(21)))).toBe('usernameMaxLength');
+      expect(firstError(usernameRule.safeParse('no spaces'))).toBe('usernameInvalid');
+    });
+  });
+
+  describe('passwordRule', () => {
+    it('should accept a password meeting every requirement', () => {
+      expect(passwordRule.safeParse('Secret1!').success).toBe(true);
+    });
+
+    it('should reject short or weak passwords', () => {
+      expect(firstError(passwordRule.safeParse('Se1!'))).toBe('passwordMinLength');
+      expect(firstError(passwordRule.safeParse('secret123'))).toBe('passwordRequirements');
+    });
+  });
+
+  describe('optionalEmailRule', () => {
+    it('should accept an address or an empty field', () => {
+      expect(optionalEmailRule.safeParse('someone@example.com').success).toBe(true);
+      expect(optionalEmailRule.safeParse('').success).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(optionalEmailRule.safeParse('someone@').success).toBe(false);
+    });
+  });
+
+  describe('live checks', () => {
+    it('should report each username requirement separately', () => {
+      expect(getUsernameChecks('ab')).toEqual({ length: false, chars: true });
+      expect(getUsernameChecks('')).toEqual({ length: false, chars: false });
+    });
+
+    it('should report each password requirement separately', () => {
+      expect(getPasswordChecks('abcdeF')).toEqual({
+        length: true,
+        lowercase: true,
+        uppercase: true,
+        number: false,
+        special: false
+      });
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { formatCountdown } from '../../utils/countdown';
+
+describe('Countdown utilities', () => {
+  it('should format remaining time as minutes and seconds', () => {
+    expect(formatCountdown(65 * 1000)).toBe('1:05');
+    expect(formatCountdown(60 * 60 * 1000)).toBe('60:00');
+  });
+
+  it('should round partial seconds up', () => {
+    expect(formatCountdown(1)).toBe('0:01');
+    expect(formatCountdown(59500)).toBe('1:00');
+  });
+
+  it('should not go below zero', () => {
+    expect(formatCountdown(-5000)).toBe('0:00');
+  });
+});
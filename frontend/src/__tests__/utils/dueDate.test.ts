@@ -0,0 +1,89 @@
+import {
+  toDueDatePayload,
+  toDueDateInputs,
+  getDueState,
+  getDueFilterQuery,
+} from '../../utils/dueDate';
+import type { TaskStatus } from '../../store/slices/taskSlice';
+
+describe('Due date utilities', () => {
+  // Wednesday, 15 January 2025, 10:00 local time
+  const now = new Date(2025, 0, 15, 10, 0);
+
+  describe('toDueDatePayload', () => {
+    it('should clear the due date when no date is given', () => {
+      expect(toDueDatePayload('', '')).toEqual({ dueDate: null, hasDueTime: false });
+    });
+
+    it('should use the end of the local day when no time is given', () => {
+      const payload = toDueDatePayload('2025-01-20');
+
+      expect(payload.hasDueTime).toBe(false);
+      expect(payload.dueDate).toBe(new Date(2025, 0, 20, 23, 59, 59, 999).toISOString());
+    });
+
+    it('should combine date and time', () => {
+      const payload = toDueDatePayload('2025-01-20', '14:30');
+
+      expect(payload.hasDueTime).toBe(true);
+      expect(payload.dueDate).toBe(new Date(2025, 0, 20, 14, 30).toISOString());
+    });
+  });
+
+  describe('toDueDateInputs', () => {
+    it('should round-trip the values produced by toDueDatePayload', () => {
+      const withTime = toDueDatePayload('2025-03-05', '08:15');
+      const withoutTime = toDueDatePayload('2025-03-05');
+
+      expect(toDueDateInputs(withTime)).toEqual({ dueDate: '2025-03-05', dueTime: '08:15' });
+      expect(toDueDateInputs(withoutTime)).toEqual({ dueDate: '2025-03-05', dueTime: '' });
+    });
+  });
+
+  describe('getDueState', () => {
+    const at = (date: Date, status: TaskStatus = 'PENDING') => ({
+      dueDate: date.toISOString(),
+      status,
+    });
+
+    it('should return null for tasks without a due date', () => {
+      expect(getDueState({ dueDate: null, status: 'PENDING' }, now)).toBeNull();
+    });
+
+    it('should flag unfinished tasks past their due date as overdue', () => {
+      expect(getDueState(at(new Date(2025, 0, 15, 9, 0)), now)).toBe('overdue');
+    });
+
+    it('should not flag closed tasks as overdue', () => {
+      expect(getDueState(at(new Date(2025, 0, 14), 'COMPLETED'), now)).not.toBe('overdue');
+      expect(getDueState(at(new Date(2025, 0, 14), 'CANCELLED'), now)).not.toBe('overdue');
+    });
+
+    it('should classify today, this week and later', () => {
+      expect(getDueState(at(new Date(2025, 0, 15, 18, 0)), now)).toBe('today');
+      expect(getDueState(at(new Date(2025, 0, 19, 12, 0)), now)).toBe('week');
+      expect(getDueState(at(new Date(2025, 0, 20, 12, 0)), now)).toBe('later');
+    });
+  });
+
+  describe('getDueFilterQuery', () => {
+    it('should return no parameters for the unfiltered view', () => {
+      expect(getDueFilterQuery('all', now)).toEqual({});
+    });
+
+    it('should delegate overdue detection to the server', () => {
+      expect(getDueFilterQuery('overdue', now)).toEqual({ overdue: true });
+    });
+
+    it('should cover the whole local day for today', () => {
+      expect(getDueFilterQuery('today', now)).toEqual({
+        dueFrom: new Date(2025, 0, 15).toISOString(),
+        dueTo: new Date(2025, 0, 15, 23, 59, 59, 999).toISOString(),
+      });
+    });
+
+    it('should run until the end of Sunday for this week', () => {
+      expect(getDueFilterQuery('week', now).dueTo).toBe(new Date(2025, 0, 19, 23, 59, 59, 999).toISOString());
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { splitHighlights } from '../../utils/highlight';
+
+describe('Search highlight utilities', () => {
+  it('should split matched and plain parts', () => {
+    expect(splitHighlights('Send the <mark>report</mark> today')).toEqual([
+      { text: 'Send the ', highlighted: false },
+      { text: 'report', highlighted: true },
+      { text: ' today', highlighted: false },
+    ]);
+  });
+
+  it('should handle adjacent and leading matches', () => {
+    expect(splitHighlights('<mark>Quarterly</mark><mark>report</mark>')).toEqual([
+      { text: 'Quarterly', highlighted: true },
+      { text: 'report', highlighted: true },
+    ]);
+  });
+
+  it('should keep other markup as plain text', () => {
+    expect(splitHighlights('<b>bold</b>')).toEqual([{ text: '<b>bold</b>', highlighted: false }]);
+  });
+
+  it('should return nothing for an empty string', () => {
+    expect(splitHighlights('')).toEqual([]);
+  });
+});
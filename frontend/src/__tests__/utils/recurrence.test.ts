@@ -0,0 +1,64 @@
+import { getUpcomingOccurrences } from '../../utils/recurrence';
+
+describe('Recurrence utilities', () => {
+  // Wednesday, 15 January 2025, 09:30 local time
+  const start = new Date(2025, 0, 15, 9, 30);
+
+  describe('getUpcomingOccurrences', () => {
+    it('should repeat every n days at the same local time', () => {
+      const occurrences = getUpcomingOccurrences({ frequency: 'DAILY', interval: 2, weekdays: [] }, start, 3);
+
+      expect(occurrences).toEqual([
+        new Date(2025, 0, 17, 9, 30),
+        new Date(2025, 0, 19, 9, 30),
+        new Date(2025, 0, 21, 9, 30),
+      ]);
+    });
+
+    it('should repeat weekly on the weekday of the first due date', () => {
+      const occurrences = getUpcomingOccurrences({ frequency: 'WEEKLY', interval: 1, weekdays: [] }, start, 2);
+
+      expect(occurrences).toEqual([new Date(2025, 0, 22, 9, 30), new Date(2025, 0, 29, 9, 30)]);
+    });
+
+    it('should repeat on the chosen weekdays of every other week', () => {
+      const occurrences = getUpcomingOccurrences({ frequency: 'WEEKLY', interval: 2, weekdays: [1, 5] }, start, 4);
+
+      expect(occurrences).toEqual([
+        new Date(2025, 0, 17, 9, 30),
+        new Date(2025, 0, 27, 9, 30),
+        new Date(2025, 0, 31, 9, 30),
+        new Date(2025, 1, 10, 9, 30),
+      ]);
+    });
+
+    it('should keep the day of the month, clamped to shorter months', () => {
+      const endOfMonth = new Date(2025, 0, 31, 9, 30);
+      const occurrences = getUpcomingOccurrences({ frequency: 'MONTHLY', interval: 1, weekdays: [] }, endOfMonth, 3);
+
+      expect(occurrences).toEqual([
+        new Date(2025, 1, 28, 9, 30),
+        new Date(2025, 2, 31, 9, 30),
+        new Date(2025, 3, 30, 9, 30),
+      ]);
+    });
+
+    it('should fall back to February 28 for yearly series from a leap day', () => {
+      const leapDay = new Date(2024, 1, 29, 9, 30);
+      const occurrences = getUpcomingOccurrences({ frequency: 'YEARLY', interval: 1, weekdays: [] }, leapDay, 2);
+
+      expect(occurrences).toEqual([new Date(2025, 1, 28, 9, 30), new Date(2026, 1, 28, 9, 30)]);
+    });
+
+    it('should stop at the end of the series', () => {
+      const until = new Date(2025, 0, 18, 23, 59, 59, 999).toISOString();
+      const occurrences = getUpcomingOccurrences({ frequency: 'DAILY', interval: 1, weekdays: [], until }, start);
+
+      expect(occurrences).toEqual([
+        new Date(2025, 0, 16, 9, 30),
+        new Date(2025, 0, 17, 9, 30),
+        new Date(2025, 0, 18, 9, 30),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { TAG_COLORS, getTagTextColor } from '../../utils/tagColors';
+
+describe('Tag color utilities', () => {
+  it('should use light text on dark colors', () => {
+    expect(getTagTextColor('#000000')).toBe('#ffffff');
+    expect(getTagTextColor('#1d4ed8')).toBe('#ffffff');
+  });
+
+  it('should use dark text on light colors', () => {
+    expect(getTagTextColor('#ffffff')).toBe('#1f2937');
+    expect(getTagTextColor('#facc15')).toBe('#1f2937');
+  });
+
+  it('should offer only valid hex colors', () => {
+    for (const color of TAG_COLORS) {
+      expect(color).toMatch(/^#[0-9a-f]{6}$/);
+    }
+  });
+});
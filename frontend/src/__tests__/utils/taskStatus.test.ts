@@ -0,0 +1,32 @@
+import { getNextStatuses, getOpenBlockers } from '../../utils/taskStatus';
+import type { TaskLink } from '../../store/slices/taskSlice';
+
+describe('Task status utilities', () => {
+  const blocker = (id: number, status: TaskLink['status']): TaskLink => ({ id, title: `Task ${id}`, status });
+
+  describe('getOpenBlockers', () => {
+    it('should leave out completed and cancelled blockers', () => {
+      const blockedBy = [blocker(1, 'COMPLETED'), blocker(2, 'IN_PROGRESS'), blocker(3, 'CANCELLED')];
+
+      expect(getOpenBlockers({ blockedBy })).toEqual([blocker(2, 'IN_PROGRESS')]);
+    });
+  });
+
+  describe('getNextStatuses', () => {
+    it('should offer every allowed transition to a task without blockers', () => {
+      expect(getNextStatuses({ status: 'PENDING', blockedBy: [] }))
+        .toEqual(['IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED']);
+    });
+
+    it('should not offer completion while a blocker is still open', () => {
+      expect(getNextStatuses({ status: 'IN_PROGRESS', blockedBy: [blocker(1, 'PENDING')] }))
+        .toEqual(['PENDING', 'BLOCKED', 'CANCELLED']);
+    });
+
+    it('should offer completion once every blocker is closed', () => {
+      const blockedBy = [blocker(1, 'COMPLETED'), blocker(2, 'CANCELLED')];
+
+      expect(getNextStatuses({ status: 'IN_PROGRESS', blockedBy })).toContain('COMPLETED');
+    });
+  });
+});
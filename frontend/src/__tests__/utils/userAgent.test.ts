@@ -0,0 +1,35 @@
+import { describeUserAgent } from '../../utils/userAgent';
+
+describe('User agent utilities', () => {
+  it('should recognize common desktop browsers', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36'
+    )).toEqual({ browser: 'Chrome', os: 'Windows' });
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_6) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Safari/605.1.15'
+    )).toEqual({ browser: 'Safari', os: 'macOS' });
+    expect(describeUserAgent(
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:130.0) Gecko/20100101 Firefox/130.0'
+    )).toEqual({ browser: 'Firefox', os: 'Linux' });
+  });
+
+  it('should prefer Edge over the Chrome it is based on', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36 Edg/128.0.0.0'
+    ).browser).toBe('Edge');
+  });
+
+  it('should recognize mobile systems before the desktop ones they mention', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Mobile Safari/537.36'
+    )).toEqual({ browser: 'Chrome', os: 'Android' });
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1'
+    )).toEqual({ browser: 'Safari', os: 'iOS' });
+  });
+
+  it('should return nothing for unknown or missing user agents', () => {
+    expect(describeUserAgent('curl/8.5.0')).toEqual({ browser: null, os: null });
+    expect(describeUserAgent(null)).toEqual({ browser: null, os: null });
+  });
+});
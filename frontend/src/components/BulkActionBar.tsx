@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { bulkUpdateTasks, bulkDeleteTasks, TASK_STATUSES } from '../store/slices/taskSlice';
+import { restoreTask } from '../store/slices/trashSlice';
+import type { Task, TaskStatus } from '../store/slices/taskSlice';
+import { RootState, AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+
+const selectClassName = 'px-2 py-1.5 text-sm rounded-md border border-amber-300 dark:border-gray-600 bg-amber-50 dark:bg-gray-700 text-amber-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-blue-500 disabled:opacity-50';
+
+type BulkChanges = { status?: TaskStatus; projectId?: number | null; addTagIds?: number[]; removeTagIds?: number[] };
+
+interface BulkActionBarProps {
+  selectedTasks: Task[];
+  onClear: () => void;
+}
+
+// Applies one change to all selected tasks. The server checks every task and changes all of them or none,
+// so a failed action leaves the selection in place to adjust and retry.
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedTasks, onClear }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { tags } = useSelector((state: RootState) => state.tags);
+  const { projects } = useSelector((state: RootState) => state.projects);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const ids = selectedTasks.map((task) => task.id);
+  const canEdit = selectedTasks.every((task) => task.access !== 'VIEWER');
+  const canDelete = selectedTasks.every((task) => task.access === 'OWNER');
+  const targetProjects = projects.filter((project) => !project.archivedAt && project.access !== 'VIEWER');
+
+  const handleUpdate = async (changes: BulkChanges) => {
+    setIsSubmitting(true);
+    try {
+      const { tasks } = await dispatch(bulkUpdateTasks({ ids, ...changes })).unwrap();
+      customToast.success(t('bulk.tasksUpdated', { count: tasks.length }));
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUndoDelete = async (taskIds: number[]) => {
+    try {
+      await Promise.all(taskIds.map((taskId) => dispatch(restoreTask(taskId)).unwrap()));
+      customToast.success(t('bulk.tasksRestored', { count: taskIds.length }));
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSubmitting(true);
+    try {
+      const taskIds = await dispatch(bulkDeleteTasks(ids)).unwrap();
+      customToast.success(t('bulk.tasksDeleted', { count: taskIds.length }), {
+        label: t('trash.undo'),
+        onClick: () => handleUndoDelete(taskIds),
+      });
+      setShowDeleteConfirm(false);
+      onClear();
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-2 z-40 flex flex-wrap items-center gap-2 p-3 rounded-xl border border-amber-300/60 dark:border-blue-500/40 bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm shadow-lg">
+      <span className="text-sm font-medium text-amber-900 dark:text-white mr-2">
+        {t('bulk.selected', { count: selectedTasks.length })}
+      </span>
+
+      {/* Each select applies its change right away and then resets to its placeholder */}
+      <select
+        value=""
+        disabled={isSubmitting || !canEdit}
+        onChange={(e) => handleUpdate({ status: e.target.value as TaskStatus })}
+        className={selectClassName}
+      >
+        <option value="" disabled>{t('bulk.setStatus')}</option>
+        {TASK_STATUSES.map((status) => (
+          <option key={status} value={status}>{t(`tasks.statuses.${status}`)}</option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        disabled={isSubmitting || !canEdit}
+        onChange={(e) => handleUpdate({ projectId: e.target.value === 'none' ? null : Number(e.target.value) })}
+        className={selectClassName}
+      >
+        <option value="" disabled>{t('bulk.moveToProject')}</option>
+        <option value="none">{t('projects.noProject')}</option>
+        {targetProjects.map((project) => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+
+      {tags.length > 0 && (
+        <>
+          <select
+            value=""
+            disabled={isSubmitting || !canEdit}
+            onChange={(e) => handleUpdate({ addTagIds: [Number(e.target.value)] })}
+            className={selectClassName}
+          >
+            <option value="" disabled>{t('bulk.addTag')}</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={isSubmitting || !canEdit}
+            onChange={(e) => handleUpdate({ removeTagIds: [Number(e.target.value)] })}
+            className={selectClassName}
+          >
+            <option value="" disabled>{t('bulk.removeTag')}</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <div className="flex gap-2 ml-auto">
+        <button
+          type="button"
+          onClick={() => setShowDeleteConfirm(true)}
+          disabled={isSubmitting || !canDelete}
+          className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors disabled:opacity-50"
+        >
+          {t('common.delete')}
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="px-3 py-1.5 text-sm text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          {t('common.clear')}
+        </button>
+      </div>
+
+      {showDeleteConfirm && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowDeleteConfirm(false)}
+        >
+          <div className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-sm w-full p-6 border border-amber-200/50 dark:border-gray-600/50">
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {t('bulk.deleteTitle')}
+            </h3>
+            <p className="text-amber-700 dark:text-gray-400 mb-6">
+              {t('bulk.deleteConfirm', { count: selectedTasks.length })}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                className="flex-1 px-4 py-2 border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={isSubmitting}
+                className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50 transition-colors"
+              >
+                {isSubmitting ? t('common.loading') : t('common.delete')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { splitHighlights } from '../utils/highlight';
+
+interface HighlightedTextProps {
+  value: string;
+}
+
+// Renders a search highlight from the API with its matched words marked
+const HighlightedText: React.FC<HighlightedTextProps> = ({ value }) => (
+  <>
+    {splitHighlights(value).map((part, index) => part.highlighted ? (
+      <mark key={index} className="rounded px-0.5 bg-amber-200 dark:bg-blue-500/40 text-inherit">
+        {part.text}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{part.text}</React.Fragment>
+    ))}
+  </>
+);
+
+export default HighlightedText;
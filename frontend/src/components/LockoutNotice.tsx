@@ -0,0 +1,24 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatCountdown } from '../utils/countdown';
+
+interface LockoutNoticeProps {
+  remainingMs: number;
+}
+
+// Shown instead of an error toast while sign-in is rate limited or the account is locked
+const LockoutNotice: React.FC<LockoutNoticeProps> = ({ remainingMs }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div
+      role="alert"
+      className="p-3 rounded-md border border-red-300 dark:border-red-800 bg-red-50/80 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300"
+    >
+      <p className="font-medium">{t('auth.lockedOutTitle')}</p>
+      <p className="mt-1">{t('auth.lockedOutMessage', { time: formatCountdown(remainingMs) })}</p>
+    </div>
+  );
+};
+
+export default LockoutNotice;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch } from 'react-redux';
+import { createTag } from '../store/slices/tagSlice';
+import { AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+import { TAG_COLORS } from '../utils/tagColors';
+import type { Tag } from '../store/slices/tagSlice';
+
+interface NewTagInputProps {
+  onCreated?: (tag: Tag) => void;
+}
+
+// Not a <form>, so it can live inside TaskForm without submitting it
+const NewTagInput: React.FC<NewTagInputProps> = ({ onCreated }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(TAG_COLORS[5]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const tag = await dispatch(createTag({ name: name.trim(), color })).unwrap();
+      setName('');
+      onCreated?.(tag);
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          maxLength={30}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder={t('tags.newTag')}
+          className="flex-1 px-3 py-1.5 text-sm border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white placeholder-amber-700/70 dark:placeholder-gray-400"
+        />
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isSaving || !name.trim()}
+          className="px-3 py-1.5 text-sm rounded-md border border-amber-800 dark:border-gray-600 text-amber-800 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          {t('tags.add')}
+        </button>
+      </div>
+      <div className="flex gap-1.5">
+        {TAG_COLORS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setColor(option)}
+            className={`w-5 h-5 rounded-full transition-transform hover:scale-110 ${
+              color === option ? 'ring-2 ring-offset-2 ring-amber-500 dark:ring-blue-400 dark:ring-offset-gray-800' : ''
+            }`}
+            style={{ backgroundColor: option }}
+            title={option}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NewTagInput;
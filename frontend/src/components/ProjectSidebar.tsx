@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { fetchProjects, createProject, updateProject, deleteProject, shareProject, updateProjectShare, removeProjectShare } from '../store/slices/projectSlice';
+import { fetchTasks, fetchTaskStats } from '../store/slices/taskSlice';
+import { RootState, AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+import { TAG_COLORS } from '../utils/tagColors';
+import type { Project, DeleteProjectTasks } from '../store/slices/projectSlice';
+import type { ProjectFilter } from '../store/slices/taskSlice';
+import ShareDialog from './ShareDialog';
+
+interface ProjectSidebarProps {
+  selected?: ProjectFilter;
+  onSelect: (projectId?: ProjectFilter) => void;
+}
+
+interface ProjectRowProps {
+  project: Project;
+  isSelected: boolean;
+  onSelect: () => void;
+  onArchive: (archived: boolean) => void;
+  onDelete: () => void;
+  onShare: () => void;
+}
+
+const rowClassName = (isSelected: boolean) =>
+  `flex-1 min-w-0 flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-left transition-colors ${
+    isSelected
+      ? 'bg-amber-100/80 dark:bg-blue-900/40 text-amber-900 dark:text-blue-300 font-medium'
+      : 'text-amber-700 dark:text-gray-300 hover:bg-amber-50/80 dark:hover:bg-gray-700/60'
+  }`;
+
+const ProjectRow: React.FC<ProjectRowProps> = ({ project, isSelected, onSelect, onArchive, onDelete, onShare }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(project.name);
+  const isArchived = project.archivedAt !== null;
+  // Only the owner renames, recolors, archives or deletes; collaborators can open the sharing dialog to leave
+  const isOwner = project.access === 'OWNER';
+
+  useEffect(() => {
+    setName(project.name);
+  }, [project.name]);
+
+  const save = async (changes: { name?: string; color?: string }) => {
+    try {
+      await dispatch(updateProject({ id: project.id, ...changes })).unwrap();
+    } catch (error: any) {
+      setName(project.name);
+      customToast.error(error);
+    }
+  };
+
+  const handleRename = () => {
+    setIsRenaming(false);
+    if (name.trim() && name.trim() !== project.name) {
+      save({ name: name.trim() });
+    } else {
+      setName(project.name);
+    }
+  };
+
+  // Clicking the dot cycles through the tag palette
+  const nextColor = TAG_COLORS[(TAG_COLORS.indexOf(project.color ?? '') + 1) % TAG_COLORS.length];
+
+  return (
+    <li className="group/project flex items-center gap-1">
+      {isRenaming ? (
+        <input
+          type="text"
+          value={name}
+          maxLength={50}
+          autoFocus
+          onChange={(e) => setName(e.target.value)}
+          onBlur={handleRename}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm rounded-lg border border-amber-300 dark:border-gray-600 focus:border-amber-500 focus:outline-none bg-transparent text-amber-900 dark:text-white"
+        />
+      ) : (
+        <button onClick={onSelect} className={rowClassName(isSelected)}>
+          <span
+            onClick={(e) => {
+              e.stopPropagation();
+              if (isOwner) {
+                save({ color: nextColor });
+              }
+            }}
+            className={`w-2.5 h-2.5 shrink-0 rounded-full bg-amber-400 dark:bg-gray-400 ${isOwner ? 'hover:scale-125 transition-transform' : ''}`}
+            style={project.color ? { backgroundColor: project.color } : undefined}
+            title={isOwner ? t('projects.changeColor') : undefined}
+          />
+          <span className={`flex-1 truncate ${isArchived ? 'italic opacity-70' : ''}`}>{project.name}</span>
+          {(!isOwner || project.shares.length > 0) && (
+            <svg
+              className="w-3.5 h-3.5 shrink-0 text-indigo-500 dark:text-indigo-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <title>
+                {isOwner
+                  ? t('sharing.sharedWith', { count: project.shares.length })
+                  : t('sharing.sharedBy', { username: project.owner.username, role: t(`sharing.roles.${project.access}`) })}
+              </title>
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          )}
+          <span className="text-xs text-amber-600 dark:text-gray-400" title={t('projects.openTasks', { count: project.openTaskCount })}>
+            {project.openTaskCount}
+          </span>
+        </button>
+      )}
+
+      <div className="flex opacity-0 group-hover/project:opacity-100 transition-opacity">
+        <button
+          onClick={onShare}
+          className="p-1 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+          title={t('sharing.title')}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+          </svg>
+        </button>
+        {isOwner && !isArchived && (
+          <button
+            onClick={() => setIsRenaming(true)}
+            className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+            title={t('projects.rename')}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </button>
+        )}
+        {isOwner && (
+          <button
+            onClick={() => onArchive(!isArchived)}
+            className="p-1 text-gray-400 hover:text-amber-600 dark:hover:text-blue-400 transition-colors"
+            title={isArchived ? t('projects.restore') : t('projects.archive')}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isArchived
+                ? 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15'
+                : 'M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4'} />
+            </svg>
+          </button>
+        )}
+        {isOwner && (
+          <button
+            onClick={onDelete}
+            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+            title={t('common.delete')}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+const ProjectSidebar: React.FC<ProjectSidebarProps> = ({ selected, onSelect }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { projects, stale } = useSelector((state: RootState) => state.projects);
+  const { query, statsProjectId } = useSelector((state: RootState) => state.tasks);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  // Looked up by id so the dialog shows collaborator changes as they happen
+  const [sharingProjectId, setSharingProjectId] = useState<number | null>(null);
+  const sharingProject = projects.find((project) => project.id === sharingProjectId);
+  const activeProjects = projects.filter((project) => !project.archivedAt);
+  const archivedProjects = projects.filter((project) => project.archivedAt);
+
+  // Task changes make the open task counts stale
+  useEffect(() => {
+    if (stale) {
+      dispatch(fetchProjects());
+    }
+  }, [stale, dispatch]);
+
+  // Handle ESC key for delete modal
+  useEffect(() => {
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setProjectToDelete(null);
+      }
+    };
+
+    if (projectToDelete) {
+      document.addEventListener('keydown', handleEscKey);
+      return () => {
+        document.removeEventListener('keydown', handleEscKey);
+      };
+    }
+  }, [projectToDelete]);
+
+  // Archiving or deleting a project changes which tasks the current view shows
+  const refreshTasks = () => {
+    dispatch(fetchTasks({ ...query, page: 1 }));
+    dispatch(fetchTaskStats({ projectId: statsProjectId }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const project = await dispatch(createProject({ name: newName.trim() })).unwrap();
+      setNewName('');
+      onSelect(project.id);
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleArchive = async (project: Project, archived: boolean) => {
+    try {
+      await dispatch(updateProject({ id: project.id, archived })).unwrap();
+      customToast.success(archived ? t('projects.projectArchived') : t('projects.projectRestored'));
+      // Only the unfiltered view hides the tasks of archived projects
+      if (selected === undefined) {
+        refreshTasks();
+      }
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  const handleDelete = async (tasks: DeleteProjectTasks) => {
+    if (!projectToDelete) {
+      return;
+    }
+
+    try {
+      await dispatch(deleteProject({ id: projectToDelete.id, tasks })).unwrap();
+      customToast.success(t('projects.projectDeleted'));
+      if (selected === projectToDelete.id) {
+        onSelect(undefined);
+      } else {
+        refreshTasks();
+      }
+      setProjectToDelete(null);
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  // Leaving a project also removes its tasks from the current view
+  const handleRemoveShare = async (project: Project, userId: number) => {
+    await dispatch(removeProjectShare({ projectId: project.id, userId })).unwrap();
+    if (project.access !== 'OWNER') {
+      if (selected === project.id) {
+        onSelect(undefined);
+      } else {
+        refreshTasks();
+      }
+    }
+  };
+
+  const renderRows = (list: Project[]) => list.map((project) => (
+    <ProjectRow
+      key={project.id}
+      project={project}
+      isSelected={selected === project.id}
+      onSelect={() => onSelect(project.id)}
+      onArchive={(archived) => handleArchive(project, archived)}
+      onDelete={() => setProjectToDelete(project)}
+      onShare={() => setSharingProjectId(project.id)}
+    />
+  ));
+
+  return (
+    <aside className="lg:w-60 shrink-0 mb-8 lg:mb-0 text-left">
+      <div className="bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg rounded-xl border border-gray-200/50 dark:border-gray-600/50 p-3 space-y-1">
+        <button onClick={() => onSelect(undefined)} className={`w-full ${rowClassName(selected === undefined)}`}>
+          {t('projects.allTasks')}
+        </button>
+        <button onClick={() => onSelect('none')} className={`w-full ${rowClassName(selected === 'none')}`}>
+          {t('projects.noProject')}
+        </button>
+
+        <h3 className="pt-3 px-3 text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-gray-400">
+          {t('projects.title')}
+        </h3>
+        <ul className="space-y-1">
+          {renderRows(activeProjects)}
+        </ul>
+
+        <form onSubmit={handleCreate} className="pt-1">
+          <input
+            type="text"
+            value={newName}
+            maxLength={50}
+            onChange={(e) => setNewName(e.target.value)}
+            disabled={isCreating}
+            placeholder={t('projects.newProject')}
+            className="w-full px-3 py-1.5 text-sm rounded-lg border border-amber-200 dark:border-gray-600 bg-white/60 dark:bg-gray-800/60 text-amber-900 dark:text-white placeholder-amber-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-blue-500"
+          />
+        </form>
+
+        {archivedProjects.length > 0 && (
+          <div className="pt-3">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full flex items-center justify-between px-3 text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-gray-400"
+            >
+              {t('projects.archived', { count: archivedProjects.length })}
+              <svg
+                className={`w-3 h-3 transition-transform duration-200 ${showArchived ? 'rotate-180' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {showArchived && (
+              <ul className="mt-1 space-y-1">
+                {renderRows(archivedProjects)}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {sharingProject && (
+        <ShareDialog
+          title={sharingProject.name}
+          owner={sharingProject.owner}
+          shares={sharingProject.shares}
+          access={sharingProject.access}
+          onShare={(username, role) => dispatch(shareProject({ projectId: sharingProject.id, username, role })).unwrap()}
+          onChangeRole={(userId, role) => dispatch(updateProjectShare({ projectId: sharingProject.id, userId, role })).unwrap()}
+          onRemove={(userId) => handleRemoveShare(sharingProject, userId)}
+          onClose={() => setSharingProjectId(null)}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {projectToDelete && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={(e) => e.target === e.currentTarget && setProjectToDelete(null)}
+        >
+          <div className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-sm w-full p-6 border border-amber-200/50 dark:border-gray-600/50">
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {t('projects.deleteProject')}
+            </h3>
+            <p className="text-amber-700 dark:text-gray-400 mb-6">
+              {t('projects.deleteConfirm', { name: projectToDelete.name, count: projectToDelete.taskCount })}
+            </p>
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => handleDelete('unassign')}
+                className="px-4 py-2 border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('projects.keepTasks')}
+              </button>
+              <button
+                onClick={() => handleDelete('delete')}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors"
+              >
+                {t('projects.deleteTasks')}
+              </button>
+              <button
+                onClick={() => setProjectToDelete(null)}
+                className="px-4 py-2 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default ProjectSidebar;
@@ -2,13 +2,16 @@ import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
+import type { Role } from '../store/slices/authSlice';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Limits the route to these roles; any signed-in user may pass when omitted
+  roles?: Role[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, token } = useSelector((state: RootState) => state.auth);
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+  const { isAuthenticated, token, user } = useSelector((state: RootState) => state.auth);
   const location = useLocation();
 
   // Check if user is authenticated
@@ -17,6 +20,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // The API enforces roles as well, this only keeps other users away from pages they cannot use
+  if (roles && (!user || !roles.includes(user.role))) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface RequirementListProps {
+  requirements: { met: boolean; label: string }[];
+}
+
+// Live checklist under a form field, ticking off each rule as it is met
+const RequirementList: React.FC<RequirementListProps> = ({ requirements }) => (
+  <div className="mt-2 text-xs">
+    <ul className="space-y-1">
+      {requirements.map(({ met, label }) => (
+        <li
+          key={label}
+          className={`transition-colors duration-200 ${
+            met
+              ? 'text-green-600 dark:text-green-400'
+              : 'text-amber-600 dark:text-gray-400'
+          }`}
+        >
+          {met ? '✓' : '•'} {label}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default RequirementList;
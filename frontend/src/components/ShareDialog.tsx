@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSelector } from 'react-redux';
+import { customToast } from '../utils/toast';
+import { SHARE_ROLES } from '../store/slices/taskSlice';
+import type { AccessLevel, UserSummary, Share, ShareRole } from '../store/slices/taskSlice';
+import { RootState } from '../store';
+
+const inputClassName = 'px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm';
+
+interface ShareDialogProps {
+  title: string;
+  owner: UserSummary;
+  shares: Share[];
+  access: AccessLevel;
+  onShare: (username: string, role: ShareRole) => Promise<unknown>;
+  onChangeRole: (userId: number, role: ShareRole) => Promise<unknown>;
+  onRemove: (userId: number) => Promise<unknown>;
+  onClose: () => void;
+}
+
+// Lists the owner and collaborators of a task or project. Owners invite, change roles and remove people;
+// collaborators only see who else has access and can leave.
+const ShareDialog: React.FC<ShareDialogProps> = ({ title, owner, shares, access, onShare, onChangeRole, onRemove, onClose }) => {
+  const { t } = useTranslation();
+  const currentUserId = useSelector((state: RootState) => state.auth.user?.id);
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<ShareRole>('VIEWER');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const canManage = access === 'OWNER';
+
+  useEffect(() => {
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [onClose]);
+
+  const translateError = (error: string) => {
+    if (error.includes('User not found')) {
+      return t('sharing.userNotFound');
+    }
+    if (error.includes('Already shared')) {
+      return t('sharing.alreadyShared');
+    }
+    if (error.includes('owner cannot be added')) {
+      return t('sharing.cannotAddOwner');
+    }
+    return error;
+  };
+
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      customToast.success(successMessage);
+      return true;
+    } catch (error: any) {
+      customToast.error(translateError(error));
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) {
+      return;
+    }
+    if (await run(() => onShare(username.trim(), role), t('sharing.shared', { username: username.trim() }))) {
+      setUsername('');
+    }
+  };
+
+  const handleRemove = async (share: Share) => {
+    const isSelf = share.userId === currentUserId;
+    if (await run(() => onRemove(share.userId), isSelf ? t('sharing.left') : t('sharing.removed', { username: share.username })) && isSelf) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-md w-full p-6 border border-amber-200/50 dark:border-gray-600/50 text-left">
+        <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-1">
+          {t('sharing.title')}
+        </h3>
+        <p className="text-sm text-amber-700 dark:text-gray-400 mb-4 truncate">{title}</p>
+
+        <ul className="space-y-2 mb-4">
+          <li className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium text-amber-900 dark:text-white">
+              {owner.username}
+              {owner.id === currentUserId && ` (${t('sharing.you')})`}
+            </span>
+            <span className="text-xs text-amber-600 dark:text-gray-400">{t('sharing.roles.OWNER')}</span>
+          </li>
+          {shares.map((share) => (
+            <li key={share.userId} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-amber-900 dark:text-gray-200 truncate">
+                {share.username}
+                {share.userId === currentUserId && ` (${t('sharing.you')})`}
+              </span>
+              <div className="flex items-center gap-2">
+                {canManage ? (
+                  <select
+                    value={share.role}
+                    disabled={isSubmitting}
+                    onChange={(e) => run(
+                      () => onChangeRole(share.userId, e.target.value as ShareRole),
+                      t('sharing.roleChanged', { username: share.username })
+                    )}
+                    className={`${inputClassName} py-1`}
+                  >
+                    {SHARE_ROLES.map((shareRole) => (
+                      <option key={shareRole} value={shareRole}>{t(`sharing.roles.${shareRole}`)}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs text-amber-600 dark:text-gray-400">{t(`sharing.roles.${share.role}`)}</span>
+                )}
+                {(canManage || share.userId === currentUserId) && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(share)}
+                    disabled={isSubmitting}
+                    className="px-2 py-1 text-xs text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                  >
+                    {share.userId === currentUserId ? t('sharing.leave') : t('sharing.remove')}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {shares.length === 0 && (
+          <p className="text-sm text-amber-600 dark:text-gray-500 mb-4">{t('sharing.notShared')}</p>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleShare} className="flex flex-wrap gap-2 mb-4">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder={t('sharing.usernamePlaceholder')}
+              className={`${inputClassName} flex-1 min-w-0`}
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ShareRole)}
+              className={inputClassName}
+            >
+              {SHARE_ROLES.map((shareRole) => (
+                <option key={shareRole} value={shareRole}>{t(`sharing.roles.${shareRole}`)}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isSubmitting || !username.trim()}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors"
+            >
+              {t('sharing.share')}
+            </button>
+          </form>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
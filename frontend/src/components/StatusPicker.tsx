@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { STATUS_STYLES } from '../utils/taskStatus';
+import type { TaskStatus } from '../store/slices/taskSlice';
+
+interface StatusPickerProps {
+  status: TaskStatus;
+  // The statuses the task may move to next
+  options: TaskStatus[];
+  disabled?: boolean;
+  onChange: (status: TaskStatus) => void;
+}
+
+const StatusPicker: React.FC<StatusPickerProps> = ({ status, options, disabled, onChange }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (nextStatus: TaskStatus) => {
+    setIsOpen(false);
+    onChange(nextStatus);
+  };
+
+  return (
+    <div className="relative" ref={pickerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap transition-colors cursor-pointer ${STATUS_STYLES[status].badge} disabled:opacity-50 disabled:cursor-not-allowed`}
+        title={t('tasks.taskStatus')}
+      >
+        {t(`tasks.statuses.${status}`)}
+        <svg
+          className={`w-3 h-3 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-40 bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-amber-200 dark:border-gray-700 py-2 z-50">
+          {options.map((nextStatus) => (
+            <button
+              key={nextStatus}
+              type="button"
+              onClick={() => handleSelect(nextStatus)}
+              className="w-full px-4 py-2 text-left text-sm hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors text-amber-800 dark:text-gray-300"
+            >
+              {t(`tasks.statuses.${nextStatus}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatusPicker;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { getTagTextColor } from '../utils/tagColors';
+import type { TagSummary } from '../store/slices/tagSlice';
+
+interface TagChipProps {
+  tag: TagSummary;
+  selected?: boolean;
+  onClick?: () => void;
+}
+
+// Unselected chips in pickers and filters are outlined, everything else is filled with the tag color
+const TagChip: React.FC<TagChipProps> = ({ tag, selected = true, onClick }) => {
+  const style = selected
+    ? { backgroundColor: tag.color, borderColor: tag.color, color: getTagTextColor(tag.color) }
+    : { borderColor: tag.color, color: tag.color };
+
+  const className = `inline-flex items-center px-2 py-0.5 rounded-full border text-xs font-medium whitespace-nowrap ${
+    onClick ? 'cursor-pointer transition-transform hover:scale-105' : ''
+  }`;
+
+  if (onClick) {
+    return (
+      <button type="button" onClick={onClick} className={className} style={style}>
+        {tag.name}
+      </button>
+    );
+  }
+
+  return (
+    <span className={className} style={style}>
+      {tag.name}
+    </span>
+  );
+};
+
+export default TagChip;
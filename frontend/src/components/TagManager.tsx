@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { fetchTags, updateTag, deleteTag } from '../store/slices/tagSlice';
+import { RootState, AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+import { TAG_COLORS } from '../utils/tagColors';
+import type { Tag } from '../store/slices/tagSlice';
+import NewTagInput from './NewTagInput';
+
+interface TagManagerProps {
+  onClose: () => void;
+}
+
+interface TagRowProps {
+  tag: Tag;
+}
+
+const TagRow: React.FC<TagRowProps> = ({ tag }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const [name, setName] = useState(tag.name);
+
+  useEffect(() => {
+    setName(tag.name);
+  }, [tag.name]);
+
+  const save = async (changes: { name?: string; color?: string }) => {
+    try {
+      await dispatch(updateTag({ id: tag.id, ...changes })).unwrap();
+    } catch (error: any) {
+      setName(tag.name);
+      customToast.error(error);
+    }
+  };
+
+  const handleRename = () => {
+    if (name.trim() && name.trim() !== tag.name) {
+      save({ name: name.trim() });
+    } else {
+      setName(tag.name);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await dispatch(deleteTag(tag.id)).unwrap();
+      customToast.success(t('tags.tagDeleted'));
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  // Clicking the swatch cycles through the palette
+  const nextColor = TAG_COLORS[(TAG_COLORS.indexOf(tag.color) + 1) % TAG_COLORS.length];
+
+  return (
+    <li className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={() => save({ color: nextColor })}
+        className="w-5 h-5 shrink-0 rounded-full transition-transform hover:scale-110"
+        style={{ backgroundColor: tag.color }}
+        title={t('tags.changeColor')}
+      />
+      <input
+        type="text"
+        value={name}
+        maxLength={30}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleRename}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className="flex-1 px-2 py-1 text-sm rounded-md border border-transparent hover:border-amber-300 dark:hover:border-gray-600 focus:border-amber-500 focus:outline-none bg-transparent text-amber-900 dark:text-white"
+      />
+      <span className="text-xs text-amber-600 dark:text-gray-400 whitespace-nowrap">
+        {t('tags.taskCount', { count: tag.taskCount })}
+      </span>
+      <button
+        type="button"
+        onClick={handleDelete}
+        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+        title={t('common.delete')}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+    </li>
+  );
+};
+
+const TagManager: React.FC<TagManagerProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { tags } = useSelector((state: RootState) => state.tags);
+
+  // Task counts change whenever tasks are tagged, so refresh them when the manager opens
+  useEffect(() => {
+    dispatch(fetchTags());
+  }, [dispatch]);
+
+  // Handle ESC key press
+  useEffect(() => {
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-xl shadow-xl w-full max-w-md border border-amber-200/50 dark:border-gray-600/50 p-6 text-left">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-amber-900 dark:text-white">
+            {t('tags.manageTags')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-amber-100 dark:hover:bg-gray-700 rounded-lg transition-colors text-amber-700 dark:text-gray-300"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-amber-700 dark:text-gray-400 mb-4">{t('tags.noTags')}</p>
+        ) : (
+          <ul className="space-y-2 mb-6 max-h-72 overflow-y-auto">
+            {tags.map((tag) => (
+              <TagRow key={tag.id} tag={tag} />
+            ))}
+          </ul>
+        )}
+
+        <NewTagInput />
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
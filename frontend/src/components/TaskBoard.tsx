@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { fetchTasks, updateTask, moveTask, TASK_STATUSES } from '../store/slices/taskSlice';
+import { RootState, AppDispatch } from '../store';
+import TaskItem from './TaskItem';
+import TaskForm from './TaskForm';
+import type { AssigneeFilter, ProjectFilter, Task, TaskFilter, TaskStatus } from '../store/slices/taskSlice';
+import { customToast } from '../utils/toast';
+import { getDueFilterQuery, formatDueDate } from '../utils/dueDate';
+import { getNextStatuses, STATUS_STYLES } from '../utils/taskStatus';
+import type { DueFilter } from '../utils/dueDate';
+
+interface TaskBoardProps {
+  filter: TaskFilter;
+  dueFilter?: DueFilter;
+  tagFilter?: number[];
+  projectFilter?: ProjectFilter;
+  assigneeFilter?: AssigneeFilter;
+  searchQuery?: string;
+}
+
+// The board groups every loaded task by status, so it asks for the largest page the API allows
+const BOARD_PAGE_SIZE = 100;
+
+const TaskBoard: React.FC<TaskBoardProps> = ({ filter, dueFilter = 'all', tagFilter = [], projectFilter, assigneeFilter, searchQuery = '' }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { tasks, loading, error, total, query } = useSelector((state: RootState) => state.tasks);
+  const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
+  const [expandedTaskId, setExpandedTaskId] = useState<number | null>(null);
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [dropStatus, setDropStatus] = useState<TaskStatus | null>(null);
+  const hasMore = tasks.length < total;
+  // A string key keeps the fetch effect from re-running for every new but equal filter array
+  const tagKey = tagFilter.join(',');
+  const statuses = filter === 'all' ? TASK_STATUSES : [filter];
+
+  useEffect(() => {
+    dispatch(fetchTasks({
+      ...(filter !== 'all' && { status: filter }),
+      ...getDueFilterQuery(dueFilter),
+      ...(tagKey && { tags: tagKey.split(',').map(Number) }),
+      ...(projectFilter !== undefined && { projectId: projectFilter }),
+      ...(assigneeFilter !== undefined && { assigneeId: assigneeFilter }),
+      ...(searchQuery && { q: searchQuery }),
+      sortBy: 'position',
+      sortOrder: 'asc',
+      page: 1,
+      limit: BOARD_PAGE_SIZE,
+    }));
+  }, [dispatch, filter, dueFilter, tagKey, projectFilter, assigneeFilter, searchQuery]);
+
+  // Tasks arrive in manual order, so each column keeps the order the user arranged
+  const columns = Object.fromEntries(
+    TASK_STATUSES.map((status) => [status, tasks.filter((task) => task.status === status)])
+  ) as Record<TaskStatus, Task[]>;
+
+  const canDropOn = (status: TaskStatus) =>
+    draggedTask !== null && (draggedTask.status === status || getNextStatuses(draggedTask).includes(status));
+
+  const handleDragOver = (e: React.DragEvent, status: TaskStatus) => {
+    if (!canDropOn(status)) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropStatus(status);
+  };
+
+  // Dropping on a card places the task next to it; dropping on the column background appends it
+  const handleDrop = async (e: React.DragEvent, status: TaskStatus, targetTaskId?: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const task = draggedTask;
+    setDraggedTask(null);
+    setDropStatus(null);
+
+    if (!task || task.id === targetTaskId) {
+      return;
+    }
+
+    const column = columns[status].filter((columnTask) => columnTask.id !== task.id);
+    const lastTask = column[column.length - 1];
+
+    try {
+      if (task.status !== status) {
+        const { nextOccurrence } = await dispatch(updateTask({ id: task.id, status })).unwrap();
+        customToast.success(nextOccurrence
+          ? t('recurrence.nextOccurrenceCreated', { date: formatDueDate(nextOccurrence) })
+          : t('tasks.taskUpdated'));
+      }
+
+      if (targetTaskId !== undefined) {
+        // Within a column, dragging down places the task after the target, dragging up places it before
+        const from = columns[status].findIndex((columnTask) => columnTask.id === task.id);
+        const to = columns[status].findIndex((columnTask) => columnTask.id === targetTaskId);
+        await dispatch(moveTask(from !== -1 && from < to
+          ? { id: task.id, afterId: targetTaskId }
+          : { id: task.id, beforeId: targetTaskId })).unwrap();
+      } else if (lastTask) {
+        await dispatch(moveTask({ id: task.id, afterId: lastTask.id })).unwrap();
+      }
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTask(null);
+    setDropStatus(null);
+  };
+
+  if (loading && tasks.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+        <button
+          onClick={() => dispatch(fetchTasks({ ...query, page: 1 }))}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          {t('common.retry', { defaultValue: 'Retry' })}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-amber-900 dark:text-white">
+          {t('tasks.board')}
+        </h2>
+        <button
+          onClick={() => window.dispatchEvent(new CustomEvent('openTaskForm'))}
+          className="group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border border-gray-200/50 dark:border-gray-600/50 transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer inline-flex items-center px-4 py-2 text-sm font-medium text-amber-700 dark:text-gray-300"
+        >
+          <svg className="w-4 h-4 mr-2 text-amber-700 dark:text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+          {t('tasks.newTask')}
+        </button>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4 text-left">
+        {statuses.map((status) => (
+          <div
+            key={status}
+            onDragOver={(e) => handleDragOver(e, status)}
+            onDragLeave={() => setDropStatus(null)}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`flex-1 min-w-[18rem] rounded-xl border p-3 backdrop-blur-sm transition-colors ${
+              dropStatus === status
+                ? 'border-amber-400 dark:border-blue-400 bg-amber-50/60 dark:bg-blue-900/20'
+                : 'border-gray-200/50 dark:border-gray-600/50 bg-gray-50/30 dark:bg-gray-800/30'
+            } ${draggedTask && !canDropOn(status) ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[status].badge}`}>
+                {t(`tasks.statuses.${status}`)}
+              </span>
+              <span className="text-sm text-amber-700 dark:text-gray-400">{columns[status].length}</span>
+            </div>
+
+            <div className="space-y-3 min-h-[4rem]">
+              {columns[status].length === 0 ? (
+                <p className="py-6 text-center text-sm text-amber-600/70 dark:text-gray-500">
+                  {t('tasks.dropHere')}
+                </p>
+              ) : (
+                columns[status].map((task) => (
+                  <div
+                    key={task.id}
+                    draggable={task.access !== 'VIEWER'}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedTask(task);
+                    }}
+                    onDragEnd={handleDragEnd}
+                    onDrop={(e) => handleDrop(e, status, task.id)}
+                    className={draggedTask?.id === task.id ? 'opacity-40' : ''}
+                  >
+                    <TaskItem
+                      task={task}
+                      onEdit={setEditingTask}
+                      isExpanded={expandedTaskId === task.id}
+                      onToggleExpand={() => setExpandedTaskId(expandedTaskId === task.id ? null : task.id)}
+                      isDraggable={task.access !== 'VIEWER'}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => dispatch(fetchTasks({ ...query, offset: tasks.length }))}
+            disabled={loading}
+            className="px-4 py-2 text-sm rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 shadow-lg text-amber-700 dark:text-gray-300 hover:shadow-xl transition-all disabled:opacity-50"
+          >
+            {t('tasks.loadMore')}
+          </button>
+        </div>
+      )}
+
+      {editingTask && (
+        <TaskForm task={editingTask} onClose={() => setEditingTask(undefined)} />
+      )}
+    </div>
+  );
+};
+
+export default TaskBoard;
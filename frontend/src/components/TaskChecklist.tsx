@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch } from 'react-redux';
+import { createChecklistItem, updateChecklistItem, deleteChecklistItem } from '../store/slices/taskSlice';
+import { AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+import type { Task } from '../store/slices/taskSlice';
+
+interface TaskChecklistProps {
+  task: Task;
+}
+
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ task }) => {
+  const { t } = useTranslation();
+  // Viewers of a shared task see the checklist without being able to change it
+  const readOnly = task.access === 'VIEWER';
+  const dispatch = useDispatch<AppDispatch>();
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newItemTitle.trim();
+    if (!title) {
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await dispatch(createChecklistItem({ taskId: task.id, title })).unwrap();
+      setNewItemTitle('');
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggle = async (itemId: number, done: boolean) => {
+    try {
+      await dispatch(updateChecklistItem({ taskId: task.id, itemId, done })).unwrap();
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  const handleDelete = async (itemId: number) => {
+    try {
+      await dispatch(deleteChecklistItem({ taskId: task.id, itemId })).unwrap();
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  return (
+    <div className="mt-3 text-left">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-gray-400 mb-2">
+        {t('tasks.checklist.title')}
+      </h4>
+
+      <ul className="space-y-1">
+        {task.items.map((item) => (
+          <li key={item.id} className="group/item flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={item.done}
+              disabled={readOnly}
+              onChange={(e) => handleToggle(item.id, e.target.checked)}
+              className="h-4 w-4 rounded border-amber-300 dark:border-gray-600 text-amber-600 dark:text-blue-500 focus:ring-amber-500 dark:focus:ring-blue-500"
+            />
+            <span className={`flex-1 text-sm ${
+              item.done
+                ? 'line-through text-amber-500 dark:text-gray-500'
+                : 'text-amber-800 dark:text-gray-300'
+            }`}>
+              {item.title}
+            </span>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => handleDelete(item.id)}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover/item:opacity-100 transition-opacity"
+                title={t('tasks.checklist.deleteItem')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="mt-2">
+          <input
+            type="text"
+            value={newItemTitle}
+            onChange={(e) => setNewItemTitle(e.target.value)}
+            disabled={isAdding}
+            placeholder={t('tasks.checklist.addItem')}
+            className="w-full px-3 py-1.5 text-sm rounded-lg border border-amber-200 dark:border-gray-600 bg-white/60 dark:bg-gray-800/60 text-amber-900 dark:text-white placeholder-amber-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-blue-500"
+          />
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
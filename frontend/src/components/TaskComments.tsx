@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { fetchComments, createComment, updateComment, deleteComment } from '../store/slices/commentSlice';
+import type { Comment } from '../store/slices/commentSlice';
+import { RootState, AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const textareaClassName = 'w-full px-3 py-1.5 text-sm rounded-lg border border-amber-200 dark:border-gray-600 bg-white/60 dark:bg-gray-800/60 text-amber-900 dark:text-white placeholder-amber-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-blue-500 resize-none';
+
+const formatTimestamp = (dateString: string) =>
+  new Date(dateString).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+interface TaskCommentsProps {
+  taskId: number;
+}
+
+// The comment thread of an expanded task card. Everyone who can see the task may comment;
+// authors edit and delete their own comments.
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const currentUserId = useSelector((state: RootState) => state.auth.user?.id);
+  const comments = useSelector((state: RootState) => state.comments.byTaskId[taskId]);
+  const [newBody, setNewBody] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reload on every open so comments by collaborators show up
+  useEffect(() => {
+    dispatch(fetchComments(taskId));
+  }, [dispatch, taskId]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      return true;
+    } catch (error: any) {
+      customToast.error(error);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = newBody.trim();
+    if (body && await run(() => dispatch(createComment({ taskId, body })).unwrap())) {
+      setNewBody('');
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = editBody.trim();
+    if (editingId === null || !body) {
+      return;
+    }
+    if (await run(() => dispatch(updateComment({ taskId, commentId: editingId, body })).unwrap())) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (commentId: number) => {
+    run(() => dispatch(deleteComment({ taskId, commentId })).unwrap());
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const submitOnEnter = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  return (
+    <div className="mt-4 text-left">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-gray-400 mb-2">
+        {t('comments.title')}
+      </h4>
+
+      {comments === undefined ? (
+        <p className="text-sm text-amber-600 dark:text-gray-500">{t('common.loading')}</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-amber-600 dark:text-gray-500">{t('comments.empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id} className="group/comment">
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-semibold text-amber-800 dark:text-gray-200">{comment.author.username}</span>
+                <span className="text-amber-600 dark:text-gray-500">
+                  {formatTimestamp(comment.createdAt)}
+                  {comment.updatedAt !== comment.createdAt && ` · ${t('comments.edited')}`}
+                </span>
+                {comment.authorId === currentUserId && editingId !== comment.id && (
+                  <span className="ml-auto flex gap-1 opacity-0 group-hover/comment:opacity-100 transition-opacity">
+                    <button
+                      type="button"
+                      onClick={() => startEditing(comment)}
+                      className="px-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                    >
+                      {t('common.edit')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(comment.id)}
+                      disabled={isSubmitting}
+                      className="px-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </span>
+                )}
+              </div>
+              {editingId === comment.id ? (
+                <form onSubmit={handleSave} className="mt-1">
+                  <textarea
+                    value={editBody}
+                    onChange={(e) => setEditBody(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setEditingId(null);
+                      } else {
+                        submitOnEnter(e);
+                      }
+                    }}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    rows={2}
+                    autoFocus
+                    className={textareaClassName}
+                  />
+                  <div className="flex justify-end gap-2 mt-1">
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 text-xs text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      {t('common.cancel')}
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || !editBody.trim()}
+                      className="px-3 py-1 text-xs text-white rounded-md bg-amber-700 hover:bg-amber-800 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50 transition-colors"
+                    >
+                      {t('common.save')}
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <p className="mt-0.5 text-sm whitespace-pre-wrap break-words text-amber-900 dark:text-gray-300">
+                  {comment.body}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="mt-3">
+        <textarea
+          value={newBody}
+          onChange={(e) => setNewBody(e.target.value)}
+          onKeyDown={submitOnEnter}
+          disabled={isSubmitting}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={2}
+          placeholder={t('comments.placeholder')}
+          className={textareaClassName}
+        />
+      </form>
+    </div>
+  );
+};
+
+export default TaskComments;
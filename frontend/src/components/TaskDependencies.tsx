@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { addDependency, removeDependency } from '../store/slices/taskSlice';
+import { RootState, AppDispatch } from '../store';
+import { customToast } from '../utils/toast';
+import { STATUS_STYLES } from '../utils/taskStatus';
+import type { Task, TaskLink } from '../store/slices/taskSlice';
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+// Links jump to the card of the linked task when it is part of the current list
+const DependencyLink: React.FC<{ link: TaskLink }> = ({ link }) => {
+  const { t } = useTranslation();
+  return (
+    <a
+      href={`#task-${link.id}`}
+      className="flex-1 min-w-0 flex items-center gap-2 text-sm text-amber-800 dark:text-gray-300 hover:underline"
+    >
+      <span className={`shrink-0 px-1.5 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[link.status].badge}`}>
+        {t(`tasks.statuses.${link.status}`)}
+      </span>
+      <span className="truncate">{link.title}</span>
+    </a>
+  );
+};
+
+// The tasks an expanded card waits for and the tasks it holds up. Editors add blockers from the loaded tasks;
+// the server rejects dependencies that would form a cycle.
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { tasks } = useSelector((state: RootState) => state.tasks);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const canEdit = task.access !== 'VIEWER';
+  const candidates = tasks.filter((other) =>
+    other.id !== task.id && !task.blockedBy.some((link) => link.id === other.id));
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdd = (blockerId: number) => {
+    run(() => dispatch(addDependency({ taskId: task.id, blockerId })).unwrap());
+  };
+
+  const handleRemove = (blockerId: number) => {
+    run(() => dispatch(removeDependency({ taskId: task.id, blockerId })).unwrap());
+  };
+
+  if (!canEdit && task.blockedBy.length === 0 && task.blocking.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 text-left">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-gray-400 mb-2">
+        {t('dependencies.title')}
+      </h4>
+
+      {task.blockedBy.length > 0 && (
+        <div className="mb-2">
+          <p className="text-xs text-amber-600 dark:text-gray-500 mb-1">{t('dependencies.blockedBy')}</p>
+          <ul className="space-y-1">
+            {task.blockedBy.map((link) => (
+              <li key={link.id} className="group/dependency flex items-center gap-2">
+                <DependencyLink link={link} />
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(link.id)}
+                    disabled={isSubmitting}
+                    className="px-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover/dependency:opacity-100 transition-opacity"
+                    title={t('dependencies.removeBlocker')}
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {task.blocking.length > 0 && (
+        <div className="mb-2">
+          <p className="text-xs text-amber-600 dark:text-gray-500 mb-1">{t('dependencies.blocking')}</p>
+          <ul className="space-y-1">
+            {task.blocking.map((link) => (
+              <li key={link.id} className="flex items-center gap-2">
+                <DependencyLink link={link} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canEdit && candidates.length > 0 && (
+        <select
+          value=""
+          disabled={isSubmitting}
+          onChange={(e) => handleAdd(Number(e.target.value))}
+          className="w-full px-2 py-1.5 text-sm rounded-lg border border-amber-200 dark:border-gray-600 bg-white/60 dark:bg-gray-800/60 text-amber-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-blue-500 disabled:opacity-50"
+        >
+          <option value="" disabled>{t('dependencies.addBlocker')}</option>
+          {candidates.map((other) => (
+            <option key={other.id} value={other.id}>{other.title}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
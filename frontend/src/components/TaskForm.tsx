@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -7,24 +7,86 @@ import { useDispatch, useSelector } from 'react-redux';
 import { createTask, updateTask } from '../store/slices/taskSlice';
 import { RootState, AppDispatch } from '../store';
 import { customToast } from '../utils/toast';
-import type { Task } from '../store/slices/taskSlice';
+import { toDueDatePayload, toDueDateInputs, formatDueDate } from '../utils/dueDate';
+import { getAssigneeOptions } from '../utils/assignees';
+import { getUpcomingOccurrences, MAX_RECURRENCE_INTERVAL } from '../utils/recurrence';
+import { TASK_PRIORITIES, RECURRENCE_FREQUENCIES } from '../store/slices/taskSlice';
+import type { Task, EditScope } from '../store/slices/taskSlice';
+import TagChip from './TagChip';
+import NewTagInput from './NewTagInput';
 
 const TaskSchema = z.object({
   title: z.string().min(1, 'taskTitleRequired'),
   description: z.string().optional(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
+  dueDate: z.string().optional(),
+  dueTime: z.string().optional(),
+  // Empty for tasks that do not repeat
+  frequency: z.enum(['', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
+  interval: z.number({ invalid_type_error: 'invalidInterval' }).int('invalidInterval')
+    .min(1, 'invalidInterval').max(MAX_RECURRENCE_INTERVAL, 'invalidInterval'),
+  repeatUntil: z.string().optional(),
+}).refine((data) => !data.dueTime || !!data.dueDate, {
+  message: 'dueTimeRequiresDate',
+  path: ['dueTime'],
+}).refine((data) => !data.frequency || !!data.dueDate, {
+  message: 'recurrenceRequiresDueDate',
+  path: ['frequency'],
 });
 
 type TaskFormData = z.infer<typeof TaskSchema>;
 
+// Sunday, 7 January 2024 is the first day of a week counted from 0 = Sunday
+const weekdayLabel = (weekday: number) =>
+  new Date(2024, 0, 7 + weekday).toLocaleDateString([], { weekday: 'short' });
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
 interface TaskFormProps {
   task?: Task;
+  // Project preselected for new tasks
+  defaultProjectId?: number;
   onClose: () => void;
 }
 
-const TaskForm: React.FC<TaskFormProps> = ({ task, onClose }) => {
+const TaskForm: React.FC<TaskFormProps> = ({ task, defaultProjectId, onClose }) => {
   const { t } = useTranslation();
   const dispatch = useDispatch<AppDispatch>();
   const { loading } = useSelector((state: RootState) => state.tasks);
+  const { tags } = useSelector((state: RootState) => state.tags);
+  const { projects } = useSelector((state: RootState) => state.projects);
+  const currentUser = useSelector((state: RootState) => state.auth.user);
+  const currentUserId = currentUser?.id;
+  // Tags belong to the task owner, so collaborators edit a shared task without its tags
+  const canEditTags = !task || task.owner.id === currentUserId;
+  const [tagIds, setTagIds] = useState<number[]>(() => task?.tags.map((tag) => tag.id) ?? []);
+  const [projectId, setProjectId] = useState<number | null>(task ? task.projectId : defaultProjectId ?? null);
+  // Only the owner moves a task between projects; a collaborator could otherwise take it over through their own project
+  const canMoveProject = !task || task.access === 'OWNER';
+  // Archived projects and projects shared read-only take no new tasks, but a task already in one keeps showing it
+  const projectOptions = projects.filter((project) =>
+    (!project.archivedAt && project.access !== 'VIEWER') || project.id === task?.projectId);
+  const [assigneeId, setAssigneeId] = useState<number | null>(task?.assigneeId ?? null);
+  const owner = task?.owner ?? (currentUser && { id: currentUser.id, username: currentUser.username });
+  const assigneeOptions = owner
+    ? getAssigneeOptions({ owner, shares: task?.shares ?? [] }, projects.find((project) => project.id === projectId))
+    : [];
+  // Moving the task to another project drops an assignee who could only see it through the old one
+  const selectedAssigneeId = assigneeOptions.some((user) => user.id === assigneeId) ? assigneeId : null;
+  const [weekdays, setWeekdays] = useState<number[]>(() => task?.recurrence?.weekdays ?? []);
+  // Edits of a recurring task apply to this occurrence unless the whole series is chosen
+  const [scope, setScope] = useState<EditScope>('occurrence');
+  const canEditRecurrence = !task?.seriesId || scope === 'series';
+
+  const toggleTag = (tagId: number) => {
+    setTagIds((current) => current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays((current) => current.includes(weekday)
+      ? current.filter((day) => day !== weekday)
+      : [...current, weekday].sort((a, b) => a - b));
+  };
 
   // Handle ESC key press
   useEffect(() => {
@@ -43,22 +105,56 @@ const TaskForm: React.FC<TaskFormProps> = ({ task, onClose }) => {
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors },
   } = useForm<TaskFormData>({
     resolver: zodResolver(TaskSchema),
     defaultValues: task ? {
       title: task.title,
       description: task.description || '',
-    } : {},
+      priority: task.priority,
+      ...toDueDateInputs(task),
+      frequency: task.recurrence?.frequency ?? '',
+      interval: task.recurrence?.interval ?? 1,
+      repeatUntil: toDueDateInputs({ dueDate: task.recurrence?.until ?? null, hasDueTime: false }).dueDate,
+    } : {
+      priority: 'MEDIUM',
+      frequency: '',
+      interval: 1,
+    },
   });
 
-  const onSubmit = async (data: TaskFormData) => {
+  const frequency = watch('frequency');
+  const interval = watch('interval');
+  const due = toDueDatePayload(watch('dueDate'), watch('dueTime'));
+  const until = toDueDatePayload(watch('repeatUntil')).dueDate;
+  const upcomingOccurrences = frequency && due.dueDate && Number.isInteger(interval) && interval >= 1
+    ? getUpcomingOccurrences({ frequency, interval, weekdays: frequency === 'WEEKLY' ? weekdays : [], until }, new Date(due.dueDate))
+    : [];
+
+  const onSubmit = async ({ dueDate, dueTime, frequency, interval, repeatUntil, ...data }: TaskFormData) => {
+    const taskData = { ...data, ...toDueDatePayload(dueDate, dueTime), ...(canEditTags && { tagIds }), projectId, assigneeId: selectedAssigneeId };
+    // Occurrences are counted in the user's own time zone
+    const recurrence = frequency ? {
+      frequency,
+      interval,
+      weekdays: frequency === 'WEEKLY' ? weekdays : [],
+      until: toDueDatePayload(repeatUntil).dueDate,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    } : null;
     try {
       if (task) {
-        await dispatch(updateTask({ id: task.id, ...data, status: task.status })).unwrap();
+        await dispatch(updateTask({
+          id: task.id,
+          ...taskData,
+          status: task.status,
+          // null stops the series of a recurring task
+          ...(canEditRecurrence && (recurrence || task.seriesId) && { recurrence }),
+          ...(task.seriesId && { scope }),
+        })).unwrap();
         customToast.success(t('tasks.taskUpdated'));
       } else {
-        await dispatch(createTask({ ...data, status: 'PENDING' })).unwrap();
+        await dispatch(createTask({ ...taskData, status: 'PENDING', ...(recurrence && { recurrence }) })).unwrap();
         customToast.success(t('tasks.taskCreated'));
       }
       onClose();
@@ -119,6 +215,221 @@ const TaskForm: React.FC<TaskFormProps> = ({ task, onClose }) => {
               />
             </div>
 
+            <div>
+              <label className="block text-left text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                {t('tasks.priority')}
+              </label>
+              <select
+                {...register('priority')}
+                className="w-full px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white"
+              >
+                {TASK_PRIORITIES.map((priority) => (
+                  <option key={priority} value={priority}>
+                    {t(`tasks.priorities.${priority}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-left text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                {t('projects.project')}
+              </label>
+              <select
+                value={projectId ?? ''}
+                onChange={(e) => setProjectId(e.target.value ? Number(e.target.value) : null)}
+                disabled={!canMoveProject}
+                className="w-full px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white disabled:opacity-50"
+              >
+                <option value="">{t('projects.noProject')}</option>
+                {projectOptions.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-left text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                {t('tasks.assignee')}
+              </label>
+              <select
+                value={selectedAssigneeId ?? ''}
+                onChange={(e) => setAssigneeId(e.target.value ? Number(e.target.value) : null)}
+                className="w-full px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white"
+              >
+                <option value="">{t('tasks.unassigned')}</option>
+                {assigneeOptions.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.id === currentUserId ? `${user.username} (${t('sharing.you')})` : user.username}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-left text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                {t('tasks.dueDate')}
+              </label>
+              <div className="flex gap-3">
+                <input
+                  {...register('dueDate')}
+                  type="date"
+                  className="flex-1 px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white"
+                />
+                <input
+                  {...register('dueTime')}
+                  type="time"
+                  className="w-32 px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white"
+                  title={t('tasks.dueTime')}
+                />
+              </div>
+              {errors.dueTime && (
+                <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                  {t(`tasks.${errors.dueTime.message}`)}
+                </p>
+              )}
+            </div>
+
+            {/* A disabled fieldset keeps the rule of a series as it is while only this occurrence is edited */}
+            <fieldset disabled={!canEditRecurrence}>
+              <label className="block text-left text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                {t('recurrence.repeat')}
+              </label>
+              <select
+                {...register('frequency')}
+                className="w-full px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white disabled:opacity-50"
+              >
+                <option value="">{t('recurrence.never')}</option>
+                {RECURRENCE_FREQUENCIES.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`recurrence.frequencies.${option}`)}
+                  </option>
+                ))}
+              </select>
+              {errors.frequency && (
+                <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                  {t(`recurrence.${errors.frequency.message}`)}
+                </p>
+              )}
+              {!canEditRecurrence && (
+                <p className="mt-1 text-left text-xs text-amber-700 dark:text-gray-400">
+                  {t('recurrence.ruleLocked')}
+                </p>
+              )}
+
+              {frequency && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex items-center gap-3 text-sm text-amber-800 dark:text-gray-300">
+                    <span>{t('recurrence.every')}</span>
+                    <input
+                      {...register('interval', { valueAsNumber: true })}
+                      type="number"
+                      min={1}
+                      max={MAX_RECURRENCE_INTERVAL}
+                      className="w-20 px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white disabled:opacity-50"
+                    />
+                    <span>{t(`recurrence.units.${frequency}`, { count: Number.isInteger(interval) ? interval : 1 })}</span>
+                  </div>
+                  {errors.interval && (
+                    <p className="text-sm text-red-700 dark:text-red-400">
+                      {t(`recurrence.${errors.interval.message}`)}
+                    </p>
+                  )}
+
+                  {frequency === 'WEEKLY' && (
+                    <div className="flex flex-wrap gap-1" title={t('recurrence.onDays')}>
+                      {WEEKDAYS.map((weekday) => (
+                        <button
+                          key={weekday}
+                          type="button"
+                          onClick={() => toggleWeekday(weekday)}
+                          aria-pressed={weekdays.includes(weekday)}
+                          className={`px-2 py-1 text-xs rounded-md border transition-colors disabled:opacity-50 ${
+                            weekdays.includes(weekday)
+                              ? 'bg-amber-700 border-amber-700 text-white dark:bg-blue-500 dark:border-blue-500'
+                              : 'border-amber-300 dark:border-gray-600 text-amber-800 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-gray-700'
+                          }`}
+                        >
+                          {weekdayLabel(weekday)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-3 text-sm text-amber-800 dark:text-gray-300">
+                    <span>{t('recurrence.until')}</span>
+                    <input
+                      {...register('repeatUntil')}
+                      type="date"
+                      className="flex-1 px-3 py-2 border border-amber-800 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 bg-yellow-50/80 dark:bg-gray-700/80 text-amber-900 dark:text-white disabled:opacity-50"
+                    />
+                  </div>
+
+                  {due.dueDate && (
+                    <div className="text-left text-xs text-amber-700 dark:text-gray-400">
+                      <span className="font-semibold uppercase tracking-wide">{t('recurrence.upcoming')}</span>
+                      {upcomingOccurrences.length === 0 ? (
+                        <p className="mt-1">{t('recurrence.noUpcoming')}</p>
+                      ) : (
+                        <ul className="mt-1 space-y-0.5">
+                          {upcomingOccurrences.map((date) => (
+                            <li key={date.getTime()}>
+                              {formatDueDate({ dueDate: date.toISOString(), hasDueTime: due.hasDueTime })}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </fieldset>
+
+            {canEditTags && (
+              <div>
+                <label className="block text-left text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                  {t('tags.title')}
+                </label>
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {tags.map((tag) => (
+                      <TagChip
+                        key={tag.id}
+                        tag={tag}
+                        selected={tagIds.includes(tag.id)}
+                        onClick={() => toggleTag(tag.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+                <NewTagInput onCreated={(tag) => setTagIds((current) => [...current, tag.id])} />
+              </div>
+            )}
+
+            {task?.seriesId && (
+              <fieldset className="text-left">
+                <legend className="text-sm font-medium text-amber-800 dark:text-gray-300 mb-1">
+                  {t('recurrence.scope')}
+                </legend>
+                <div className="flex gap-4 text-sm text-amber-900 dark:text-gray-300">
+                  {(['occurrence', 'series'] as EditScope[]).map((option) => (
+                    <label key={option} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="scope"
+                        value={option}
+                        checked={scope === option}
+                        onChange={() => setScope(option)}
+                        className="accent-amber-700 dark:accent-blue-500"
+                      />
+                      {t(`recurrence.scopes.${option}`)}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            )}
 
             <div className="flex gap-3 pt-4">
               <button
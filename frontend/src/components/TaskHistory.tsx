@@ -0,0 +1,95 @@
+import React, { useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { fetchTaskHistory } from '../store/slices/historySlice';
+import type { TaskField, TaskSnapshot } from '../store/slices/historySlice';
+import { RootState, AppDispatch } from '../store';
+
+const formatTimestamp = (dateString: string) =>
+  new Date(dateString).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+interface TaskHistoryProps {
+  taskId: number;
+  // Reloads the timeline after the task itself was edited
+  updatedAt: string;
+}
+
+// The audit trail of an expanded task card: who created it and who changed which fields, newest first
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, updatedAt }) => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const events = useSelector((state: RootState) => state.history.byTaskId[taskId]);
+
+  useEffect(() => {
+    dispatch(fetchTaskHistory(taskId));
+  }, [dispatch, taskId, updatedAt]);
+
+  const formatValue = (field: TaskField, value: TaskSnapshot[TaskField] | null) => {
+    if (value === null || (Array.isArray(value) && value.length === 0)) {
+      return t('history.none');
+    }
+    switch (field) {
+      case 'status':
+        return t(`tasks.statuses.${value}`);
+      case 'priority':
+        return t(`tasks.priorities.${value}`);
+      case 'dueDate':
+        return new Date(value as string).toLocaleDateString([], { dateStyle: 'medium' });
+      case 'tags':
+        return (value as string[]).join(', ');
+      default:
+        return String(value);
+    }
+  };
+
+  return (
+    <div className="mt-4 text-left">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-gray-400 mb-2">
+        {t('history.title')}
+      </h4>
+
+      {events === undefined ? (
+        <p className="text-sm text-amber-600 dark:text-gray-500">{t('common.loading')}</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-amber-600 dark:text-gray-500">{t('history.empty')}</p>
+      ) : (
+        <ol className="space-y-2 border-l-2 border-amber-200 dark:border-gray-600 pl-3">
+          {events.map((event) => {
+            const actor = event.actor?.username ?? t('history.deletedUser');
+            const fields = Object.keys(event.changes) as TaskField[];
+            return (
+              <li key={event.id} className="relative text-xs">
+                <span className="absolute -left-[17px] top-1 w-2 h-2 rounded-full bg-amber-400 dark:bg-blue-400" />
+                <div className="flex flex-wrap items-center gap-x-2">
+                  <span className="text-amber-900 dark:text-gray-200">
+                    {t(`history.actions.${event.action}`, { actor })}
+                  </span>
+                  <span className="text-amber-600 dark:text-gray-500">{formatTimestamp(event.createdAt)}</span>
+                </div>
+                {/* A creation lists every initial value, which the card already shows */}
+                {event.action === 'UPDATED' && (
+                  <ul className="mt-0.5 text-amber-700 dark:text-gray-400">
+                    {fields.map((field) => {
+                      const change = event.changes[field]!;
+                      return (
+                        <li key={field} className="break-words">
+                          <span className="font-medium">{t(`history.fields.${field}`)}:</span>{' '}
+                          {/* Descriptions are too long to repeat in the timeline */}
+                          {field === 'description'
+                            ? t('history.changed')
+                            : `${formatValue(field, change.from)} → ${formatValue(field, change.to)}`}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TaskHistory;
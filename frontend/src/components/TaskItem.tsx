@@ -1,23 +1,65 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
-import { updateTask, deleteTask } from '../store/slices/taskSlice';
+import { updateTask, deleteTask, shareTask, updateTaskShare, removeTaskShare } from '../store/slices/taskSlice';
+import { restoreTask } from '../store/slices/trashSlice';
 import { RootState, AppDispatch } from '../store';
 import { customToast } from '../utils/toast';
-import type { Task } from '../store/slices/taskSlice';
+import { getDueState, formatDueDate } from '../utils/dueDate';
+import { getNextStatuses, getOpenBlockers, isClosedStatus, STATUS_STYLES } from '../utils/taskStatus';
+import type { DueState } from '../utils/dueDate';
+import type { Task, TaskPriority, TaskStatus } from '../store/slices/taskSlice';
+import StatusPicker from './StatusPicker';
+import TaskChecklist from './TaskChecklist';
+import TaskComments from './TaskComments';
+import TaskDependencies from './TaskDependencies';
+import TaskHistory from './TaskHistory';
+import TagChip from './TagChip';
+import HighlightedText from './HighlightedText';
+import ShareDialog from './ShareDialog';
+
+const PRIORITY_BADGE_STYLES: Record<TaskPriority, string> = {
+  LOW: 'bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300',
+  MEDIUM: 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  HIGH: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  URGENT: 'bg-red-600 text-white dark:bg-red-500',
+};
+
+const DUE_BADGE_STYLES: Record<DueState, string> = {
+  overdue: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  today: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  week: 'bg-amber-100 text-amber-700 dark:bg-blue-900/40 dark:text-blue-300',
+  later: 'bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300',
+};
 
 interface TaskItemProps {
   task: Task;
   onEdit: (task: Task) => void;
   isExpanded: boolean;
   onToggleExpand: (taskId: string) => void;
+  isDraggable?: boolean;
+  // Shows a checkbox for bulk actions when given
+  onToggleSelect?: (taskId: number) => void;
+  isSelected?: boolean;
 }
 
-const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleExpand }) => {
+const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleExpand, isDraggable = false, onToggleSelect, isSelected = false }) => {
   const { t } = useTranslation();
   const dispatch = useDispatch<AppDispatch>();
   const { loading } = useSelector((state: RootState) => state.tasks);
+  const currentUserId = useSelector((state: RootState) => state.auth.user?.id);
+  const project = useSelector((state: RootState) =>
+    state.projects.projects.find((project) => project.id === task.projectId));
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const canEdit = task.access !== 'VIEWER';
+  const isOwner = task.access === 'OWNER';
+  // Tasks of others are marked with their owner, own tasks with how many people they are shared with
+  const isSharedWithMe = task.owner.id !== currentUserId;
+  const dueState = getDueState(task);
+  const openBlockers = getOpenBlockers(task);
+  const isClosed = isClosedStatus(task.status);
+  const doneItems = task.items.filter((item) => item.done).length;
 
   // Handle ESC key for delete modal
   useEffect(() => {
@@ -35,11 +77,21 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
     }
   }, [showDeleteConfirm]);
 
-  const handleStatusToggle = async () => {
+  const handleStatusChange = async (newStatus: TaskStatus) => {
+    try {
+      const { nextOccurrence } = await dispatch(updateTask({ id: task.id, status: newStatus })).unwrap();
+      customToast.success(nextOccurrence
+        ? t('recurrence.nextOccurrenceCreated', { date: formatDueDate(nextOccurrence) })
+        : t('tasks.taskUpdated'));
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  const handleUndoDelete = async () => {
     try {
-      const newStatus = task.status === 'PENDING' ? 'COMPLETED' : 'PENDING';
-      await dispatch(updateTask({ id: task.id, status: newStatus })).unwrap();
-      customToast.success(t('tasks.taskUpdated'));
+      await dispatch(restoreTask(task.id)).unwrap();
+      customToast.success(t('trash.taskRestored'));
     } catch (error: any) {
       customToast.error(error);
     }
@@ -48,7 +100,7 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
   const handleDelete = async () => {
     try {
       await dispatch(deleteTask(task.id)).unwrap();
-      customToast.success(t('tasks.taskDeleted'));
+      customToast.success(t('tasks.taskDeleted'), { label: t('trash.undo'), onClick: handleUndoDelete });
       setShowDeleteConfirm(false);
     } catch (error: any) {
       customToast.error(error);
@@ -60,8 +112,8 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
   };
 
   const handleCardClick = (e: React.MouseEvent) => {
-    // Don't expand if clicking on buttons
-    if ((e.target as HTMLElement).closest('button')) {
+    // Don't expand if clicking on buttons, links, checklist or comment inputs or the sharing dialog
+    if ((e.target as HTMLElement).closest('a, button, input, select, textarea, form, [role="dialog"]')) {
       return;
     }
     onToggleExpand(task.id);
@@ -69,40 +121,168 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
 
   return (
     <div 
-      className={`group relative bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50 dark:border-gray-600/50 p-4 transition-all duration-200 hover:shadow-xl hover:scale-[1.02] cursor-pointer ${
-        task.status === 'COMPLETED'
-          ? 'border-l-4 border-l-green-500 dark:border-l-green-400'
-          : 'border-l-4 border-l-red-700 dark:border-l-red-500'
+      id={`task-${task.id}`}
+      className={`group relative scroll-mt-24 target:ring-2 target:ring-amber-500 dark:target:ring-blue-400 bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50 dark:border-gray-600/50 border-l-4 p-4 transition-all duration-200 hover:shadow-xl hover:scale-[1.02] cursor-pointer ${
+        STATUS_STYLES[task.status].border
+      } ${dueState === 'overdue' ? 'ring-2 ring-red-500/60 dark:ring-red-400/60' : ''} ${
+        isSelected ? 'ring-2 ring-amber-500 dark:ring-blue-400' : ''
       }`}
       onClick={handleCardClick}
     >
       <div className="flex items-center gap-3">
-        {/* Status Toggle and Title together */}
-        <div className="flex items-center gap-3 flex-1">
-          <button
-            onClick={handleStatusToggle}
-            disabled={loading}
-            className={`w-5 h-5 rounded-full border-2 flex items-center justify-center transition-colors cursor-pointer ${
-              task.status === 'COMPLETED'
-                ? 'bg-green-500 border-green-500 text-white'
-                : 'border-gray-300 dark:border-gray-600 hover:border-green-500'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-          >
-            {task.status === 'COMPLETED' && (
-              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-              </svg>
-            )}
-          </button>
+        {/* Status Picker and Title together */}
+        <div className="flex flex-wrap items-center gap-3 flex-1">
+          {onToggleSelect && (
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => onToggleSelect(task.id)}
+              aria-label={t('bulk.selectTask')}
+              className="w-4 h-4 shrink-0 rounded accent-amber-600 dark:accent-blue-500 cursor-pointer"
+            />
+          )}
+          {isDraggable && (
+            <svg
+              className="w-4 h-4 -ml-1 shrink-0 text-amber-500/70 dark:text-gray-500 cursor-grab active:cursor-grabbing"
+              fill="currentColor"
+              viewBox="0 0 20 20"
+            >
+              <title>{t('tasks.dragToReorder')}</title>
+              <path d="M7 4a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zm0 6a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zm-1.5 7.5a1.5 1.5 0 100-3 1.5 1.5 0 000 3zM16 4a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zm-1.5 7.5a1.5 1.5 0 100-3 1.5 1.5 0 000 3zM16 16a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0z" />
+            </svg>
+          )}
+          <StatusPicker
+            status={task.status}
+            options={getNextStatuses(task)}
+            disabled={loading || !canEdit}
+            onChange={handleStatusChange}
+          />
 
-          {/* Title - right next to checkbox */}
+          {/* Title - right next to status picker */}
           <h3 className={`text-lg font-medium ${
-            task.status === 'COMPLETED' 
+            isClosed
               ? 'text-amber-600 dark:text-gray-400 line-through' 
               : 'text-amber-700 dark:text-white'
           }`}>
-            {task.title}
+            {task.match ? <HighlightedText value={task.match.title} /> : task.title}
           </h3>
+
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase tracking-wide ${PRIORITY_BADGE_STYLES[task.priority]}`}
+            title={t('tasks.priority')}
+          >
+            {t(`tasks.priorities.${task.priority}`)}
+          </span>
+
+          {project && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300"
+              title={t('projects.project')}
+            >
+              <span
+                className="w-2 h-2 rounded-full bg-amber-400 dark:bg-gray-400"
+                style={project.color ? { backgroundColor: project.color } : undefined}
+              />
+              {project.name}
+            </span>
+          )}
+
+          {task.tags.map((tag) => (
+            <TagChip key={tag.id} tag={tag} />
+          ))}
+
+          {task.assignee && (
+            <span
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                task.assignee.id === currentUserId
+                  ? 'bg-amber-100 text-amber-800 dark:bg-blue-900/40 dark:text-blue-300'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300'
+              }`}
+              title={t('tasks.assignee')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+              {task.assignee.id === currentUserId ? t('tasks.assignedToYou') : task.assignee.username}
+            </span>
+          )}
+
+          {(isSharedWithMe || task.shares.length > 0) && (
+            <button
+              type="button"
+              onClick={() => setShowShareDialog(true)}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300"
+              title={task.shares.map((share) => share.username).join(', ')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              {isSharedWithMe
+                ? t('sharing.sharedBy', { username: task.owner.username, role: t(`sharing.roles.${task.access}`) })
+                : t('sharing.sharedWith', { count: task.shares.length })}
+            </button>
+          )}
+
+          {task.items.length > 0 && (
+            <span
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                doneItems === task.items.length
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300'
+              }`}
+              title={t('tasks.checklist.title')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              {doneItems}/{task.items.length}
+            </span>
+          )}
+
+          {task.commentCount > 0 && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300"
+              title={t('comments.count', { count: task.commentCount })}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+              </svg>
+              {task.commentCount}
+            </span>
+          )}
+
+          {openBlockers.length > 0 && !isClosed && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300"
+              title={openBlockers.map((link) => link.title).join(', ')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+              {t('dependencies.blockedCount', { count: openBlockers.length })}
+            </span>
+          )}
+
+          {task.recurrence && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-gray-100 text-gray-600 dark:bg-gray-700/60 dark:text-gray-300"
+              title={t('recurrence.recurring')}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              {t(`recurrence.frequencies.${task.recurrence.frequency}`)}
+            </span>
+          )}
+
+          {dueState && (
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${DUE_BADGE_STYLES[dueState]}`}
+              title={t('tasks.dueDate')}
+            >
+              {dueState === 'later' ? formatDueDate(task) : `${t(`tasks.due.${dueState}`)} · ${formatDueDate(task)}`}
+            </span>
+          )}
         </div>
 
         {/* Date - visible by default, hidden when expanded */}
@@ -119,28 +299,48 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
           isExpanded ? 'opacity-100' : 'opacity-0'
         }`}>
           <button
-            onClick={() => onEdit(task)}
-            className="p-3 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-            title={t('common.edit')}
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-            </svg>
-          </button>
-          <button
-            onClick={() => setShowDeleteConfirm(true)}
-            className="p-3 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-            title={t('common.delete')}
+            onClick={() => setShowShareDialog(true)}
+            className="p-3 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+            title={t('sharing.title')}
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
             </svg>
           </button>
+          {canEdit && (
+            <button
+              onClick={() => onEdit(task)}
+              className="p-3 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              title={t('common.edit')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+          )}
+          {isOwner && (
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="p-3 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+              title={t('common.delete')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Search snippet - replaced by the full description when expanded */}
+      {task.match?.snippet && !isExpanded && (
+        <p className="mt-1 text-sm text-left text-amber-700 dark:text-gray-400">
+          <HighlightedText value={task.match.snippet} />
+        </p>
+      )}
+
       {/* Description section - separate from title line */}
-      <div className="ml-9">
+      <div>
         {/* Description below title - Hidden by default, show when expanded */}
         {task.description && (
           <div className={`overflow-hidden transition-all duration-300 ease-in-out ${
@@ -149,7 +349,7 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
             <p className={`text-base text-left transition-opacity duration-300 delay-100 ${
               isExpanded ? 'opacity-100' : 'opacity-0'
             } ${
-              task.status === 'COMPLETED'
+              isClosed
                 ? 'text-amber-600 dark:text-gray-500'
                 : 'text-amber-700 dark:text-gray-400'
             }`}>
@@ -157,8 +357,27 @@ const TaskItem: React.FC<TaskItemProps> = ({ task, onEdit, isExpanded, onToggleE
             </p>
           </div>
         )}
+
+        {/* Checklist, dependencies and comments - editable while the card is expanded - followed by the change history */}
+        {isExpanded && <TaskChecklist task={task} />}
+        {isExpanded && <TaskDependencies task={task} />}
+        {isExpanded && <TaskComments taskId={task.id} />}
+        {isExpanded && <TaskHistory taskId={task.id} updatedAt={task.updatedAt} />}
       </div>
 
+      {showShareDialog && (
+        <ShareDialog
+          title={task.title}
+          owner={task.owner}
+          shares={task.shares}
+          access={task.access}
+          onShare={(username, role) => dispatch(shareTask({ taskId: task.id, username, role })).unwrap()}
+          onChangeRole={(userId, role) => dispatch(updateTaskShare({ taskId: task.id, userId, role })).unwrap()}
+          onRemove={(userId) => dispatch(removeTaskShare({ taskId: task.id, userId })).unwrap()}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div 
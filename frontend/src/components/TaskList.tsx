@@ -1,29 +1,92 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
-import { fetchTasks } from '../store/slices/taskSlice';
+import { fetchTasks, moveTask } from '../store/slices/taskSlice';
 import { RootState, AppDispatch } from '../store';
 import TaskItem from './TaskItem';
 import TaskForm from './TaskForm';
-import type { Task } from '../store/slices/taskSlice';
+import BulkActionBar from './BulkActionBar';
+import type { AssigneeFilter, ProjectFilter, Task, TaskFilter, TaskQuery } from '../store/slices/taskSlice';
+import { customToast } from '../utils/toast';
+import { getDueFilterQuery } from '../utils/dueDate';
+import type { DueFilter } from '../utils/dueDate';
 import { autoAnimate } from '@formkit/auto-animate';
 
 interface TaskListProps {
-  filter: 'all' | 'COMPLETED' | 'PENDING';
+  filter: TaskFilter;
+  dueFilter?: DueFilter;
+  tagFilter?: number[];
+  projectFilter?: ProjectFilter;
+  assigneeFilter?: AssigneeFilter;
+  searchQuery?: string;
 }
 
-const TaskList: React.FC<TaskListProps> = ({ filter }) => {
+const SORT_OPTIONS = {
+  default: {},
+  manual: { sortBy: 'position', sortOrder: 'asc' },
+  priority: { sortBy: 'priority', sortOrder: 'desc' },
+  newest: { sortBy: 'createdAt', sortOrder: 'desc' },
+  oldest: { sortBy: 'createdAt', sortOrder: 'asc' },
+  updated: { sortBy: 'updatedAt', sortOrder: 'desc' },
+  dueSoon: { sortBy: 'dueDate', sortOrder: 'asc' },
+  titleAsc: { sortBy: 'title', sortOrder: 'asc' },
+  titleDesc: { sortBy: 'title', sortOrder: 'desc' },
+} as const satisfies Record<string, Pick<TaskQuery, 'sortBy' | 'sortOrder'>>;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+const TaskList: React.FC<TaskListProps> = ({ filter, dueFilter = 'all', tagFilter = [], projectFilter, assigneeFilter, searchQuery = '' }) => {
   const { t } = useTranslation();
   const dispatch = useDispatch<AppDispatch>();
-  const { tasks, loading, error } = useSelector((state: RootState) => state.tasks);
+  const { tasks, loading, error, total, query, stats } = useSelector((state: RootState) => state.tasks);
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
   const [showEditForm, setShowEditForm] = useState(false);
   const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
+  const [sortOption, setSortOption] = useState<SortOption>('default');
+  const [draggedTaskId, setDraggedTaskId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
   const parentRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const hasMore = tasks.length < total;
+  // A string key keeps the fetch effect from re-running for every new but equal filter array
+  const tagKey = tagFilter.join(',');
+  // Dragging only makes sense while the list shows the manual order
+  const canReorder = sortOption === 'manual';
+  // Tasks that leave the list, e.g. after a filter change or a bulk action, also leave the selection
+  const selectedTasks = tasks.filter((task) => selectedIds.includes(task.id));
+
+  useEffect(() => {
+    dispatch(fetchTasks({
+      ...(filter !== 'all' && { status: filter }),
+      ...getDueFilterQuery(dueFilter),
+      ...(tagKey && { tags: tagKey.split(',').map(Number) }),
+      ...(projectFilter !== undefined && { projectId: projectFilter }),
+      ...(assigneeFilter !== undefined && { assigneeId: assigneeFilter }),
+      ...(searchQuery && { q: searchQuery }),
+      ...SORT_OPTIONS[sortOption],
+      page: 1,
+    }));
+  }, [dispatch, filter, dueFilter, tagKey, projectFilter, assigneeFilter, searchQuery, sortOption]);
 
+  // Load more once the sentinel below the list scrolls into view, continuing after the tasks already loaded
   useEffect(() => {
-    dispatch(fetchTasks());
-  }, [dispatch]);
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        dispatch(fetchTasks({ ...query, offset: tasks.length }));
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => {
+      observer.disconnect();
+    };
+  }, [dispatch, hasMore, loading, tasks.length, query]);
 
   useEffect(() => {
     if (parentRef.current) {
@@ -41,16 +104,37 @@ const TaskList: React.FC<TaskListProps> = ({ filter }) => {
     setEditingTask(undefined);
   };
 
-  // Filter and sort tasks based on the filter prop
-  const filteredTasks = filter === 'all' 
-    ? [...tasks].sort((a, b) => {
-        // Sort by status: pending first, completed last
-        if (a.status === 'PENDING' && b.status === 'COMPLETED') return -1;
-        if (a.status === 'COMPLETED' && b.status === 'PENDING') return 1;
-        // If same status, sort by creation date (newest first)
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      })
-    : tasks.filter(task => task.status === filter);
+  const toggleSelect = (taskId: number) => {
+    setSelectedIds((ids) => ids.includes(taskId) ? ids.filter((id) => id !== taskId) : [...ids, taskId]);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedTasks.length === tasks.length ? [] : tasks.map((task) => task.id));
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTargetId(null);
+  };
+
+  // Dragging down places the task after the target, dragging up places it before
+  const handleDrop = async (targetTaskId: number) => {
+    const taskId = draggedTaskId;
+    handleDragEnd();
+
+    if (taskId === null || taskId === targetTaskId) {
+      return;
+    }
+
+    const from = tasks.findIndex((task) => task.id === taskId);
+    const to = tasks.findIndex((task) => task.id === targetTaskId);
+
+    try {
+      await dispatch(moveTask(from < to ? { id: taskId, afterId: targetTaskId } : { id: taskId, beforeId: targetTaskId })).unwrap();
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
 
   if (loading && tasks.length === 0) {
     return (
@@ -65,7 +149,7 @@ const TaskList: React.FC<TaskListProps> = ({ filter }) => {
       <div className="text-center py-12">
         <p className="text-red-600 dark:text-red-400">{error}</p>
         <button
-          onClick={() => dispatch(fetchTasks())}
+          onClick={() => dispatch(fetchTasks({ ...query, page: 1 }))}
           className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
         >
           {t('common.retry', { defaultValue: 'Retry' })}
@@ -78,43 +162,107 @@ const TaskList: React.FC<TaskListProps> = ({ filter }) => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-amber-900 dark:text-white">
-          {filter === 'all' ? t('tasks.title') : t(`tasks.${filter.toLowerCase()}`)} ({filteredTasks.length})
+          {filter === 'all' ? t('tasks.title') : t(`tasks.statuses.${filter}`)} ({total})
         </h2>
-        <button 
-          onClick={() => window.dispatchEvent(new CustomEvent('openTaskForm'))}
-          className="group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border border-gray-200/50 dark:border-gray-600/50 transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer inline-flex items-center px-4 py-2 text-sm font-medium text-amber-700 dark:text-gray-300"
-        >
-          <svg className="w-4 h-4 mr-2 text-amber-700 dark:text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          {t('tasks.newTask')}
-        </button>
+        <div className="flex items-center gap-3">
+          {tasks.length > 0 && (
+            <label className="inline-flex items-center gap-2 text-sm text-amber-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedTasks.length === tasks.length}
+                onChange={toggleSelectAll}
+                className="w-4 h-4 rounded accent-amber-600 dark:accent-blue-500"
+              />
+              {t('bulk.selectAll')}
+            </label>
+          )}
+          <select
+            value={sortOption}
+            onChange={(e) => setSortOption(e.target.value as SortOption)}
+            className="px-3 py-2 text-sm rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg text-amber-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-amber-500"
+            title={t('tasks.sortBy')}
+          >
+            {(Object.keys(SORT_OPTIONS) as SortOption[]).map((option) => (
+              <option key={option} value={option}>
+                {/* Without a sort field, search results come back by relevance */}
+                {option === 'default' && searchQuery ? t('tasks.sort.relevance') : t(`tasks.sort.${option}`)}
+              </option>
+            ))}
+          </select>
+          <button 
+            onClick={() => window.dispatchEvent(new CustomEvent('openTaskForm'))}
+            className="group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border border-gray-200/50 dark:border-gray-600/50 transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer inline-flex items-center px-4 py-2 text-sm font-medium text-amber-700 dark:text-gray-300"
+          >
+            <svg className="w-4 h-4 mr-2 text-amber-700 dark:text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            {t('tasks.newTask')}
+          </button>
+        </div>
       </div>
 
-      {filteredTasks.length === 0 ? (
+      {selectedTasks.length > 0 && (
+        <BulkActionBar selectedTasks={selectedTasks} onClear={() => setSelectedIds([])} />
+      )}
+
+      {tasks.length === 0 ? (
         <div className="text-center py-12">
           <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v6a2 2 0 002 2h6a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
           </svg>
           <h3 className="mt-4 text-lg font-medium text-amber-900 dark:text-white">{t('tasks.noTasks')}</h3>
           <p className="mt-2 text-amber-700 dark:text-gray-400">
-            {tasks.length === 0 ? t('tasks.noTasksDescription') : `No ${filter.toLowerCase()} tasks found.`}
+            {stats.total === 0 ? t('tasks.noTasksDescription') : t('tasks.noMatchingTasks')}
           </p>
         </div>
       ) : (
         <div ref={parentRef} className="grid gap-4">
-          {filteredTasks.map((task) => (
-            <TaskItem 
-              key={task.id} 
-              task={task} 
-              onEdit={handleEdit}
-              isExpanded={expandedTaskId === task.id}
-              onToggleExpand={(taskId) => setExpandedTaskId(expandedTaskId === taskId ? null : taskId)}
-            />
+          {tasks.map((task) => (
+            <div
+              key={task.id}
+              draggable={canReorder && task.access !== 'VIEWER'}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedTaskId(task.id);
+              }}
+              onDragOver={(e) => {
+                if (draggedTaskId === null) {
+                  return;
+                }
+                e.preventDefault();
+                setDropTargetId(task.id);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(task.id);
+              }}
+              onDragEnd={handleDragEnd}
+              className={`rounded-xl transition-opacity ${draggedTaskId === task.id ? 'opacity-40' : ''} ${
+                dropTargetId === task.id && draggedTaskId !== task.id ? 'ring-2 ring-amber-400 dark:ring-blue-400' : ''
+              }`}
+            >
+              <TaskItem 
+                task={task} 
+                onEdit={handleEdit}
+                isExpanded={expandedTaskId === task.id}
+                onToggleExpand={(taskId) => setExpandedTaskId(expandedTaskId === taskId ? null : taskId)}
+                isDraggable={canReorder && task.access !== 'VIEWER'}
+                isSelected={selectedIds.includes(task.id)}
+                onToggleSelect={toggleSelect}
+              />
+            </div>
           ))}
         </div>
       )}
 
+      {hasMore && (
+        <div ref={sentinelRef} className="flex items-center justify-center py-6">
+          {loading && (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          )}
+        </div>
+      )}
+
       {showEditForm && (
         <TaskForm task={editingTask} onClose={handleCloseEditForm} />
       )}
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { customToast } from '../utils/toast';
+import { setupTwoFactor, enableTwoFactor, regenerateRecoveryCodes, disableTwoFactor } from '../store/slices/authSlice';
+import type { TwoFactorSetup } from '../store/slices/authSlice';
+import { RootState, AppDispatch } from '../store';
+
+const inputClassName = 'appearance-none relative block w-full px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm';
+const submitClassName = 'px-4 py-2 text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors';
+const secondaryClassName = 'px-4 py-2 text-sm border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors';
+
+// Changes to an enabled setup are confirmed in a modal
+type ConfirmAction = 'regenerate' | 'disable';
+
+const TwoFactorSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const enabled = useSelector((state: RootState) => state.auth.user?.twoFactorEnabled ?? false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const translateError = (error: string) => {
+    if (error.includes('Invalid verification code')) {
+      return t('auth.invalidCode');
+    }
+    if (error.includes('Password is incorrect')) {
+      return t('account.currentPasswordIncorrect');
+    }
+    return error;
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      setSetup(await dispatch(setupTwoFactor()).unwrap());
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const codes = await dispatch(enableTwoFactor(code.trim())).unwrap();
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(codes);
+      customToast.success(t('account.twoFactorEnabled'));
+    } catch (error: any) {
+      customToast.error(translateError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const closeConfirm = () => {
+    setConfirmAction(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (confirmAction === 'disable') {
+        await dispatch(disableTwoFactor({ password, code: code.trim() })).unwrap();
+        customToast.success(t('account.twoFactorDisabled'));
+      } else {
+        setRecoveryCodes(await dispatch(regenerateRecoveryCodes(code.trim())).unwrap());
+        customToast.success(t('account.recoveryCodesRegenerated'));
+      }
+      closeConfirm();
+    } catch (error: any) {
+      customToast.error(translateError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const cancelSetup = () => {
+    setSetup(null);
+    setCode('');
+  };
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes!.join('\n'));
+      customToast.success(t('account.recoveryCodesCopied'));
+    } catch {
+      customToast.error(t('account.copyFailed'));
+    }
+  };
+
+  const downloadRecoveryCodes = () => {
+    const url = URL.createObjectURL(new Blob([`${recoveryCodes!.join('\n')}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h3 className="text-lg font-medium text-amber-900 dark:text-white">
+          {t('account.twoFactor')}
+        </h3>
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+            enabled
+              ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+              : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {enabled ? t('account.twoFactorOn') : t('account.twoFactorOff')}
+        </span>
+      </div>
+      <p className="text-sm text-amber-700 dark:text-gray-400 mb-4">
+        {t('account.twoFactorHint')}
+      </p>
+
+      {recoveryCodes ? (
+        <div className="space-y-4">
+          <p className="text-sm font-medium text-amber-900 dark:text-white">
+            {t('account.recoveryCodesTitle')}
+          </p>
+          <p className="text-sm text-amber-700 dark:text-gray-400">
+            {t('account.recoveryCodesHint')}
+          </p>
+          <ul className="grid grid-cols-2 gap-2 p-4 rounded-md bg-amber-50 dark:bg-gray-900/60 border border-amber-200 dark:border-gray-600 font-mono text-sm text-amber-900 dark:text-gray-100">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-3">
+            <button type="button" onClick={copyRecoveryCodes} className={secondaryClassName}>
+              {t('account.copyCodes')}
+            </button>
+            <button type="button" onClick={downloadRecoveryCodes} className={secondaryClassName}>
+              {t('account.downloadCodes')}
+            </button>
+            <button type="button" onClick={() => setRecoveryCodes(null)} className={submitClassName}>
+              {t('account.savedCodes')}
+            </button>
+          </div>
+        </div>
+      ) : setup ? (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <p className="text-sm text-amber-900 dark:text-white">
+            {t('account.scanQrCode')}
+          </p>
+          <img
+            src={setup.qrCode}
+            alt={t('account.qrCodeAlt')}
+            className="w-44 h-44 rounded-md bg-white p-2"
+          />
+          <div>
+            <p className="text-xs text-amber-700 dark:text-gray-400">
+              {t('account.manualKey')}
+            </p>
+            <code className="block mt-1 break-all font-mono text-sm text-amber-900 dark:text-gray-100">
+              {setup.secret.match(/.{1,4}/g)?.join(' ')}
+            </code>
+          </div>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            maxLength={6}
+            className={inputClassName}
+            placeholder={t('auth.authenticatorCode')}
+          />
+          <div className="flex flex-wrap gap-3">
+            <button type="submit" disabled={isSubmitting || !code.trim()} className={submitClassName}>
+              {t('account.enableTwoFactor')}
+            </button>
+            <button type="button" onClick={cancelSetup} className={secondaryClassName}>
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      ) : enabled ? (
+        <div className="flex flex-wrap gap-3">
+          <button type="button" onClick={() => setConfirmAction('regenerate')} className={secondaryClassName}>
+            {t('account.regenerateCodes')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmAction('disable')}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors"
+          >
+            {t('account.disableTwoFactor')}
+          </button>
+        </div>
+      ) : (
+        <button type="button" onClick={handleStartSetup} disabled={isSubmitting} className={submitClassName}>
+          {t('account.setUpTwoFactor')}
+        </button>
+      )}
+
+      {/* Regenerate Codes / Disable Modal */}
+      {confirmAction && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={(e) => e.target === e.currentTarget && closeConfirm()}
+        >
+          <form
+            onSubmit={handleConfirm}
+            className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-sm w-full p-6 border border-amber-200/50 dark:border-gray-600/50"
+          >
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {confirmAction === 'disable' ? t('account.disableTwoFactor') : t('account.regenerateCodes')}
+            </h3>
+            <p className="text-amber-700 dark:text-gray-400 mb-4">
+              {confirmAction === 'disable' ? t('account.disableTwoFactorConfirm') : t('account.regenerateCodesConfirm')}
+            </p>
+            <div className="space-y-3 mb-6">
+              {confirmAction === 'disable' && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  autoFocus
+                  className={inputClassName}
+                  placeholder={t('auth.password')}
+                />
+              )}
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                autoFocus={confirmAction === 'regenerate'}
+                className={inputClassName}
+                placeholder={t('account.codeOrRecoveryCode')}
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={closeConfirm}
+                className="px-4 py-2 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !code.trim() || (confirmAction === 'disable' && !password)}
+                className={confirmAction === 'disable'
+                  ? 'px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors disabled:opacity-50'
+                  : submitClassName}
+              >
+                {confirmAction === 'disable' ? t('account.disableTwoFactor') : t('account.regenerateCodes')}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TwoFactorSettings;
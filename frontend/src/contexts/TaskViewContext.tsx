@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+
+export type TaskView = 'list' | 'board';
+
+interface TaskViewContextType {
+  view: TaskView;
+  toggleView: () => void;
+  setView: (view: TaskView) => void;
+}
+
+const TaskViewContext = createContext<TaskViewContextType | undefined>(undefined);
+
+interface TaskViewProviderProps {
+  children: React.ReactNode;
+}
+
+// Each user keeps their own preference on a shared browser
+const storageKey = (userId: number | undefined) => `meatec_task_view_${userId ?? 'guest'}`;
+
+const readView = (userId: number | undefined): TaskView => {
+  const savedView = localStorage.getItem(storageKey(userId));
+  return savedView === 'board' ? 'board' : 'list';
+};
+
+export const TaskViewProvider: React.FC<TaskViewProviderProps> = ({ children }) => {
+  const userId = useSelector((state: RootState) => state.auth.user?.id);
+  const [view, setViewState] = useState<TaskView>(() => readView(userId));
+
+  // Reload the preference when a different user logs in
+  useEffect(() => {
+    setViewState(readView(userId));
+  }, [userId]);
+
+  const setView = (newView: TaskView) => {
+    setViewState(newView);
+    localStorage.setItem(storageKey(userId), newView);
+  };
+
+  const toggleView = () => {
+    setView(view === 'list' ? 'board' : 'list');
+  };
+
+  const value: TaskViewContextType = {
+    view,
+    toggleView,
+    setView,
+  };
+
+  return (
+    <TaskViewContext.Provider value={value}>
+      {children}
+    </TaskViewContext.Provider>
+  );
+};
+
+export const useTaskView = (): TaskViewContextType => {
+  const context = useContext(TaskViewContext);
+  if (context === undefined) {
+    throw new Error('useTaskView must be used within a TaskViewProvider');
+  }
+  return context;
+};
@@ -0,0 +1,3 @@
+import { useTaskView as useTaskViewContext } from '../contexts/TaskViewContext';
+
+export const useTaskView = useTaskViewContext;
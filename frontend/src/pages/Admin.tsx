@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { customToast } from '../utils/toast';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { fetchUsers, fetchAdminStats, updateUser } from '../store/slices/adminSlice';
+import type { AdminUser } from '../store/slices/adminSlice';
+import { TASK_STATUSES } from '../store/slices/taskSlice';
+import { STATUS_STYLES } from '../utils/taskStatus';
+import { RootState, AppDispatch } from '../store';
+import AuthHeader from '../components/AuthHeader';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const cardClassName = 'p-4 rounded-xl border border-gray-200/50 dark:border-gray-600/50 backdrop-blur-sm shadow-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60';
+const actionClassName = 'px-3 py-1.5 text-sm border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString([], { dateStyle: 'medium' });
+
+const Admin: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const currentUserId = useSelector((state: RootState) => state.auth.user?.id);
+  const { users, stats, total, page, totalPages, loading, error } = useSelector((state: RootState) => state.admin);
+  const [searchInput, setSearchInput] = useState('');
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const search = useDebouncedValue(searchInput.trim(), SEARCH_DEBOUNCE_MS);
+
+  useEffect(() => {
+    dispatch(fetchAdminStats());
+  }, [dispatch]);
+
+  useEffect(() => {
+    dispatch(fetchUsers({ ...(search && { search }), page: 1 }));
+  }, [dispatch, search]);
+
+  const goToPage = (nextPage: number) => {
+    dispatch(fetchUsers({ ...(search && { search }), page: nextPage }));
+  };
+
+  const handleUpdate = async (user: AdminUser, changes: Pick<AdminUser, 'role'> | { disabled: boolean }) => {
+    setUpdatingId(user.id);
+    try {
+      await dispatch(updateUser({ id: user.id, ...changes })).unwrap();
+      customToast.success(t('admin.userUpdated', { username: user.username }));
+      // Disabling or promoting someone changes the totals shown above the table
+      dispatch(fetchAdminStats());
+    } catch (error: any) {
+      customToast.error(error.includes('your own account') ? t('admin.cannotChangeSelf') : error);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const statCards = stats
+    ? [
+        { label: t('admin.stats.users'), value: stats.users },
+        { label: t('admin.stats.admins'), value: stats.admins },
+        { label: t('admin.stats.disabledUsers'), value: stats.disabledUsers },
+        { label: t('admin.stats.tasks'), value: stats.tasks },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen grid-pattern flex flex-col">
+      <AuthHeader />
+
+      <main className="flex-1 w-full max-w-6xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center gap-1 text-sm text-amber-700 dark:text-gray-400 hover:text-amber-900 dark:hover:text-white transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          {t('sessions.backToTasks')}
+        </Link>
+
+        <div className="mt-4">
+          <h2 className="text-2xl font-bold text-amber-900 dark:text-white">
+            {t('admin.title')}
+          </h2>
+          <p className="text-sm text-amber-700 dark:text-gray-400 mt-1">
+            {t('admin.subtitle')}
+          </p>
+        </div>
+
+        {stats && (
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {statCards.map((card) => (
+              <div key={card.label} className={cardClassName}>
+                <p className="text-sm text-amber-700 dark:text-gray-400">{card.label}</p>
+                <p className="text-2xl font-bold text-amber-900 dark:text-white mt-1">{card.value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {stats && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {TASK_STATUSES.map((status) => (
+              <span key={status} className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[status].badge}`}>
+                {t(`tasks.statuses.${status}`)}: {stats.tasksByStatus[status]}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="w-full sm:w-72 px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm"
+            placeholder={t('admin.searchPlaceholder')}
+          />
+          <span className="text-sm text-amber-700 dark:text-gray-400">
+            {t('admin.userCount', { count: total })}
+          </span>
+        </div>
+
+        {loading && users.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+            <button
+              onClick={() => goToPage(page)}
+              className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              {t('common.retry', { defaultValue: 'Retry' })}
+            </button>
+          </div>
+        ) : users.length === 0 ? (
+          <p className="py-12 text-center text-amber-700 dark:text-gray-400">
+            {t('admin.noUsers')}
+          </p>
+        ) : (
+          <div className={`mt-4 overflow-x-auto ${cardClassName} p-0`}>
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase text-amber-700 dark:text-gray-400 border-b border-gray-200/50 dark:border-gray-600/50">
+                <tr>
+                  <th className="px-4 py-3">{t('admin.columns.user')}</th>
+                  <th className="px-4 py-3">{t('admin.columns.role')}</th>
+                  <th className="px-4 py-3">{t('admin.columns.status')}</th>
+                  <th className="px-4 py-3">{t('admin.columns.tasks')}</th>
+                  <th className="px-4 py-3">{t('admin.columns.joined')}</th>
+                  <th className="px-4 py-3 text-right">{t('admin.columns.actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => {
+                  const isSelf = user.id === currentUserId;
+                  const isUpdating = updatingId === user.id;
+                  return (
+                    <tr key={user.id} className="border-b last:border-b-0 border-gray-200/50 dark:border-gray-600/50">
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-amber-900 dark:text-white">{user.username}</span>
+                          {user.twoFactorEnabled && (
+                            <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+                              2FA
+                            </span>
+                          )}
+                        </div>
+                        {user.email && (
+                          <p className="text-xs text-amber-600/80 dark:text-gray-500">{user.email}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                          user.role === 'ADMIN'
+                            ? 'bg-amber-100 text-amber-800 dark:bg-blue-900/40 dark:text-blue-300'
+                            : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                        }`}>
+                          {t(`admin.roles.${user.role}`)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                          user.disabledAt
+                            ? 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
+                            : 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                        }`}>
+                          {user.disabledAt ? t('admin.disabled') : t('admin.active')}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-amber-900 dark:text-gray-200">
+                        <span title={TASK_STATUSES.map((status) => `${t(`tasks.statuses.${status}`)}: ${user.taskCounts[status]}`).join('\n')}>
+                          {t('admin.taskSummary', { count: user.taskCount, completed: user.taskCounts.COMPLETED })}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-amber-700 dark:text-gray-400">
+                        {formatDate(user.createdAt)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {/* The API refuses changes to the signed-in admin, so no actions are offered for that row */}
+                        {!isSelf && (
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => handleUpdate(user, { role: user.role === 'ADMIN' ? 'USER' : 'ADMIN' })}
+                              disabled={isUpdating}
+                              className={actionClassName}
+                            >
+                              {user.role === 'ADMIN' ? t('admin.removeAdmin') : t('admin.makeAdmin')}
+                            </button>
+                            <button
+                              onClick={() => handleUpdate(user, { disabled: !user.disabledAt })}
+                              disabled={isUpdating}
+                              className={user.disabledAt
+                                ? actionClassName
+                                : 'px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors disabled:opacity-50'}
+                            >
+                              {user.disabledAt ? t('admin.enable') : t('admin.disable')}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-center gap-4">
+            <button onClick={() => goToPage(page - 1)} disabled={loading || page <= 1} className={actionClassName}>
+              {t('admin.previous')}
+            </button>
+            <span className="text-sm text-amber-700 dark:text-gray-400">
+              {t('admin.pageOf', { page, totalPages })}
+            </span>
+            <button onClick={() => goToPage(page + 1)} disabled={loading || page >= totalPages} className={actionClassName}>
+              {t('admin.next')}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
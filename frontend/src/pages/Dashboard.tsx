@@ -3,24 +3,57 @@ import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import { customToast } from '../utils/toast';
-import { logout } from '../store/slices/authSlice';
-import { fetchTasks } from '../store/slices/taskSlice';
+import { logoutUser } from '../store/slices/authSlice';
+import { fetchTaskStats, TASK_STATUSES } from '../store/slices/taskSlice';
+import { fetchTags } from '../store/slices/tagSlice';
+import { fetchProjects } from '../store/slices/projectSlice';
+import type { ProjectFilter, TaskFilter, TaskStatus } from '../store/slices/taskSlice';
 import { RootState, AppDispatch } from '../store';
 import { useTheme } from '../hooks/useTheme';
+import { useTaskView } from '../hooks/useTaskView';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 import { LANGUAGES, Language } from '../i18n';
+import type { DueFilter } from '../utils/dueDate';
 import TaskList from '../components/TaskList';
+import TaskBoard from '../components/TaskBoard';
 import TaskForm from '../components/TaskForm';
+import TagChip from '../components/TagChip';
+import TagManager from '../components/TagManager';
+import ProjectSidebar from '../components/ProjectSidebar';
+
+// Heroicons outline paths used as the faded background of each statistics card
+const FILTER_ICONS: Record<TaskFilter, string> = {
+  all: 'M4 6h16M4 10h16M4 14h16M4 18h16',
+  PENDING: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+  IN_PROGRESS: 'M13 10V3L4 14h7v7l9-11h-7z',
+  BLOCKED: 'M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636',
+  COMPLETED: 'M5 13l4 4L19 7',
+  CANCELLED: 'M6 18L18 6M6 6l12 12',
+};
+
+// Search waits for a short pause in typing before asking the server
+const SEARCH_DEBOUNCE_MS = 300;
 
 const Dashboard: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { theme, toggleTheme } = useTheme();
+  const { view, toggleView } = useTaskView();
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
   const { user, isAuthenticated } = useSelector((state: RootState) => state.auth);
-  const { tasks } = useSelector((state: RootState) => state.tasks);
+  const { stats } = useSelector((state: RootState) => state.tasks);
+  const { tags } = useSelector((state: RootState) => state.tags);
+  const { projects } = useSelector((state: RootState) => state.projects);
   const [isLangDropdownOpen, setIsLangDropdownOpen] = useState(false);
   const [showTaskForm, setShowTaskForm] = useState(false);
-  const [taskFilter, setTaskFilter] = useState<'all' | 'COMPLETED' | 'PENDING'>('all');
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>('all');
+  const [dueFilter, setDueFilter] = useState<DueFilter>('all');
+  const [tagFilter, setTagFilter] = useState<number[]>([]);
+  const [projectFilter, setProjectFilter] = useState<ProjectFilter | undefined>(undefined);
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const searchQuery = useDebouncedValue(searchInput.trim(), SEARCH_DEBOUNCE_MS);
+  const [showTagManager, setShowTagManager] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   React.useEffect(() => {
@@ -31,10 +64,30 @@ const Dashboard: React.FC = () => {
 
   React.useEffect(() => {
     if (isAuthenticated) {
-      dispatch(fetchTasks());
+      dispatch(fetchTags());
+      dispatch(fetchProjects());
     }
   }, [isAuthenticated, dispatch]);
 
+  // Statistics follow the selected project
+  React.useEffect(() => {
+    if (isAuthenticated) {
+      dispatch(fetchTaskStats({ projectId: projectFilter }));
+    }
+  }, [isAuthenticated, dispatch, projectFilter]);
+
+  // Drop deleted tags from the filter
+  React.useEffect(() => {
+    setTagFilter((current) => {
+      const remaining = current.filter((id) => tags.some((tag) => tag.id === id));
+      return remaining.length === current.length ? current : remaining;
+    });
+  }, [tags]);
+
+  const toggleTagFilter = (tagId: number) => {
+    setTagFilter((current) => current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]);
+  };
+
   const changeLanguage = (lng: Language) => {
     i18n.changeLanguage(lng);
     setIsLangDropdownOpen(false);
@@ -62,8 +115,8 @@ const Dashboard: React.FC = () => {
     };
   }, []);
 
-  const handleLogout = () => {
-    dispatch(logout());
+  const handleLogout = async () => {
+    await dispatch(logoutUser());
     customToast.success(t('auth.logoutSuccess'));
     navigate('/login');
   };
@@ -72,10 +125,20 @@ const Dashboard: React.FC = () => {
     return null;
   }
 
-  // Calculate task statistics
-  const totalTasks = tasks.length;
-  const completedTasks = tasks.filter(task => task.status === 'COMPLETED').length;
-  const pendingTasks = tasks.filter(task => task.status === 'PENDING').length;
+  // New tasks go to the selected project unless it is archived
+  const selectedProject = projects.find((project) => project.id === projectFilter);
+  const defaultProjectId = selectedProject && !selectedProject.archivedAt ? selectedProject.id : undefined;
+  const assigneeFilter = assignedToMe ? user.id : undefined;
+
+  // Task statistics come from the server so they cover every page, not just the loaded ones
+  const filterCards: { filter: TaskFilter; label: string; count: number }[] = [
+    { filter: 'all', label: t('tasks.title'), count: stats.total },
+    ...TASK_STATUSES.map((status: TaskStatus) => ({
+      filter: status,
+      label: t(`tasks.statuses.${status}`),
+      count: stats.byStatus[status],
+    })),
+  ];
 
   return (
     <div className="min-h-screen grid-pattern text-gray-900 dark:text-white">
@@ -148,6 +211,59 @@ const Dashboard: React.FC = () => {
                 )}
               </button>
 
+              {/* View Toggle */}
+              <button
+                onClick={toggleView}
+                className="p-2 rounded-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg border border-gray-200/50 dark:border-gray-600/50 hover:shadow-xl hover:scale-105 transition-all duration-300 text-amber-700 dark:text-gray-300"
+                title={view === 'list' ? t('tasks.boardView') : t('tasks.listView')}
+              >
+                {view === 'list' ? (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                  </svg>
+                )}
+              </button>
+
+              {/* Admin Link */}
+              {user?.role === 'ADMIN' && (
+                <button
+                  onClick={() => navigate('/admin')}
+                  className="p-2 rounded-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg border border-gray-200/50 dark:border-gray-600/50 hover:shadow-xl hover:scale-105 transition-all duration-300 text-amber-700 dark:text-gray-300"
+                  title={t('admin.title')}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                  </svg>
+                </button>
+              )}
+
+              {/* Trash Link */}
+              <button
+                onClick={() => navigate('/trash')}
+                className="p-2 rounded-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg border border-gray-200/50 dark:border-gray-600/50 hover:shadow-xl hover:scale-105 transition-all duration-300 text-amber-700 dark:text-gray-300"
+                title={t('trash.title')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+
+              {/* Settings Link */}
+              <button
+                onClick={() => navigate('/settings')}
+                className="p-2 rounded-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg border border-gray-200/50 dark:border-gray-600/50 hover:shadow-xl hover:scale-105 transition-all duration-300 text-amber-700 dark:text-gray-300"
+                title={t('account.title')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              </button>
+
               {/* Logout Button */}
               <button
                 onClick={handleLogout}
@@ -164,95 +280,125 @@ const Dashboard: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-        <div className="px-4 py-6 sm:px-0">
-          <div className="text-center">
+        <div className="px-4 py-6 sm:px-0 lg:flex lg:gap-8">
+          <ProjectSidebar selected={projectFilter} onSelect={setProjectFilter} />
+
+          <div className="flex-1 min-w-0 text-center">
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
-              <div 
-                onClick={() => setTaskFilter('all')}
-                className={`group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer relative ${
-                  taskFilter === 'all' 
-                    ? 'border-amber-400 dark:border-blue-400' 
-                    : 'border-gray-200/50 dark:border-gray-600/50'
-                }`}
-              >
-                <div className="absolute -left-10 top-1/2 transform -translate-y-1/2 -rotate-12 opacity-8 dark:opacity-5 pointer-events-none">
-                  <svg className="h-32 w-32 text-amber-600 dark:text-sky-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
-                  </svg>
-                </div>
-                <div className="p-4 text-center relative z-10 h-16 flex items-center justify-center">
-                  <div className="relative">
-                    <div className="text-xl font-bold text-amber-700 dark:text-gray-300 transition-all duration-300 ease-in-out group-hover:-translate-y-8 group-hover:opacity-0">
-                      {t('tasks.title')}
-                    </div>
-                    <div className="absolute inset-0 flex items-center justify-center text-3xl font-bold text-amber-800 dark:text-white opacity-0 translate-y-8 transition-all duration-300 ease-in-out group-hover:opacity-100 group-hover:translate-y-0">
-                      {totalTasks}
-                    </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-6 mt-8 lg:mt-0">
+              {filterCards.map(({ filter, label, count }) => (
+                <div 
+                  key={filter}
+                  onClick={() => setTaskFilter(filter)}
+                  className={`group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer relative ${
+                    taskFilter === filter 
+                      ? 'border-amber-400 dark:border-blue-400' 
+                      : 'border-gray-200/50 dark:border-gray-600/50'
+                  }`}
+                >
+                  <div className="absolute -left-10 top-1/2 transform -translate-y-1/2 -rotate-12 opacity-8 dark:opacity-5 pointer-events-none">
+                    <svg className="h-32 w-32 text-amber-600 dark:text-sky-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d={FILTER_ICONS[filter]} />
+                    </svg>
                   </div>
-                </div>
-              </div>
-
-              <div 
-                onClick={() => setTaskFilter('PENDING')}
-                className={`group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer relative ${
-                  taskFilter === 'PENDING' 
-                    ? 'border-amber-400 dark:border-blue-400' 
-                    : 'border-gray-200/50 dark:border-gray-600/50'
-                }`}
-              >
-                <div className="absolute -left-10 top-1/2 transform -translate-y-1/2 -rotate-12 opacity-8 dark:opacity-5 pointer-events-none">
-                  <svg className="h-32 w-32 text-amber-600 dark:text-sky-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-                <div className="p-4 text-center relative z-10 h-16 flex items-center justify-center">
-                  <div className="relative">
-                    <div className="text-xl font-bold text-amber-700 dark:text-gray-300 transition-all duration-300 ease-in-out group-hover:-translate-y-8 group-hover:opacity-0">
-                      {t('tasks.pending')}
-                    </div>
-                    <div className="absolute inset-0 flex items-center justify-center text-3xl font-bold text-amber-800 dark:text-white opacity-0 translate-y-8 transition-all duration-300 ease-in-out group-hover:opacity-100 group-hover:translate-y-0">
-                      {pendingTasks}
+                  <div className="p-4 text-center relative z-10 h-16 flex items-center justify-center">
+                    <div className="relative">
+                      <div className="text-lg font-bold text-amber-700 dark:text-gray-300 transition-all duration-300 ease-in-out group-hover:-translate-y-8 group-hover:opacity-0 whitespace-nowrap">
+                        {label}
+                      </div>
+                      <div className="absolute inset-0 flex items-center justify-center text-3xl font-bold text-amber-800 dark:text-white opacity-0 translate-y-8 transition-all duration-300 ease-in-out group-hover:opacity-100 group-hover:translate-y-0">
+                        {count}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
+              ))}
+            </div>
+            
+            {/* Search */}
+            <div className="relative max-w-xl mx-auto mt-6">
+              <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-amber-600 dark:text-gray-400 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setSearchInput('')}
+                placeholder={t('tasks.searchPlaceholder')}
+                className="w-full pl-10 pr-4 py-2 text-sm rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm shadow-lg text-amber-900 dark:text-white placeholder-amber-600/70 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 dark:focus:ring-blue-500"
+              />
+            </div>
 
-              <div 
-                onClick={() => setTaskFilter('COMPLETED')}
-                className={`group bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 backdrop-blur-sm overflow-hidden shadow-lg rounded-xl border transition-all duration-300 hover:shadow-xl hover:scale-105 cursor-pointer relative ${
-                  taskFilter === 'COMPLETED' 
-                    ? 'border-amber-400 dark:border-blue-400' 
-                    : 'border-gray-200/50 dark:border-gray-600/50'
-                }`}
+            {/* Assignee View */}
+            <div className="inline-flex mt-4 p-1 rounded-full backdrop-blur-sm shadow border bg-gray-50/60 dark:bg-gray-800/60 border-gray-200/50 dark:border-gray-600/50">
+              {[false, true].map((mine) => (
+                <button
+                  key={String(mine)}
+                  onClick={() => setAssignedToMe(mine)}
+                  className={`px-4 py-1 rounded-full text-sm font-medium transition-colors ${
+                    assignedToMe === mine
+                      ? 'bg-amber-100/80 dark:bg-blue-900/40 text-amber-900 dark:text-blue-300'
+                      : 'text-amber-700 dark:text-gray-300'
+                  }`}
+                >
+                  {mine ? t('tasks.assignedToMe') : t('tasks.assignedToAnyone')}
+                </button>
+              ))}
+            </div>
+
+            {/* Due Date Filter */}
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              {(['all', 'overdue', 'today', 'week'] as DueFilter[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setDueFilter(option)}
+                  className={`px-4 py-1.5 rounded-full text-sm font-medium backdrop-blur-sm shadow border transition-all duration-300 hover:scale-105 ${
+                    dueFilter === option
+                      ? 'bg-amber-100/80 dark:bg-blue-900/40 border-amber-400 dark:border-blue-400 text-amber-900 dark:text-blue-300'
+                      : 'bg-gray-50/60 dark:bg-gray-800/60 border-gray-200/50 dark:border-gray-600/50 text-amber-700 dark:text-gray-300'
+                  }`}
+                >
+                  {t(`tasks.dueFilter.${option}`)}
+                </button>
+              ))}
+            </div>
+
+            {/* Tag Filter */}
+            <div className="flex flex-wrap justify-center items-center gap-2 mt-4">
+              {tags.map((tag) => (
+                <TagChip
+                  key={tag.id}
+                  tag={tag}
+                  selected={tagFilter.includes(tag.id)}
+                  onClick={() => toggleTagFilter(tag.id)}
+                />
+              ))}
+              <button
+                onClick={() => setShowTagManager(true)}
+                className="px-3 py-0.5 rounded-full text-xs font-medium border border-dashed border-amber-400 dark:border-gray-500 text-amber-700 dark:text-gray-400 hover:scale-105 transition-transform"
               >
-                <div className="absolute -left-10 top-1/2 transform -translate-y-1/2 -rotate-12 opacity-8 dark:opacity-5 pointer-events-none">
-                  <svg className="h-32 w-32 text-amber-600 dark:text-sky-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 13l4 4L19 7" />
-                  </svg>
-                </div>
-                <div className="p-4 text-center relative z-10 h-16 flex items-center justify-center">
-                  <div className="relative">
-                    <div className="text-xl font-bold text-amber-700 dark:text-gray-300 transition-all duration-300 ease-in-out group-hover:-translate-y-8 group-hover:opacity-0">
-                      {t('tasks.completed')}
-                    </div>
-                    <div className="absolute inset-0 flex items-center justify-center text-3xl font-bold text-amber-800 dark:text-white opacity-0 translate-y-8 transition-all duration-300 ease-in-out group-hover:opacity-100 group-hover:translate-y-0">
-                      {completedTasks}
-                    </div>
-                  </div>
-                </div>
-              </div>
+                {t('tags.manageTags')}
+              </button>
             </div>
-            
-            
-            {/* Task List */}
+
+            {/* Task List or Board */}
             <div className="mt-12">
-              <TaskList filter={taskFilter} />
+              {view === 'board' ? (
+                <TaskBoard filter={taskFilter} dueFilter={dueFilter} tagFilter={tagFilter} projectFilter={projectFilter} assigneeFilter={assigneeFilter} searchQuery={searchQuery} />
+              ) : (
+                <TaskList filter={taskFilter} dueFilter={dueFilter} tagFilter={tagFilter} projectFilter={projectFilter} assigneeFilter={assigneeFilter} searchQuery={searchQuery} />
+              )}
             </div>
+
+            {/* Tag Manager Modal */}
+            {showTagManager && (
+              <TagManager onClose={() => setShowTagManager(false)} />
+            )}
             
             {/* Task Form Modal */}
             {showTaskForm && (
-              <TaskForm onClose={() => setShowTaskForm(false)} />
+              <TaskForm defaultProjectId={defaultProjectId} onClose={() => setShowTaskForm(false)} />
             )}
           </div>
         </div>
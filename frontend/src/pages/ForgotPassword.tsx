@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useTranslation } from 'react-i18next';
+import { useDispatch } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { customToast } from '../utils/toast';
+import { requestPasswordReset } from '../store/slices/authSlice';
+import { AppDispatch } from '../store';
+import AuthHeader from '../components/AuthHeader';
+
+const ForgotPasswordSchema = z.object({
+  email: z.string().trim().min(1, 'emailRequired').email('emailInvalid'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof ForgotPasswordSchema>;
+
+const ForgotPassword: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(ForgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await dispatch(requestPasswordReset(data.email)).unwrap();
+      setSentTo(data.email);
+    } catch (error: any) {
+      customToast.error(error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen grid-pattern flex flex-col">
+      <AuthHeader />
+      <div className="flex-1 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white/20 dark:bg-gray-900/30 backdrop-blur-lg border border-white/30 dark:border-gray-700/30 rounded-lg shadow-xl p-8 space-y-8">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold text-amber-900 dark:text-white">
+            {t('auth.forgotPasswordTitle')}
+          </h2>
+          <p className="mt-2 text-amber-700 dark:text-gray-400">
+            {sentTo ? t('auth.resetLinkSent', { email: sentTo }) : t('auth.forgotPasswordSubtitle')}
+          </p>
+        </div>
+
+        {!sentTo && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div>
+              <input
+                {...register('email')}
+                type="email"
+                id="email"
+                autoComplete="email"
+                className="appearance-none relative block w-full px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm"
+                placeholder={t('auth.email')}
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                  {t(`auth.${errors.email.message}`)}
+                </p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              {isSubmitting ? t('common.loading') : t('auth.sendResetLink')}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link
+            to="/login"
+            className="text-sm font-medium text-amber-700 hover:text-amber-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            {t('auth.backToLogin')}
+          </Link>
+        </div>
+      </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -6,9 +6,10 @@ import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
 import { Link, useNavigate } from 'react-router-dom';
 import { customToast } from '../utils/toast';
-import { loginUser, clearError } from '../store/slices/authSlice';
+import { loginUser, verifyTwoFactorLogin, cancelTwoFactorLogin, clearError } from '../store/slices/authSlice';
 import { RootState, AppDispatch } from '../store';
 import AuthHeader from '../components/AuthHeader';
+import LockoutNotice from '../components/LockoutNotice';
 
 const LoginSchema = z.object({
   username: z.string().min(1, 'usernameRequired'),
@@ -21,8 +22,13 @@ const Login: React.FC = () => {
   const { t } = useTranslation();
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
-  const { loading, error, isAuthenticated } = useSelector((state: RootState) => state.auth);
+  const { loading, isAuthenticated, retryAt, challengeToken } = useSelector((state: RootState) => state.auth);
   const [showPassword, setShowPassword] = useState(false);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const remainingMs = retryAt === null ? 0 : retryAt - now;
+  const isLockedOut = remainingMs > 0;
 
   const {
     register,
@@ -41,23 +47,88 @@ const Login: React.FC = () => {
   React.useEffect(() => {
     return () => {
       dispatch(clearError());
+      dispatch(cancelTwoFactorLogin());
     };
   }, [dispatch]);
 
+  // Ticks once a second while locked out so the countdown and the submit button follow the clock
+  React.useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
   const onSubmit = async (data: LoginFormData) => {
     try {
-      await dispatch(loginUser(data)).unwrap();
+      const result = await dispatch(loginUser(data)).unwrap();
+      // Accounts with two-factor authentication continue with the code step
+      if ('challengeToken' in result) {
+        return;
+      }
       customToast.success(t('auth.loginSuccess'));
       navigate('/dashboard');
     } catch (error: any) {
       console.error('Login error:', error);
+      // Lockouts and rate limits are explained next to the form
+      if (error.includes('locked') || error.includes('Too many')) {
+        return;
+      }
       const errorMessage = error.includes('Invalid') || error.includes('credentials') ? 
         t('auth.invalidCredentials') : 
-        error;
+        error.includes('disabled') ? t('auth.accountDisabled') : error;
       customToast.error(errorMessage);
     }
   };
 
+  const backToPassword = () => {
+    dispatch(cancelTwoFactorLogin());
+    setCode('');
+    setUseRecoveryCode(false);
+  };
+
+  const onVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      return;
+    }
+
+    try {
+      await dispatch(verifyTwoFactorLogin(code.trim())).unwrap();
+      customToast.success(t('auth.loginSuccess'));
+      navigate('/dashboard');
+    } catch (error: any) {
+      if (error.includes('locked') || error.includes('Too many')) {
+        return;
+      }
+      // The challenge only lives a few minutes, after that the password is needed again
+      if (error.includes('expired')) {
+        backToPassword();
+        customToast.error(t('auth.twoFactorExpired'));
+        return;
+      }
+      if (error.includes('disabled')) {
+        backToPassword();
+        customToast.error(t('auth.accountDisabled'));
+        return;
+      }
+      setCode('');
+      customToast.error(error.includes('Invalid verification code') ? t('auth.invalidCode') : error);
+    }
+  };
+
+  const submitLabel = (label: string) => loading ? (
+    <div className="flex items-center">
+      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+      </svg>
+      {t('common.loading')}
+    </div>
+  ) : label;
+
   return (
     <div className="min-h-screen grid-pattern flex flex-col">
       <AuthHeader />
@@ -65,13 +136,68 @@ const Login: React.FC = () => {
       <div className="max-w-md w-full bg-white/20 dark:bg-gray-900/30 backdrop-blur-lg border border-white/30 dark:border-gray-700/30 rounded-lg shadow-xl p-8 space-y-8">
         <div className="text-center">
           <h2 className="text-3xl font-bold text-amber-900 dark:text-white">
-            {t('auth.loginTitle')}
+            {challengeToken ? t('auth.twoFactorTitle') : t('auth.loginTitle')}
           </h2>
           <p className="mt-2 text-amber-700 dark:text-gray-400">
-            {t('auth.loginSubtitle')}
+            {challengeToken
+              ? useRecoveryCode ? t('auth.recoveryCodeSubtitle') : t('auth.twoFactorSubtitle')
+              : t('auth.loginSubtitle')}
           </p>
         </div>
 
+        {challengeToken ? (
+        <form className="mt-8 space-y-6" onSubmit={onVerifyCode}>
+          <div>
+            <input
+              key={useRecoveryCode ? 'recovery' : 'totp'}
+              type="text"
+              id="code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              maxLength={useRecoveryCode ? 20 : 6}
+              autoFocus
+              className="appearance-none relative block w-full px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm text-center tracking-widest"
+              placeholder={useRecoveryCode ? t('auth.recoveryCode') : t('auth.authenticatorCode')}
+            />
+            <div className="mt-2 text-right">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                }}
+                className="text-sm font-medium text-amber-700 hover:text-amber-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                {useRecoveryCode ? t('auth.useAuthenticatorCode') : t('auth.useRecoveryCode')}
+              </button>
+            </div>
+          </div>
+
+          {isLockedOut && <LockoutNotice remainingMs={remainingMs} />}
+
+          <div>
+            <button
+              type="submit"
+              disabled={loading || isLockedOut || !code.trim()}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              {submitLabel(t('auth.verifyCode'))}
+            </button>
+          </div>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={backToPassword}
+              className="text-sm font-medium text-amber-700 hover:text-amber-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {t('auth.backToLogin')}
+            </button>
+          </div>
+        </form>
+        ) : (
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="space-y-4">
             <div>
@@ -121,27 +247,26 @@ const Login: React.FC = () => {
                   {t(`auth.${errors.password.message}`)}
                 </p>
               )}
+              <div className="mt-2 text-right">
+                <Link
+                  to="/forgot-password"
+                  className="text-sm font-medium text-amber-700 hover:text-amber-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {t('auth.forgotPassword')}
+                </Link>
+              </div>
             </div>
           </div>
 
+          {isLockedOut && <LockoutNotice remainingMs={remainingMs} />}
 
           <div>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || isLockedOut}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600"
             >
-              {loading ? (
-                <div className="flex items-center">
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  {t('common.loading')}
-                </div>
-              ) : (
-                t('auth.loginButton')
-              )}
+              {submitLabel(t('auth.loginButton'))}
             </button>
           </div>
 
@@ -157,6 +282,7 @@ const Login: React.FC = () => {
             </p>
           </div>
         </form>
+        )}
       </div>
       </div>
     </div>
@@ -9,19 +9,13 @@ import { customToast } from '../utils/toast';
 import { registerUser, clearError } from '../store/slices/authSlice';
 import { RootState, AppDispatch } from '../store';
 import AuthHeader from '../components/AuthHeader';
+import RequirementList from '../components/RequirementList';
+import { usernameRule, passwordRule, optionalEmailRule, getUsernameChecks, getPasswordChecks } from '../utils/authValidation';
 
 const RegisterSchema = z.object({
-  username: z
-    .string()
-    .min(1, 'usernameRequired')
-    .min(3, 'usernameMinLength')
-    .max(20, 'usernameMaxLength')
-    .regex(/^[a-zA-Z0-9_]+$/, 'usernameInvalid'),
-  password: z
-    .string()
-    .min(1, 'passwordRequired')
-    .min(6, 'passwordMinLength')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&"])[A-Za-z\d@$!%*?&"]+$/, 'passwordRequirements'),
+  username: usernameRule,
+  email: optionalEmailRule,
+  password: passwordRule,
   confirmPassword: z
     .string()
     .min(1, 'confirmPasswordRequired'),
@@ -54,19 +48,10 @@ const Register: React.FC = () => {
   const watchedConfirmPassword = watch('confirmPassword', '');
 
   // Username validation checks
-  const usernameChecks = {
-    length: watchedUsername.length >= 3 && watchedUsername.length <= 20,
-    chars: watchedUsername.length > 0 && /^[a-zA-Z0-9_]+$/.test(watchedUsername)
-  };
+  const usernameChecks = getUsernameChecks(watchedUsername);
 
   // Password validation checks
-  const passwordChecks = {
-    length: watchedPassword.length >= 6,
-    lowercase: /[a-z]/.test(watchedPassword),
-    uppercase: /[A-Z]/.test(watchedPassword),
-    number: /\d/.test(watchedPassword),
-    special: /[@$!%*?&"]/.test(watchedPassword)
-  };
+  const passwordChecks = getPasswordChecks(watchedPassword);
 
   // Confirm password validation
   const confirmPasswordValid = watchedConfirmPassword.length > 0 && watchedPassword === watchedConfirmPassword;
@@ -85,13 +70,15 @@ const Register: React.FC = () => {
 
   const onSubmit = async (data: RegisterFormData) => {
     try {
-      await dispatch(registerUser(data)).unwrap();
+      await dispatch(registerUser({ ...data, email: data.email || undefined })).unwrap();
       customToast.success(t('auth.registerSuccess'));
       navigate('/dashboard');
     } catch (error: any) {
       console.error('Registration error:', error);
       const errorMessage = error.includes('Username already exists') ? 
         t('auth.usernameExists') : 
+        error.includes('Too many') ?
+        t('auth.tooManyAttempts') :
         error;
       customToast.error(errorMessage);
     }
@@ -126,24 +113,28 @@ const Register: React.FC = () => {
                   {t(`auth.${errors.username.message}`)}
                 </p>
               )}
-              <div className="mt-2 text-xs">
-                <ul className="space-y-1">
-                  <li className={`transition-colors duration-200 ${
-                    usernameChecks.length 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {usernameChecks.length ? '✓' : '•'} {t('auth.usernameLength')}
-                  </li>
-                  <li className={`transition-colors duration-200 ${
-                    usernameChecks.chars 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {usernameChecks.chars ? '✓' : '•'} {t('auth.usernameChars')}
-                  </li>
-                </ul>
-              </div>
+              <RequirementList requirements={[
+                { met: usernameChecks.length, label: t('auth.usernameLength') },
+                { met: usernameChecks.chars, label: t('auth.usernameChars') },
+              ]} />
+            </div>
+
+            <div>
+              <input
+                {...register('email')}
+                type="email"
+                id="email"
+                className="appearance-none relative block w-full px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm"
+                placeholder={t('auth.emailOptional')}
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                  {t(`auth.${errors.email.message}`)}
+                </p>
+              )}
+              <p className="mt-2 text-xs text-amber-600 dark:text-gray-400">
+                {t('auth.emailHint')}
+              </p>
             </div>
 
             <div>
@@ -178,45 +169,13 @@ const Register: React.FC = () => {
                   {t(`auth.${errors.password.message}`)}
                 </p>
               )}
-              <div className="mt-2 text-xs">
-                <ul className="space-y-1">
-                  <li className={`transition-colors duration-200 ${
-                    passwordChecks.length 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {passwordChecks.length ? '✓' : '•'} {t('auth.passwordMin6')}
-                  </li>
-                  <li className={`transition-colors duration-200 ${
-                    passwordChecks.lowercase 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {passwordChecks.lowercase ? '✓' : '•'} {t('auth.passwordLowercase')}
-                  </li>
-                  <li className={`transition-colors duration-200 ${
-                    passwordChecks.uppercase 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {passwordChecks.uppercase ? '✓' : '•'} {t('auth.passwordUppercase')}
-                  </li>
-                  <li className={`transition-colors duration-200 ${
-                    passwordChecks.number 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {passwordChecks.number ? '✓' : '•'} {t('auth.passwordNumber')}
-                  </li>
-                  <li className={`transition-colors duration-200 ${
-                    passwordChecks.special 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {passwordChecks.special ? '✓' : '•'} {t('auth.passwordSpecial')}
-                  </li>
-                </ul>
-              </div>
+              <RequirementList requirements={[
+                { met: passwordChecks.length, label: t('auth.passwordMin6') },
+                { met: passwordChecks.lowercase, label: t('auth.passwordLowercase') },
+                { met: passwordChecks.uppercase, label: t('auth.passwordUppercase') },
+                { met: passwordChecks.number, label: t('auth.passwordNumber') },
+                { met: passwordChecks.special, label: t('auth.passwordSpecial') },
+              ]} />
             </div>
 
             <div>
@@ -251,17 +210,9 @@ const Register: React.FC = () => {
                   {t(`auth.${errors.confirmPassword.message}`)}
                 </p>
               )}
-              <div className="mt-2 text-xs">
-                <ul className="space-y-1">
-                  <li className={`transition-colors duration-200 ${
-                    confirmPasswordValid 
-                      ? 'text-green-600 dark:text-green-400' 
-                      : 'text-amber-600 dark:text-gray-400'
-                  }`}>
-                    {confirmPasswordValid ? '✓' : '•'} {t('auth.passwordsMatch')}
-                  </li>
-                </ul>
-              </div>
+              <RequirementList requirements={[
+                { met: confirmPasswordValid, label: t('auth.passwordsMatch') },
+              ]} />
             </div>
           </div>
 
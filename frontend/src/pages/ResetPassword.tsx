@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useTranslation } from 'react-i18next';
+import { useDispatch } from 'react-redux';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { customToast } from '../utils/toast';
+import { passwordRule, getPasswordChecks } from '../utils/authValidation';
+import { resetPassword, logout } from '../store/slices/authSlice';
+import { AppDispatch } from '../store';
+import AuthHeader from '../components/AuthHeader';
+import RequirementList from '../components/RequirementList';
+
+const ResetPasswordSchema = z.object({
+  password: passwordRule,
+  confirmPassword: z
+    .string()
+    .min(1, 'confirmPasswordRequired'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'passwordsNotMatch',
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormData = z.infer<typeof ResetPasswordSchema>;
+
+const inputClassName = 'appearance-none relative block w-full px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm';
+
+const ResetPassword: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [showPassword, setShowPassword] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(ResetPasswordSchema),
+  });
+
+  const passwordChecks = getPasswordChecks(watch('password', ''));
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await dispatch(resetPassword({ token, password: data.password })).unwrap();
+      // Every session ended with the reset, including one in this browser
+      dispatch(logout());
+      customToast.success(t('auth.passwordResetSuccess'));
+      navigate('/login');
+    } catch (error: any) {
+      customToast.error(error.includes('Invalid or expired') ? t('auth.resetLinkInvalid') : error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen grid-pattern flex flex-col">
+      <AuthHeader />
+      <div className="flex-1 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white/20 dark:bg-gray-900/30 backdrop-blur-lg border border-white/30 dark:border-gray-700/30 rounded-lg shadow-xl p-8 space-y-8">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold text-amber-900 dark:text-white">
+            {t('auth.resetPasswordTitle')}
+          </h2>
+          <p className="mt-2 text-amber-700 dark:text-gray-400">
+            {token ? t('auth.resetPasswordSubtitle') : t('auth.resetLinkInvalid')}
+          </p>
+        </div>
+
+        {token && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <input
+                  {...register('password')}
+                  type={showPassword ? 'text' : 'password'}
+                  id="password"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                  placeholder={t('account.newPassword')}
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${errors.password.message}`)}
+                  </p>
+                )}
+                <RequirementList requirements={[
+                  { met: passwordChecks.length, label: t('auth.passwordMin6') },
+                  { met: passwordChecks.lowercase, label: t('auth.passwordLowercase') },
+                  { met: passwordChecks.uppercase, label: t('auth.passwordUppercase') },
+                  { met: passwordChecks.number, label: t('auth.passwordNumber') },
+                  { met: passwordChecks.special, label: t('auth.passwordSpecial') },
+                ]} />
+              </div>
+
+              <div>
+                <input
+                  {...register('confirmPassword')}
+                  type={showPassword ? 'text' : 'password'}
+                  id="confirmPassword"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                  placeholder={t('auth.confirmPassword')}
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${errors.confirmPassword.message}`)}
+                  </p>
+                )}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="text-sm text-amber-700 dark:text-gray-400 hover:text-amber-900 dark:hover:text-white transition-colors"
+              >
+                {showPassword ? t('auth.hidePassword') : t('auth.showPassword')}
+              </button>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-600 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              {isSubmitting ? t('common.loading') : t('auth.resetPasswordButton')}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link
+            to={token ? '/login' : '/forgot-password'}
+            className="text-sm font-medium text-amber-700 hover:text-amber-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            {token ? t('auth.backToLogin') : t('auth.requestNewLink')}
+          </Link>
+        </div>
+      </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
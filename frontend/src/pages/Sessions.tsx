@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link, useNavigate } from 'react-router-dom';
+import { customToast } from '../utils/toast';
+import { describeUserAgent } from '../utils/userAgent';
+import { logout, logoutAllDevices } from '../store/slices/authSlice';
+import { fetchSessions, revokeSession } from '../store/slices/sessionSlice';
+import type { Session } from '../store/slices/sessionSlice';
+import { RootState, AppDispatch } from '../store';
+import AuthHeader from '../components/AuthHeader';
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const Sessions: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { sessions, loading, error } = useSelector((state: RootState) => state.sessions);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [showLogoutAll, setShowLogoutAll] = useState(false);
+
+  useEffect(() => {
+    dispatch(fetchSessions());
+  }, [dispatch]);
+
+  const describeSession = (session: Session) => {
+    const { browser, os } = describeUserAgent(session.userAgent);
+    if (browser && os) {
+      return t('sessions.browserOnOs', { browser, os });
+    }
+    return browser || os || t('sessions.unknownDevice');
+  };
+
+  const handleRevoke = async (session: Session) => {
+    setRevokingId(session.id);
+    try {
+      await dispatch(revokeSession(session.id)).unwrap();
+      // Revoking this browser's own session is a regular logout
+      if (session.current) {
+        dispatch(logout());
+        customToast.success(t('auth.logoutSuccess'));
+        navigate('/login');
+        return;
+      }
+      customToast.success(t('sessions.sessionRevoked'));
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    try {
+      await dispatch(logoutAllDevices()).unwrap();
+      customToast.success(t('sessions.loggedOutEverywhere'));
+      navigate('/login');
+    } catch (error: any) {
+      customToast.error(error);
+      setShowLogoutAll(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen grid-pattern flex flex-col">
+      <AuthHeader />
+
+      <main className="flex-1 w-full max-w-3xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center gap-1 text-sm text-amber-700 dark:text-gray-400 hover:text-amber-900 dark:hover:text-white transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          {t('sessions.backToTasks')}
+        </Link>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+          <div>
+            <h2 className="text-2xl font-bold text-amber-900 dark:text-white">
+              {t('sessions.title')}
+            </h2>
+            <p className="text-sm text-amber-700 dark:text-gray-400 mt-1">
+              {t('sessions.subtitle')}
+            </p>
+          </div>
+          <button
+            onClick={() => setShowLogoutAll(true)}
+            disabled={sessions.length === 0}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors disabled:opacity-50"
+          >
+            {t('sessions.logoutAll')}
+          </button>
+        </div>
+
+        {loading && sessions.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+            <button
+              onClick={() => dispatch(fetchSessions())}
+              className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              {t('common.retry', { defaultValue: 'Retry' })}
+            </button>
+          </div>
+        ) : (
+          <ul className="mt-6 space-y-3">
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className={`flex flex-wrap items-center justify-between gap-4 p-4 rounded-xl border backdrop-blur-sm shadow-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60 ${
+                  session.current
+                    ? 'border-amber-400 dark:border-blue-400'
+                    : 'border-gray-200/50 dark:border-gray-600/50'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-amber-900 dark:text-white">
+                      {describeSession(session)}
+                    </span>
+                    {session.current && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-blue-900/40 dark:text-blue-300">
+                        {t('sessions.thisDevice')}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-amber-700 dark:text-gray-400 mt-1">
+                    {t('sessions.lastSeen', { date: formatDateTime(session.lastUsedAt) })}
+                    {session.ipAddress && ` · ${session.ipAddress}`}
+                  </p>
+                  <p className="text-xs text-amber-600/80 dark:text-gray-500 mt-0.5">
+                    {t('sessions.signedIn', { date: formatDateTime(session.createdAt) })}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId === session.id}
+                  className="px-3 py-1.5 text-sm border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  {session.current ? t('auth.logout') : t('sessions.revoke')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+
+      {/* Log Out Everywhere Modal */}
+      {showLogoutAll && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={(e) => e.target === e.currentTarget && setShowLogoutAll(false)}
+        >
+          <div className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-sm w-full p-6 border border-amber-200/50 dark:border-gray-600/50">
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {t('sessions.logoutAll')}
+            </h3>
+            <p className="text-amber-700 dark:text-gray-400 mb-6">
+              {t('sessions.logoutAllConfirm', { count: sessions.length })}
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setShowLogoutAll(false)}
+                className="px-4 py-2 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleLogoutAll}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors"
+              >
+                {t('sessions.logoutAll')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Sessions;
@@ -0,0 +1,376 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link, useNavigate } from 'react-router-dom';
+import { customToast } from '../utils/toast';
+import { usernameRule, passwordRule, optionalEmailRule, getUsernameChecks, getPasswordChecks } from '../utils/authValidation';
+import { changeUsername, changeEmail, changePassword, deleteAccount } from '../store/slices/authSlice';
+import { RootState, AppDispatch } from '../store';
+import AuthHeader from '../components/AuthHeader';
+import RequirementList from '../components/RequirementList';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+
+const UsernameSchema = z.object({
+  username: usernameRule,
+});
+
+const EmailSchema = z.object({
+  email: optionalEmailRule,
+});
+
+const PasswordSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, 'passwordRequired'),
+  newPassword: passwordRule,
+  confirmPassword: z
+    .string()
+    .min(1, 'confirmPasswordRequired'),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'passwordsNotMatch',
+  path: ['confirmPassword'],
+});
+
+type UsernameFormData = z.infer<typeof UsernameSchema>;
+type EmailFormData = z.infer<typeof EmailSchema>;
+type PasswordFormData = z.infer<typeof PasswordSchema>;
+
+const inputClassName = 'appearance-none relative block w-full px-3 py-2 border border-amber-300 dark:border-gray-600 placeholder-amber-600 dark:placeholder-gray-400 text-amber-900 dark:text-white rounded-md focus:outline-none focus:ring-amber-600 focus:border-amber-600 dark:bg-gray-700 bg-amber-50 sm:text-sm';
+const submitClassName = 'px-4 py-2 text-sm font-medium rounded-md text-white bg-amber-700 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors';
+const sectionClassName = 'p-6 rounded-xl border border-gray-200/50 dark:border-gray-600/50 backdrop-blur-sm shadow-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60';
+
+const Settings: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const usernameForm = useForm<UsernameFormData>({
+    resolver: zodResolver(UsernameSchema),
+    defaultValues: { username: user?.username ?? '' },
+  });
+
+  const emailForm = useForm<EmailFormData>({
+    resolver: zodResolver(EmailSchema),
+    defaultValues: { email: user?.email ?? '' },
+  });
+
+  const passwordForm = useForm<PasswordFormData>({
+    resolver: zodResolver(PasswordSchema),
+  });
+
+  const usernameChecks = getUsernameChecks(usernameForm.watch('username', ''));
+  const passwordChecks = getPasswordChecks(passwordForm.watch('newPassword', ''));
+
+  const onChangeUsername = async (data: UsernameFormData) => {
+    try {
+      const { user: renamed } = await dispatch(changeUsername(data.username)).unwrap();
+      usernameForm.reset({ username: renamed.username });
+      customToast.success(t('account.usernameChanged'));
+    } catch (error: any) {
+      customToast.error(error.includes('Username already exists') ? t('auth.usernameExists') : error);
+    }
+  };
+
+  const onChangeEmail = async (data: EmailFormData) => {
+    try {
+      const updated = await dispatch(changeEmail(data.email || null)).unwrap();
+      emailForm.reset({ email: updated.email ?? '' });
+      customToast.success(t('account.emailChanged'));
+    } catch (error: any) {
+      customToast.error(error.includes('Email already in use') ? t('account.emailInUse') : error);
+    }
+  };
+
+  const onChangePassword = async (data: PasswordFormData) => {
+    try {
+      await dispatch(changePassword({ currentPassword: data.currentPassword, newPassword: data.newPassword })).unwrap();
+      passwordForm.reset();
+      customToast.success(t('account.passwordChanged'));
+    } catch (error: any) {
+      customToast.error(error.includes('Current password is incorrect') ? t('account.currentPasswordIncorrect') : error);
+    }
+  };
+
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deletePassword) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      await dispatch(deleteAccount(deletePassword)).unwrap();
+      customToast.success(t('account.accountDeleted'));
+      navigate('/login');
+    } catch (error: any) {
+      customToast.error(error.includes('Password is incorrect') ? t('account.currentPasswordIncorrect') : error);
+      setIsDeleting(false);
+    }
+  };
+
+  const closeDeleteModal = () => {
+    setShowDeleteModal(false);
+    setDeletePassword('');
+  };
+
+  return (
+    <div className="min-h-screen grid-pattern flex flex-col">
+      <AuthHeader />
+
+      <main className="flex-1 w-full max-w-3xl mx-auto px-4 py-6 sm:px-6 lg:px-8 text-left">
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center gap-1 text-sm text-amber-700 dark:text-gray-400 hover:text-amber-900 dark:hover:text-white transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          {t('sessions.backToTasks')}
+        </Link>
+
+        <h2 className="mt-4 text-2xl font-bold text-amber-900 dark:text-white">
+          {t('account.title')}
+        </h2>
+
+        <div className="mt-6 space-y-6">
+          {/* Username */}
+          <section className={sectionClassName}>
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {t('account.changeUsername')}
+            </h3>
+            <form onSubmit={usernameForm.handleSubmit(onChangeUsername)} className="space-y-4">
+              <div>
+                <input
+                  {...usernameForm.register('username')}
+                  type="text"
+                  className={inputClassName}
+                  placeholder={t('auth.username')}
+                />
+                {usernameForm.formState.errors.username && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${usernameForm.formState.errors.username.message}`)}
+                  </p>
+                )}
+                <RequirementList requirements={[
+                  { met: usernameChecks.length, label: t('auth.usernameLength') },
+                  { met: usernameChecks.chars, label: t('auth.usernameChars') },
+                ]} />
+              </div>
+              <button
+                type="submit"
+                disabled={usernameForm.formState.isSubmitting || !usernameForm.formState.isDirty}
+                className={submitClassName}
+              >
+                {t('common.save')}
+              </button>
+            </form>
+          </section>
+
+          {/* Email */}
+          <section className={sectionClassName}>
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-1">
+              {t('account.email')}
+            </h3>
+            <p className="text-sm text-amber-700 dark:text-gray-400 mb-4">
+              {t('auth.emailHint')}
+            </p>
+            <form onSubmit={emailForm.handleSubmit(onChangeEmail)} className="space-y-4">
+              <div>
+                <input
+                  {...emailForm.register('email')}
+                  type="email"
+                  autoComplete="email"
+                  className={inputClassName}
+                  placeholder={t('auth.email')}
+                />
+                {emailForm.formState.errors.email && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${emailForm.formState.errors.email.message}`)}
+                  </p>
+                )}
+              </div>
+              <button
+                type="submit"
+                disabled={emailForm.formState.isSubmitting || !emailForm.formState.isDirty}
+                className={submitClassName}
+              >
+                {t('common.save')}
+              </button>
+            </form>
+          </section>
+
+          {/* Password */}
+          <section className={sectionClassName}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-amber-900 dark:text-white">
+                {t('account.changePassword')}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setShowPasswords(!showPasswords)}
+                className="text-sm text-amber-700 dark:text-gray-400 hover:text-amber-900 dark:hover:text-white transition-colors"
+              >
+                {showPasswords ? t('auth.hidePassword') : t('auth.showPassword')}
+              </button>
+            </div>
+            <form onSubmit={passwordForm.handleSubmit(onChangePassword)} className="space-y-4">
+              <div>
+                <input
+                  {...passwordForm.register('currentPassword')}
+                  type={showPasswords ? 'text' : 'password'}
+                  autoComplete="current-password"
+                  className={inputClassName}
+                  placeholder={t('account.currentPassword')}
+                />
+                {passwordForm.formState.errors.currentPassword && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${passwordForm.formState.errors.currentPassword.message}`)}
+                  </p>
+                )}
+              </div>
+              <div>
+                <input
+                  {...passwordForm.register('newPassword')}
+                  type={showPasswords ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                  placeholder={t('account.newPassword')}
+                />
+                {passwordForm.formState.errors.newPassword && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${passwordForm.formState.errors.newPassword.message}`)}
+                  </p>
+                )}
+                <RequirementList requirements={[
+                  { met: passwordChecks.length, label: t('auth.passwordMin6') },
+                  { met: passwordChecks.lowercase, label: t('auth.passwordLowercase') },
+                  { met: passwordChecks.uppercase, label: t('auth.passwordUppercase') },
+                  { met: passwordChecks.number, label: t('auth.passwordNumber') },
+                  { met: passwordChecks.special, label: t('auth.passwordSpecial') },
+                ]} />
+              </div>
+              <div>
+                <input
+                  {...passwordForm.register('confirmPassword')}
+                  type={showPasswords ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                  placeholder={t('auth.confirmPassword')}
+                />
+                {passwordForm.formState.errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+                    {t(`auth.${passwordForm.formState.errors.confirmPassword.message}`)}
+                  </p>
+                )}
+              </div>
+              <p className="text-xs text-amber-600 dark:text-gray-400">
+                {t('account.passwordChangeHint')}
+              </p>
+              <button
+                type="submit"
+                disabled={passwordForm.formState.isSubmitting}
+                className={submitClassName}
+              >
+                {t('account.changePassword')}
+              </button>
+            </form>
+          </section>
+
+          {/* Two-Factor Authentication */}
+          <section className={sectionClassName}>
+            <TwoFactorSettings />
+          </section>
+
+          {/* Sessions */}
+          <section className={`${sectionClassName} flex flex-wrap items-center justify-between gap-4`}>
+            <div>
+              <h3 className="text-lg font-medium text-amber-900 dark:text-white">
+                {t('sessions.title')}
+              </h3>
+              <p className="text-sm text-amber-700 dark:text-gray-400 mt-1">
+                {t('sessions.subtitle')}
+              </p>
+            </div>
+            <Link
+              to="/sessions"
+              className="px-4 py-2 text-sm border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              {t('account.manageSessions')}
+            </Link>
+          </section>
+
+          {/* Delete Account */}
+          <section className="p-6 rounded-xl border border-red-300 dark:border-red-800 backdrop-blur-sm shadow-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60">
+            <h3 className="text-lg font-medium text-red-700 dark:text-red-400">
+              {t('account.deleteAccount')}
+            </h3>
+            <p className="text-sm text-amber-700 dark:text-gray-400 mt-1 mb-4">
+              {t('account.deleteAccountWarning')}
+            </p>
+            <button
+              onClick={() => setShowDeleteModal(true)}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors"
+            >
+              {t('account.deleteAccount')}
+            </button>
+          </section>
+        </div>
+      </main>
+
+      {/* Delete Account Modal */}
+      {showDeleteModal && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={(e) => e.target === e.currentTarget && closeDeleteModal()}
+        >
+          <form
+            onSubmit={handleDeleteAccount}
+            className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-sm w-full p-6 border border-amber-200/50 dark:border-gray-600/50"
+          >
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {t('account.deleteAccount')}
+            </h3>
+            <p className="text-amber-700 dark:text-gray-400 mb-4">
+              {t('account.deleteAccountConfirm')}
+            </p>
+            <input
+              type="password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+              autoComplete="current-password"
+              autoFocus
+              className={`${inputClassName} mb-6`}
+              placeholder={t('auth.password')}
+            />
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={closeDeleteModal}
+                className="px-4 py-2 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={!deletePassword || isDeleting}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors disabled:opacity-50"
+              >
+                {t('account.deleteAccount')}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { customToast } from '../utils/toast';
+import { STATUS_STYLES } from '../utils/taskStatus';
+import { fetchTrash, restoreTask, purgeTask } from '../store/slices/trashSlice';
+import type { Task } from '../store/slices/taskSlice';
+import { RootState, AppDispatch } from '../store';
+import AuthHeader from '../components/AuthHeader';
+
+const actionClassName = 'px-3 py-1.5 text-sm border border-amber-300 dark:border-gray-600 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50';
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// Deleted tasks the user owns, to restore or delete for good before the server purges them
+const Trash: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch<AppDispatch>();
+  const { tasks, retentionDays, loading, error } = useSelector((state: RootState) => state.trash);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [purgeCandidate, setPurgeCandidate] = useState<Task | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchTrash());
+  }, [dispatch]);
+
+  useEffect(() => {
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setPurgeCandidate(null);
+      }
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, []);
+
+  const run = async (taskId: number, action: () => Promise<unknown>, successMessage: string) => {
+    setBusyId(taskId);
+    try {
+      await action();
+      customToast.success(successMessage);
+    } catch (error: any) {
+      customToast.error(error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (task: Task) => {
+    run(task.id, () => dispatch(restoreTask(task.id)).unwrap(), t('trash.taskRestored'));
+  };
+
+  const handlePurge = async () => {
+    if (!purgeCandidate) {
+      return;
+    }
+    const task = purgeCandidate;
+    setPurgeCandidate(null);
+    await run(task.id, () => dispatch(purgeTask(task.id)).unwrap(), t('trash.taskPurged'));
+  };
+
+  return (
+    <div className="min-h-screen grid-pattern flex flex-col">
+      <AuthHeader />
+
+      <main className="flex-1 w-full max-w-3xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        <Link
+          to="/dashboard"
+          className="inline-flex items-center gap-1 text-sm text-amber-700 dark:text-gray-400 hover:text-amber-900 dark:hover:text-white transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          {t('sessions.backToTasks')}
+        </Link>
+
+        <div className="mt-4">
+          <h2 className="text-2xl font-bold text-amber-900 dark:text-white">
+            {t('trash.title')}
+          </h2>
+          {retentionDays !== null && (
+            <p className="text-sm text-amber-700 dark:text-gray-400 mt-1">
+              {t('trash.subtitle', { count: retentionDays })}
+            </p>
+          )}
+        </div>
+
+        {loading && tasks.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+            <button
+              onClick={() => dispatch(fetchTrash())}
+              className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              {t('common.retry', { defaultValue: 'Retry' })}
+            </button>
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="py-12 text-center text-amber-700 dark:text-gray-400">
+            {t('trash.empty')}
+          </p>
+        ) : (
+          <ul className="mt-6 space-y-3">
+            {tasks.map((task) => (
+              <li
+                key={task.id}
+                className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-xl border border-gray-200/50 dark:border-gray-600/50 backdrop-blur-sm shadow-lg bg-gradient-to-br from-gray-50/60 to-gray-100/60 dark:from-gray-800/60 dark:to-gray-700/60"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-amber-900 dark:text-white truncate">{task.title}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[task.status].badge}`}>
+                      {t(`tasks.statuses.${task.status}`)}
+                    </span>
+                  </div>
+                  {task.deletedAt && (
+                    <p className="text-sm text-amber-700 dark:text-gray-400 mt-1">
+                      {t('trash.deletedOn', { date: formatDateTime(task.deletedAt) })}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleRestore(task)}
+                    disabled={busyId === task.id}
+                    className={actionClassName}
+                  >
+                    {t('trash.restore')}
+                  </button>
+                  <button
+                    onClick={() => setPurgeCandidate(task)}
+                    disabled={busyId === task.id}
+                    className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors disabled:opacity-50"
+                  >
+                    {t('trash.deleteForever')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+
+      {/* Delete Forever Modal */}
+      {purgeCandidate && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={(e) => e.target === e.currentTarget && setPurgeCandidate(null)}
+        >
+          <div className="bg-amber-50/95 dark:bg-gray-800/95 backdrop-blur-sm rounded-lg shadow-xl max-w-sm w-full p-6 border border-amber-200/50 dark:border-gray-600/50">
+            <h3 className="text-lg font-medium text-amber-900 dark:text-white mb-4">
+              {t('trash.deleteForever')}
+            </h3>
+            <p className="text-amber-700 dark:text-gray-400 mb-6">
+              {t('trash.deleteForeverConfirm', { title: purgeCandidate.title })}
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setPurgeCandidate(null)}
+                className="px-4 py-2 text-amber-700 dark:text-gray-300 rounded-md hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handlePurge}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors"
+              >
+                {t('trash.deleteForever')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
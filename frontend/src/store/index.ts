@@ -1,11 +1,25 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './slices/authSlice';
 import taskReducer from './slices/taskSlice';
+import tagReducer from './slices/tagSlice';
+import projectReducer from './slices/projectSlice';
+import sessionReducer from './slices/sessionSlice';
+import adminReducer from './slices/adminSlice';
+import commentReducer from './slices/commentSlice';
+import historyReducer from './slices/historySlice';
+import trashReducer from './slices/trashSlice';
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
     tasks: taskReducer,
+    tags: tagReducer,
+    projects: projectReducer,
+    sessions: sessionReducer,
+    admin: adminReducer,
+    comments: commentReducer,
+    history: historyReducer,
+    trash: trashReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
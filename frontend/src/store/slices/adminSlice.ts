@@ -0,0 +1,140 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+import type { Role } from './authSlice';
+import type { TaskStatus } from './taskSlice';
+
+export interface AdminUser {
+  id: number;
+  username: string;
+  email: string | null;
+  role: Role;
+  disabledAt: string | null;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+  taskCount: number;
+  taskCounts: Record<TaskStatus, number>;
+}
+
+export interface AdminStats {
+  users: number;
+  admins: number;
+  disabledUsers: number;
+  tasks: number;
+  tasksByStatus: Record<TaskStatus, number>;
+}
+
+interface UserListResponse {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+interface UserListQuery {
+  search?: string;
+  page?: number;
+}
+
+interface UpdateUserData {
+  id: number;
+  disabled?: boolean;
+  role?: Role;
+}
+
+interface AdminState {
+  users: AdminUser[];
+  stats: AdminStats | null;
+  total: number;
+  page: number;
+  totalPages: number;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: AdminState = {
+  users: [],
+  stats: null,
+  total: 0,
+  page: 1,
+  totalPages: 0,
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchUsers = createAsyncThunk<UserListResponse, UserListQuery>(
+  'admin/fetchUsers',
+  async (query, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/admin/users', { params: query });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch users';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const fetchAdminStats = createAsyncThunk<AdminStats>(
+  'admin/fetchStats',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/admin/stats');
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch statistics';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateUser = createAsyncThunk<AdminUser, UpdateUserData>(
+  'admin/updateUser',
+  async ({ id, ...data }, { rejectWithValue }) => {
+    try {
+      const response = await api.patch(`/admin/users/${id}`, data);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to update user';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const adminSlice = createSlice({
+  name: 'admin',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // Fetch users
+    builder
+      .addCase(fetchUsers.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchUsers.fulfilled, (state, action: PayloadAction<UserListResponse>) => {
+        state.loading = false;
+        state.users = action.payload.users;
+        state.total = action.payload.total;
+        state.page = action.payload.page;
+        state.totalPages = action.payload.totalPages;
+      })
+      .addCase(fetchUsers.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Statistics are secondary, so a failure leaves the previous numbers in place
+      .addCase(fetchAdminStats.fulfilled, (state, action: PayloadAction<AdminStats>) => {
+        state.stats = action.payload;
+      })
+
+      // Update failures are reported through the caller's toast
+      .addCase(updateUser.fulfilled, (state, action: PayloadAction<AdminUser>) => {
+        state.users = state.users.map(user => user.id === action.payload.id ? action.payload : user);
+      });
+  },
+});
+
+export default adminSlice.reducer;
@@ -1,9 +1,14 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import api from '../../utils/axiosConfig';
 
+export type Role = 'USER' | 'ADMIN';
+
 interface User {
   id: number;
   username: string;
+  email: string | null;
+  role: Role;
+  twoFactorEnabled: boolean;
 }
 
 interface AuthState {
@@ -12,6 +17,10 @@ interface AuthState {
   isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
+  // When a rate-limited or locked sign-in may be retried, as a timestamp
+  retryAt: number | null;
+  // Set between the password and the code step of a two-factor login
+  challengeToken: string | null;
 }
 
 interface LoginCredentials {
@@ -22,60 +31,304 @@ interface LoginCredentials {
 interface RegisterCredentials {
   username: string;
   password: string;
+  email?: string;
+}
+
+interface ResetPasswordData {
+  token: string;
+  password: string;
+}
+
+interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ChangeUsernameResponse {
+  token: string;
+  user: User;
 }
 
 interface AuthResponse {
   token: string;
+  refreshToken: string;
   user: User;
 }
 
+// What login returns instead of tokens when the account has two-factor authentication enabled
+interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface DisableTwoFactorData {
+  password: string;
+  code: string;
+}
+
+interface AuthRejection {
+  rejectValue: string;
+  rejectedMeta: { retryAt: number | null };
+}
+
+// The API answers 429 with the seconds to wait until the next attempt
+const getRetryAt = (error: any): number | null => {
+  const retryAfter = error.response?.status === 429 ? Number(error.response.data?.retryAfter) : NaN;
+  return Number.isFinite(retryAfter) ? Date.now() + retryAfter * 1000 : null;
+};
+
 const initialState: AuthState = {
   user: localStorage.getItem('meatec_user') ? JSON.parse(localStorage.getItem('meatec_user')!) : null,
   token: localStorage.getItem('meatec_token'),
   isAuthenticated: !!localStorage.getItem('meatec_token'),
   loading: false,
   error: null,
+  retryAt: null,
+  challengeToken: null,
 };
 
 // Async thunks
-export const loginUser = createAsyncThunk<AuthResponse, LoginCredentials>(
+export const loginUser = createAsyncThunk<AuthResponse | TwoFactorChallenge, LoginCredentials, AuthRejection>(
   'auth/login',
   async (credentials, { rejectWithValue }) => {
     try {
       const response = await api.post('/auth/login', credentials);
-      const { token, user } = response.data;
+
+      if (response.data.twoFactorRequired) {
+        return response.data as TwoFactorChallenge;
+      }
+
+      const { token, refreshToken, user } = response.data;
       
-      // Store token and user in localStorage
+      // Store tokens and user in localStorage
       localStorage.setItem('meatec_token', token);
+      localStorage.setItem('meatec_refresh_token', refreshToken);
       localStorage.setItem('meatec_user', JSON.stringify(user));
       
-      return { token, user };
+      return { token, refreshToken, user };
     } catch (error: any) {
       const message = error.response?.data?.error || 'Login failed';
-      return rejectWithValue(message);
+      return rejectWithValue(message, { retryAt: getRetryAt(error) });
+    }
+  }
+);
+
+export const verifyTwoFactorLogin = createAsyncThunk<AuthResponse, string, AuthRejection & { state: { auth: AuthState } }>(
+  'auth/verifyTwoFactorLogin',
+  async (code, { getState, rejectWithValue }) => {
+    try {
+      const response = await api.post('/auth/login/2fa', { challengeToken: getState().auth.challengeToken, code });
+      const { token, refreshToken, user } = response.data;
+
+      localStorage.setItem('meatec_token', token);
+      localStorage.setItem('meatec_refresh_token', refreshToken);
+      localStorage.setItem('meatec_user', JSON.stringify(user));
+
+      return { token, refreshToken, user };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Verification failed';
+      return rejectWithValue(message, { retryAt: getRetryAt(error) });
     }
   }
 );
 
-export const registerUser = createAsyncThunk<AuthResponse, RegisterCredentials>(
+export const registerUser = createAsyncThunk<AuthResponse, RegisterCredentials, AuthRejection>(
   'auth/register',
   async (credentials, { rejectWithValue }) => {
     try {
       const response = await api.post('/auth/register', credentials);
-      const { token, user } = response.data;
+      const { token, refreshToken, user } = response.data;
       
-      // Store token and user in localStorage
+      // Store tokens and user in localStorage
       localStorage.setItem('meatec_token', token);
+      localStorage.setItem('meatec_refresh_token', refreshToken);
       localStorage.setItem('meatec_user', JSON.stringify(user));
       
-      return { token, user };
+      return { token, refreshToken, user };
     } catch (error: any) {
       const message = error.response?.data?.error || 'Registration failed';
+      return rejectWithValue(message, { retryAt: getRetryAt(error) });
+    }
+  }
+);
+
+// The server ends the session so its refresh token stops working; the local sign-out happens either way
+export const logoutUser = createAsyncThunk<void, void>(
+  'auth/logoutUser',
+  async (_, { dispatch }) => {
+    try {
+      await api.post('/auth/logout');
+    } catch {
+      // An expired or already revoked session needs no server-side logout
+    }
+    dispatch(logout());
+  }
+);
+
+export const logoutAllDevices = createAsyncThunk<void, void>(
+  'auth/logoutAllDevices',
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      await api.post('/auth/logout-all');
+      dispatch(logout());
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to log out of all devices';
       return rejectWithValue(message);
     }
   }
 );
 
+export const changePassword = createAsyncThunk<void, ChangePasswordData>(
+  'auth/changePassword',
+  async (passwords, { rejectWithValue }) => {
+    try {
+      await api.put('/auth/password', passwords);
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to change password';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const changeUsername = createAsyncThunk<ChangeUsernameResponse, string>(
+  'auth/changeUsername',
+  async (username, { rejectWithValue }) => {
+    try {
+      const response = await api.put('/auth/username', { username });
+      const { token, user } = response.data;
+
+      // The old access token still carries the old name
+      localStorage.setItem('meatec_token', token);
+      localStorage.setItem('meatec_user', JSON.stringify(user));
+
+      return { token, user };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to change username';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const changeEmail = createAsyncThunk<User, string | null>(
+  'auth/changeEmail',
+  async (email, { rejectWithValue }) => {
+    try {
+      const response = await api.put('/auth/email', { email });
+      const { user } = response.data;
+
+      localStorage.setItem('meatec_user', JSON.stringify(user));
+
+      return user;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to change email';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const requestPasswordReset = createAsyncThunk<void, string>(
+  'auth/requestPasswordReset',
+  async (email, { rejectWithValue }) => {
+    try {
+      await api.post('/auth/forgot-password', { email });
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to request password reset';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const resetPassword = createAsyncThunk<void, ResetPasswordData>(
+  'auth/resetPassword',
+  async (data, { rejectWithValue }) => {
+    try {
+      await api.post('/auth/reset-password', data);
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to reset password';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteAccount = createAsyncThunk<void, string>(
+  'auth/deleteAccount',
+  async (password, { dispatch, rejectWithValue }) => {
+    try {
+      await api.delete('/auth/account', { data: { password } });
+      dispatch(logout());
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete account';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const setupTwoFactor = createAsyncThunk<TwoFactorSetup, void>(
+  'auth/setupTwoFactor',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await api.post('/auth/2fa/setup');
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to start two-factor setup';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+// Resolves with the recovery codes, which the server only ever shows this once
+export const enableTwoFactor = createAsyncThunk<string[], string>(
+  'auth/enableTwoFactor',
+  async (code, { rejectWithValue }) => {
+    try {
+      const response = await api.post('/auth/2fa/enable', { code });
+      return response.data.recoveryCodes;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to enable two-factor authentication';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const regenerateRecoveryCodes = createAsyncThunk<string[], string>(
+  'auth/regenerateRecoveryCodes',
+  async (code, { rejectWithValue }) => {
+    try {
+      const response = await api.post('/auth/2fa/recovery-codes', { code });
+      return response.data.recoveryCodes;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to create new recovery codes';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const disableTwoFactor = createAsyncThunk<void, DisableTwoFactorData>(
+  'auth/disableTwoFactor',
+  async (data, { rejectWithValue }) => {
+    try {
+      await api.post('/auth/2fa/disable', data);
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to disable two-factor authentication';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+// The cached user mirrors the two-factor flag so it survives a reload
+const setTwoFactorEnabled = (state: AuthState, enabled: boolean) => {
+  if (state.user) {
+    state.user.twoFactorEnabled = enabled;
+    localStorage.setItem('meatec_user', JSON.stringify(state.user));
+  }
+};
+
 const authSlice = createSlice({
   name: 'auth',
   initialState,
@@ -87,13 +340,23 @@ const authSlice = createSlice({
       state.loading = false;
       state.error = null;
       
-      // Remove token and user from localStorage
+      // Remove tokens and user from localStorage
       localStorage.removeItem('meatec_token');
+      localStorage.removeItem('meatec_refresh_token');
       localStorage.removeItem('meatec_user');
     },
+    // The API client stores refreshed tokens itself, the store only mirrors the access token
+    tokenRefreshed: (state, action: PayloadAction<string>) => {
+      state.token = action.payload;
+    },
     clearError: (state) => {
       state.error = null;
     },
+    // Leaves the code step of a two-factor login and goes back to the password form
+    cancelTwoFactorLogin: (state) => {
+      state.challengeToken = null;
+      state.error = null;
+    },
   },
   extraReducers: (builder) => {
     // Login
@@ -101,23 +364,50 @@ const authSlice = createSlice({
       .addCase(loginUser.pending, (state) => {
         state.loading = true;
         state.error = null;
+        state.retryAt = null;
       })
-      .addCase(loginUser.fulfilled, (state, action: PayloadAction<AuthResponse>) => {
+      .addCase(loginUser.fulfilled, (state, action: PayloadAction<AuthResponse | TwoFactorChallenge>) => {
         state.loading = false;
+        state.error = null;
+        if ('challengeToken' in action.payload) {
+          state.challengeToken = action.payload.challengeToken;
+          return;
+        }
         state.user = action.payload.user;
         state.token = action.payload.token;
         state.isAuthenticated = true;
-        state.error = null;
       })
       .addCase(loginUser.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
+        state.retryAt = action.meta.retryAt ?? null;
+      })
+
+      // Two-factor login
+      .addCase(verifyTwoFactorLogin.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+        state.retryAt = null;
+      })
+      .addCase(verifyTwoFactorLogin.fulfilled, (state, action: PayloadAction<AuthResponse>) => {
+        state.loading = false;
+        state.user = action.payload.user;
+        state.token = action.payload.token;
+        state.isAuthenticated = true;
+        state.challengeToken = null;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactorLogin.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+        state.retryAt = action.meta.retryAt ?? null;
       })
       
       // Register
       .addCase(registerUser.pending, (state) => {
         state.loading = true;
         state.error = null;
+        state.retryAt = null;
       })
       .addCase(registerUser.fulfilled, (state, action: PayloadAction<AuthResponse>) => {
         state.loading = false;
@@ -129,9 +419,25 @@ const authSlice = createSlice({
       .addCase(registerUser.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
+        state.retryAt = action.meta.retryAt ?? null;
+      })
+
+      // Account changes report failures through the settings page
+      .addCase(changeUsername.fulfilled, (state, action: PayloadAction<ChangeUsernameResponse>) => {
+        state.user = action.payload.user;
+        state.token = action.payload.token;
+      })
+      .addCase(changeEmail.fulfilled, (state, action: PayloadAction<User>) => {
+        state.user = action.payload;
+      })
+      .addCase(enableTwoFactor.fulfilled, (state) => {
+        setTwoFactorEnabled(state, true);
+      })
+      .addCase(disableTwoFactor.fulfilled, (state) => {
+        setTwoFactorEnabled(state, false);
       });
   },
 });
 
-export const { logout, clearError } = authSlice.actions;
+export const { logout, clearError, tokenRefreshed, cancelTwoFactorLogin } = authSlice.actions;
 export default authSlice.reducer;
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+import type { UserSummary } from './taskSlice';
+
+export interface Comment {
+  id: number;
+  body: string;
+  taskId: number;
+  authorId: number;
+  author: UserSummary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CommentState {
+  // Threads are loaded when a task card is opened and kept per task
+  byTaskId: Record<number, Comment[]>;
+  loading: boolean;
+  error: string | null;
+}
+
+interface CreateCommentData {
+  taskId: number;
+  body: string;
+}
+
+interface UpdateCommentData {
+  taskId: number;
+  commentId: number;
+  body: string;
+}
+
+interface DeleteCommentData {
+  taskId: number;
+  commentId: number;
+}
+
+interface CommentsResponse {
+  taskId: number;
+  comments: Comment[];
+}
+
+const initialState: CommentState = {
+  byTaskId: {},
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchComments = createAsyncThunk<CommentsResponse, number>(
+  'comments/fetchComments',
+  async (taskId, { rejectWithValue }) => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/comments`);
+      return { taskId, comments: response.data };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch comments';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const createComment = createAsyncThunk<Comment, CreateCommentData>(
+  'comments/createComment',
+  async ({ taskId, body }, { rejectWithValue }) => {
+    try {
+      const response = await api.post(`/tasks/${taskId}/comments`, { body });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to add comment';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateComment = createAsyncThunk<Comment, UpdateCommentData>(
+  'comments/updateComment',
+  async ({ taskId, commentId, body }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/tasks/${taskId}/comments/${commentId}`, { body });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to update comment';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteComment = createAsyncThunk<DeleteCommentData, DeleteCommentData>(
+  'comments/deleteComment',
+  async ({ taskId, commentId }, { rejectWithValue }) => {
+    try {
+      await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+      return { taskId, commentId };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete comment';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const commentSlice = createSlice({
+  name: 'comments',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // Fetch comments
+    builder
+      .addCase(fetchComments.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchComments.fulfilled, (state, action: PayloadAction<CommentsResponse>) => {
+        state.loading = false;
+        state.byTaskId[action.payload.taskId] = action.payload.comments;
+      })
+      .addCase(fetchComments.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Create, update and delete report failures through the caller's toast
+      .addCase(createComment.fulfilled, (state, action: PayloadAction<Comment>) => {
+        const { taskId } = action.payload;
+        state.byTaskId[taskId] = [...(state.byTaskId[taskId] ?? []), action.payload];
+      })
+      .addCase(updateComment.fulfilled, (state, action: PayloadAction<Comment>) => {
+        const comments = state.byTaskId[action.payload.taskId];
+        if (comments) {
+          state.byTaskId[action.payload.taskId] = comments.map(comment =>
+            comment.id === action.payload.id ? action.payload : comment);
+        }
+      })
+      .addCase(deleteComment.fulfilled, (state, action: PayloadAction<DeleteCommentData>) => {
+        const { taskId, commentId } = action.payload;
+        const comments = state.byTaskId[taskId];
+        if (comments) {
+          state.byTaskId[taskId] = comments.filter(comment => comment.id !== commentId);
+        }
+      });
+  },
+});
+
+export default commentSlice.reducer;
@@ -0,0 +1,87 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+import type { TaskStatus, TaskPriority, UserSummary } from './taskSlice';
+
+export type TaskEventAction = 'CREATED' | 'UPDATED' | 'DELETED';
+
+// Readable values as they were at the time; project, assignee and tags are stored by name
+export interface TaskSnapshot {
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: string | null;
+  tags: string[];
+  project: string | null;
+  assignee: string | null;
+}
+
+export type TaskField = keyof TaskSnapshot;
+
+export type TaskChanges = {
+  [Field in TaskField]?: { from: TaskSnapshot[Field] | null; to: TaskSnapshot[Field] | null };
+};
+
+export interface TaskEvent {
+  id: number;
+  action: TaskEventAction;
+  changes: TaskChanges;
+  // null once the acting account has been deleted
+  actor: UserSummary | null;
+  createdAt: string;
+}
+
+interface HistoryState {
+  // Loaded when a task card is opened and kept per task, newest first
+  byTaskId: Record<number, TaskEvent[]>;
+  loading: boolean;
+  error: string | null;
+}
+
+interface HistoryResponse {
+  taskId: number;
+  events: TaskEvent[];
+}
+
+const initialState: HistoryState = {
+  byTaskId: {},
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchTaskHistory = createAsyncThunk<HistoryResponse, number>(
+  'history/fetchTaskHistory',
+  async (taskId, { rejectWithValue }) => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/history`);
+      return { taskId, events: response.data };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch task history';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTaskHistory.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTaskHistory.fulfilled, (state, action: PayloadAction<HistoryResponse>) => {
+        state.loading = false;
+        state.byTaskId[action.payload.taskId] = action.payload.events;
+      })
+      .addCase(fetchTaskHistory.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default historySlice.reducer;
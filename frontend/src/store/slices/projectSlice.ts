@@ -0,0 +1,252 @@
+import { createSlice, createAsyncThunk, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+import { createTask, updateTask, deleteTask, bulkUpdateTasks, bulkDeleteTasks } from './taskSlice';
+import { restoreTask } from './trashSlice';
+import type { AccessLevel, UserSummary, Share, ShareRole } from './taskSlice';
+
+export interface Project {
+  id: number;
+  name: string;
+  description: string | null;
+  color: string | null;
+  archivedAt: string | null;
+  userId: number;
+  taskCount: number;
+  openTaskCount: number;
+  owner: UserSummary;
+  shares: Share[];
+  access: AccessLevel;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What happens to the tasks of a deleted project
+export type DeleteProjectTasks = 'unassign' | 'delete';
+
+interface ProjectState {
+  projects: Project[];
+  loading: boolean;
+  error: string | null;
+  // Task counts are out of date after a task changed
+  stale: boolean;
+}
+
+interface CreateProjectData {
+  name: string;
+  description?: string;
+  color?: string | null;
+}
+
+interface UpdateProjectData {
+  id: number;
+  name?: string;
+  description?: string | null;
+  color?: string | null;
+  archived?: boolean;
+}
+
+interface DeleteProjectData {
+  id: number;
+  tasks: DeleteProjectTasks;
+}
+
+interface ShareProjectData {
+  projectId: number;
+  username: string;
+  role: ShareRole;
+}
+
+interface UpdateProjectShareData {
+  projectId: number;
+  userId: number;
+  role: ShareRole;
+}
+
+interface RemoveProjectShareData {
+  projectId: number;
+  userId: number;
+}
+
+const initialState: ProjectState = {
+  projects: [],
+  loading: false,
+  error: null,
+  stale: false,
+};
+
+// Active projects first, then by name, matching the API order
+const byArchiveAndName = (a: Project, b: Project) =>
+  Number(a.archivedAt !== null) - Number(b.archivedAt !== null) || a.name.localeCompare(b.name);
+
+// Async thunks
+export const fetchProjects = createAsyncThunk<Project[]>(
+  'projects/fetchProjects',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/projects');
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch projects';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const createProject = createAsyncThunk<Project, CreateProjectData>(
+  'projects/createProject',
+  async (projectData, { rejectWithValue }) => {
+    try {
+      const response = await api.post('/projects', projectData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to create project';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateProject = createAsyncThunk<Project, UpdateProjectData>(
+  'projects/updateProject',
+  async ({ id, ...projectData }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/projects/${id}`, projectData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to update project';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteProject = createAsyncThunk<number, DeleteProjectData>(
+  'projects/deleteProject',
+  async ({ id, tasks }, { rejectWithValue }) => {
+    try {
+      await api.delete(`/projects/${id}`, { params: { tasks } });
+      return id;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete project';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const shareProject = createAsyncThunk<Share, ShareProjectData>(
+  'projects/shareProject',
+  async ({ projectId, ...shareData }, { rejectWithValue }) => {
+    try {
+      const response = await api.post(`/projects/${projectId}/shares`, shareData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to share project';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateProjectShare = createAsyncThunk<Share, UpdateProjectShareData>(
+  'projects/updateProjectShare',
+  async ({ projectId, userId, role }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/projects/${projectId}/shares/${userId}`, { role });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to change role';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+// Collaborators may remove themselves, which leaves the project
+export const removeProjectShare = createAsyncThunk<RemoveProjectShareData, RemoveProjectShareData>(
+  'projects/removeProjectShare',
+  async ({ projectId, userId }, { rejectWithValue }) => {
+    try {
+      await api.delete(`/projects/${projectId}/shares/${userId}`);
+      return { projectId, userId };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to remove collaborator';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const projectSlice = createSlice({
+  name: 'projects',
+  initialState,
+  reducers: {
+    clearProjects: (state) => {
+      state.projects = [];
+      state.error = null;
+      state.stale = false;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch projects
+    builder
+      .addCase(fetchProjects.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchProjects.fulfilled, (state, action: PayloadAction<Project[]>) => {
+        state.loading = false;
+        state.projects = action.payload;
+        state.stale = false;
+      })
+      .addCase(fetchProjects.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Create, update and delete report failures through the caller's toast
+      .addCase(createProject.fulfilled, (state, action: PayloadAction<Project>) => {
+        state.projects.push(action.payload);
+        state.projects.sort(byArchiveAndName);
+      })
+      .addCase(updateProject.fulfilled, (state, action: PayloadAction<Project>) => {
+        state.projects = state.projects
+          .map(project => project.id === action.payload.id ? action.payload : project)
+          .sort(byArchiveAndName);
+      })
+      .addCase(deleteProject.fulfilled, (state, action: PayloadAction<number>) => {
+        state.projects = state.projects.filter(project => project.id !== action.payload);
+      })
+
+      // Sharing
+      .addCase(shareProject.fulfilled, (state, action) => {
+        const project = state.projects.find(project => project.id === action.meta.arg.projectId);
+        project?.shares.push(action.payload);
+      })
+      .addCase(updateProjectShare.fulfilled, (state, action) => {
+        const project = state.projects.find(project => project.id === action.meta.arg.projectId);
+        if (project) {
+          project.shares = project.shares.map(share => share.userId === action.payload.userId ? action.payload : share);
+        }
+      })
+      .addCase(removeProjectShare.fulfilled, (state, action) => {
+        const { projectId, userId } = action.payload;
+        const project = state.projects.find(project => project.id === projectId);
+        // Only the owner removes others, so a collaborator removing a share has left the project
+        if (project?.access === 'OWNER') {
+          project.shares = project.shares.filter(share => share.userId !== userId);
+        } else {
+          state.projects = state.projects.filter(project => project.id !== projectId);
+        }
+      })
+
+      // Any task change may move the task counts
+      .addMatcher(isAnyOf(
+        createTask.fulfilled,
+        updateTask.fulfilled,
+        deleteTask.fulfilled,
+        restoreTask.fulfilled,
+        bulkUpdateTasks.fulfilled,
+        bulkDeleteTasks.fulfilled
+      ), (state) => {
+        state.stale = true;
+      });
+  },
+});
+
+export const { clearProjects } = projectSlice.actions;
+export default projectSlice.reducer;
@@ -0,0 +1,81 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  // Whether this is the session of the current browser
+  current: boolean;
+}
+
+interface SessionState {
+  sessions: Session[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: SessionState = {
+  sessions: [],
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchSessions = createAsyncThunk<Session[]>(
+  'sessions/fetchSessions',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/auth/sessions');
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch sessions';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const revokeSession = createAsyncThunk<string, string>(
+  'sessions/revokeSession',
+  async (id, { rejectWithValue }) => {
+    try {
+      await api.delete(`/auth/sessions/${id}`);
+      return id;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to revoke session';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const sessionSlice = createSlice({
+  name: 'sessions',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // Fetch sessions
+    builder
+      .addCase(fetchSessions.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchSessions.fulfilled, (state, action: PayloadAction<Session[]>) => {
+        state.loading = false;
+        state.sessions = action.payload;
+      })
+      .addCase(fetchSessions.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Revoke failures are reported through the caller's toast
+      .addCase(revokeSession.fulfilled, (state, action: PayloadAction<string>) => {
+        state.sessions = state.sessions.filter(session => session.id !== action.payload);
+      });
+  },
+});
+
+export default sessionSlice.reducer;
@@ -0,0 +1,136 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+
+// The part of a tag embedded in every task
+export interface TagSummary {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface Tag extends TagSummary {
+  userId: number;
+  taskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TagState {
+  tags: Tag[];
+  loading: boolean;
+  error: string | null;
+}
+
+interface CreateTagData {
+  name: string;
+  color: string;
+}
+
+interface UpdateTagData {
+  id: number;
+  name?: string;
+  color?: string;
+}
+
+const initialState: TagState = {
+  tags: [],
+  loading: false,
+  error: null,
+};
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name);
+
+// Async thunks
+export const fetchTags = createAsyncThunk<Tag[]>(
+  'tags/fetchTags',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/tags');
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch tags';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const createTag = createAsyncThunk<Tag, CreateTagData>(
+  'tags/createTag',
+  async (tagData, { rejectWithValue }) => {
+    try {
+      const response = await api.post('/tags', tagData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to create tag';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateTag = createAsyncThunk<Tag, UpdateTagData>(
+  'tags/updateTag',
+  async ({ id, ...tagData }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/tags/${id}`, tagData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to update tag';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteTag = createAsyncThunk<number, number>(
+  'tags/deleteTag',
+  async (tagId, { rejectWithValue }) => {
+    try {
+      await api.delete(`/tags/${tagId}`);
+      return tagId;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete tag';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const tagSlice = createSlice({
+  name: 'tags',
+  initialState,
+  reducers: {
+    clearTags: (state) => {
+      state.tags = [];
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch tags
+    builder
+      .addCase(fetchTags.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTags.fulfilled, (state, action: PayloadAction<Tag[]>) => {
+        state.loading = false;
+        state.tags = action.payload;
+      })
+      .addCase(fetchTags.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Create, update and delete report failures through the caller's toast
+      .addCase(createTag.fulfilled, (state, action: PayloadAction<Tag>) => {
+        state.tags.push(action.payload);
+        state.tags.sort(byName);
+      })
+      .addCase(updateTag.fulfilled, (state, action: PayloadAction<Tag>) => {
+        state.tags = state.tags.map(tag => tag.id === action.payload.id ? action.payload : tag).sort(byName);
+      })
+      .addCase(deleteTag.fulfilled, (state, action: PayloadAction<number>) => {
+        state.tags = state.tags.filter(tag => tag.id !== action.payload);
+      });
+  },
+});
+
+export const { clearTags } = tagSlice.actions;
+export default tagSlice.reducer;
@@ -1,16 +1,145 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import api from '../../utils/axiosConfig';
+import { isClosedStatus } from '../../utils/taskStatus';
+import { updateTag, deleteTag } from './tagSlice';
+import { fetchComments, createComment, deleteComment } from './commentSlice';
+import { restoreTask } from './trashSlice';
+import type { Tag, TagSummary } from './tagSlice';
 
-export type TaskStatus = 'PENDING' | 'COMPLETED';
+export type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'BLOCKED' | 'COMPLETED' | 'CANCELLED';
+
+export const TASK_STATUSES: TaskStatus[] = ['PENDING', 'IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED'];
+
+export type TaskFilter = 'all' | TaskStatus;
+
+export type TaskPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+export type TaskSortField = 'createdAt' | 'updatedAt' | 'title' | 'status' | 'priority' | 'dueDate' | 'position';
+
+export type SortOrder = 'asc' | 'desc';
+
+// A project id, or 'none' for tasks outside any project
+export type ProjectFilter = number | 'none';
+
+// A user id, or 'none' for unassigned tasks
+export type AssigneeFilter = number | 'none';
+
+export type ShareRole = 'VIEWER' | 'EDITOR';
+
+export const SHARE_ROLES: ShareRole[] = ['VIEWER', 'EDITOR'];
+
+// What the current user may do with a task or project: owners also share and delete, viewers only read
+export type AccessLevel = 'OWNER' | ShareRole;
+
+export interface Share {
+  userId: number;
+  username: string;
+  role: ShareRole;
+}
+
+export interface UserSummary {
+  id: number;
+  username: string;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Repeats every `interval` days, weeks, months or years from the first due date
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Days of the week of weekly rules, 0 = Sunday; empty repeats on the weekday of the first due date
+  weekdays: number[];
+  until: string | null;
+  timeZone: string;
+}
+
+// Whether an edit of a recurring task also applies to the occurrences still to come
+export type EditScope = 'occurrence' | 'series';
+
+// Another task as a dependency shows it
+export interface TaskLink {
+  id: number;
+  title: string;
+  status: TaskStatus;
+}
+
+export interface ChecklistItem {
+  id: number;
+  title: string;
+  done: boolean;
+  position: number;
+  taskId: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Title and snippet mark the matched words with <mark> tags
+export interface TaskSearchMatch {
+  rank: number;
+  title: string;
+  snippet: string | null;
+}
 
 export interface Task {
   id: number;
   title: string;
   description: string | null;
   status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: string | null;
+  hasDueTime: boolean;
+  position: number;
   userId: number;
+  projectId: number | null;
+  assigneeId: number | null;
+  seriesId: number | null;
+  recurrence: Recurrence | null;
+  // Tasks that have to be finished before this one can be completed, and the tasks this one holds up.
+  // Tasks the user cannot see are left out, but still block completion.
+  blockedBy: TaskLink[];
+  blocking: TaskLink[];
+  // Only set on tasks in the trash
+  deletedAt: string | null;
   createdAt: string;
   updatedAt: string;
+  items: ChecklistItem[];
+  tags: TagSummary[];
+  commentCount: number;
+  owner: UserSummary;
+  assignee: UserSummary | null;
+  shares: Share[];
+  access: AccessLevel;
+  // Only present on full-text search results
+  match?: TaskSearchMatch;
+}
+
+export interface TaskQuery {
+  status?: TaskStatus;
+  search?: string;
+  // Full-text search, ranked by relevance unless sortBy is given
+  q?: string;
+  sortBy?: TaskSortField;
+  sortOrder?: SortOrder;
+  dueFrom?: string;
+  dueTo?: string;
+  overdue?: boolean;
+  tags?: number[];
+  projectId?: ProjectFilter;
+  assigneeId?: AssigneeFilter;
+  page?: number;
+  limit?: number;
+  // Tasks to skip instead of a page; loading more passes the number of loaded tasks so it never skips any
+  offset?: number;
+}
+
+export interface TaskStats {
+  total: number;
+  byStatus: Record<TaskStatus, number>;
 }
 
 interface TaskState {
@@ -18,12 +147,25 @@ interface TaskState {
   loading: boolean;
   error: string | null;
   total: number;
+  query: TaskQuery;
+  // The latest task request; responses to earlier ones are stale and dropped
+  fetchRequestId?: string;
+  stats: TaskStats;
+  // The project the statistics were last fetched for
+  statsProjectId?: ProjectFilter;
 }
 
 interface CreateTaskData {
   title: string;
   description?: string;
   status?: TaskStatus;
+  priority?: TaskPriority;
+  dueDate?: string | null;
+  hasDueTime?: boolean;
+  tagIds?: number[];
+  projectId?: number | null;
+  assigneeId?: number | null;
+  recurrence?: Recurrence;
 }
 
 interface UpdateTaskData {
@@ -31,26 +173,107 @@ interface UpdateTaskData {
   title?: string;
   description?: string;
   status?: TaskStatus;
+  priority?: TaskPriority;
+  dueDate?: string | null;
+  hasDueTime?: boolean;
+  tagIds?: number[];
+  projectId?: number | null;
+  assigneeId?: number | null;
+  recurrence?: Recurrence | null;
+  scope?: EditScope;
+}
+
+// Completing an occurrence of a recurring task creates the next one
+interface UpdateTaskResponse extends Task {
+  nextOccurrence?: Task;
+}
+
+// The same changes are applied to every selected task
+interface BulkUpdateTasksData {
+  ids: number[];
+  status?: TaskStatus;
+  projectId?: number | null;
+  addTagIds?: number[];
+  removeTagIds?: number[];
+}
+
+// Places the task directly before or after another task in the manual order
+interface MoveTaskData {
+  id: number;
+  beforeId?: number;
+  afterId?: number;
+}
+
+interface UpdateChecklistItemData {
+  taskId: number;
+  itemId: number;
+  title?: string;
+  done?: boolean;
+}
+
+interface DependencyData {
+  taskId: number;
+  blockerId: number;
+}
+
+interface DependencyResponse {
+  blocker: TaskLink;
+  blocked: TaskLink;
+}
+
+interface ShareData {
+  taskId: number;
+  username: string;
+  role: ShareRole;
+}
+
+interface UpdateShareData {
+  taskId: number;
+  userId: number;
+  role: ShareRole;
+}
+
+interface RemoveShareData {
+  taskId: number;
+  userId: number;
+}
+
+interface BulkUpdateTasksResponse {
+  tasks: Task[];
+  createdTasks: Task[];
 }
 
 interface TasksResponse {
   tasks: Task[];
   total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
 }
 
+const emptyStats = (): TaskStats => ({
+  total: 0,
+  byStatus: Object.fromEntries(TASK_STATUSES.map(status => [status, 0])) as Record<TaskStatus, number>,
+});
+
 const initialState: TaskState = {
   tasks: [],
   loading: false,
   error: null,
   total: 0,
+  query: {},
+  stats: emptyStats(),
 };
 
 // Async thunks
-export const fetchTasks = createAsyncThunk<TasksResponse>(
+// A request without an offset replaces the list, one with an offset appends to it for infinite scrolling
+export const fetchTasks = createAsyncThunk<TasksResponse, TaskQuery | undefined>(
   'tasks/fetchTasks',
-  async (_, { rejectWithValue }) => {
+  async (query = {}, { rejectWithValue }) => {
     try {
-      const response = await api.get('/tasks');
+      // The API takes tag ids as a comma separated list
+      const params = { ...query, tags: query.tags?.length ? query.tags.join(',') : undefined };
+      const response = await api.get('/tasks', { params });
       return response.data;
     } catch (error: any) {
       const message = error.response?.data?.error || 'Failed to fetch tasks';
@@ -59,6 +282,19 @@ export const fetchTasks = createAsyncThunk<TasksResponse>(
   }
 );
 
+export const fetchTaskStats = createAsyncThunk<TaskStats, { projectId?: ProjectFilter } | undefined>(
+  'tasks/fetchTaskStats',
+  async ({ projectId } = {}, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/tasks/stats', { params: { projectId } });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch task statistics';
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const createTask = createAsyncThunk<Task, CreateTaskData>(
   'tasks/createTask',
   async (taskData, { rejectWithValue }) => {
@@ -72,7 +308,7 @@ export const createTask = createAsyncThunk<Task, CreateTaskData>(
   }
 );
 
-export const updateTask = createAsyncThunk<Task, UpdateTaskData>(
+export const updateTask = createAsyncThunk<UpdateTaskResponse, UpdateTaskData>(
   'tasks/updateTask',
   async ({ id, ...taskData }, { rejectWithValue }) => {
     try {
@@ -85,6 +321,58 @@ export const updateTask = createAsyncThunk<Task, UpdateTaskData>(
   }
 );
 
+export const moveTask = createAsyncThunk<Task, MoveTaskData>(
+  'tasks/moveTask',
+  async ({ id, ...placement }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/tasks/${id}/position`, placement);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to move task';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const createChecklistItem = createAsyncThunk<ChecklistItem, { taskId: number; title: string }>(
+  'tasks/createChecklistItem',
+  async ({ taskId, title }, { rejectWithValue }) => {
+    try {
+      const response = await api.post(`/tasks/${taskId}/items`, { title });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to add checklist item';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateChecklistItem = createAsyncThunk<ChecklistItem, UpdateChecklistItemData>(
+  'tasks/updateChecklistItem',
+  async ({ taskId, itemId, ...itemData }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/tasks/${taskId}/items/${itemId}`, itemData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to update checklist item';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const deleteChecklistItem = createAsyncThunk<{ taskId: number; itemId: number }, { taskId: number; itemId: number }>(
+  'tasks/deleteChecklistItem',
+  async ({ taskId, itemId }, { rejectWithValue }) => {
+    try {
+      await api.delete(`/tasks/${taskId}/items/${itemId}`);
+      return { taskId, itemId };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete checklist item';
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const deleteTask = createAsyncThunk<number, number>(
   'tasks/deleteTask',
   async (taskId, { rejectWithValue }) => {
@@ -98,6 +386,192 @@ export const deleteTask = createAsyncThunk<number, number>(
   }
 );
 
+export const bulkUpdateTasks = createAsyncThunk<BulkUpdateTasksResponse, BulkUpdateTasksData>(
+  'tasks/bulkUpdateTasks',
+  async (changes, { rejectWithValue }) => {
+    try {
+      const response = await api.patch('/tasks/bulk', changes);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to update tasks';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const bulkDeleteTasks = createAsyncThunk<number[], number[]>(
+  'tasks/bulkDeleteTasks',
+  async (ids, { rejectWithValue }) => {
+    try {
+      const response = await api.post('/tasks/bulk-delete', { ids });
+      return response.data.taskIds;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete tasks';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const addDependency = createAsyncThunk<DependencyResponse, DependencyData>(
+  'tasks/addDependency',
+  async ({ taskId, blockerId }, { rejectWithValue }) => {
+    try {
+      const response = await api.post(`/tasks/${taskId}/dependencies`, { blockerId });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to add dependency';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const removeDependency = createAsyncThunk<DependencyData, DependencyData>(
+  'tasks/removeDependency',
+  async ({ taskId, blockerId }, { rejectWithValue }) => {
+    try {
+      await api.delete(`/tasks/${taskId}/dependencies/${blockerId}`);
+      return { taskId, blockerId };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to remove dependency';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const shareTask = createAsyncThunk<Share, ShareData>(
+  'tasks/shareTask',
+  async ({ taskId, ...shareData }, { rejectWithValue }) => {
+    try {
+      const response = await api.post(`/tasks/${taskId}/shares`, shareData);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to share task';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const updateTaskShare = createAsyncThunk<Share, UpdateShareData>(
+  'tasks/updateTaskShare',
+  async ({ taskId, userId, role }, { rejectWithValue }) => {
+    try {
+      const response = await api.put(`/tasks/${taskId}/shares/${userId}`, { role });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to change role';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+// Collaborators may remove themselves, which leaves the task
+export const removeTaskShare = createAsyncThunk<RemoveShareData, RemoveShareData>(
+  'tasks/removeTaskShare',
+  async ({ taskId, userId }, { rejectWithValue }) => {
+    try {
+      await api.delete(`/tasks/${taskId}/shares/${userId}`);
+      return { taskId, userId };
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to remove collaborator';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const inProject = (task: Task, projectId?: ProjectFilter) =>
+  projectId === undefined || task.projectId === (projectId === 'none' ? null : projectId);
+
+const matchesQuery = (task: Task, query: TaskQuery) => {
+  if (query.status && task.status !== query.status) {
+    return false;
+  }
+  if (!inProject(task, query.projectId)) {
+    return false;
+  }
+  if (query.assigneeId !== undefined && task.assigneeId !== (query.assigneeId === 'none' ? null : query.assigneeId)) {
+    return false;
+  }
+  if (query.tags?.length && !task.tags.some(tag => query.tags!.includes(tag.id))) {
+    return false;
+  }
+  if (query.dueFrom || query.dueTo || query.overdue) {
+    if (!task.dueDate) {
+      return false;
+    }
+    const due = new Date(task.dueDate).getTime();
+    if (query.dueFrom && due < new Date(query.dueFrom).getTime()) return false;
+    if (query.dueTo && due > new Date(query.dueTo).getTime()) return false;
+    if (query.overdue && (isClosedStatus(task.status) || due >= Date.now())) return false;
+  }
+  return true;
+};
+
+// Keeps the title and status shown in the dependencies of other loaded tasks up to date
+const syncTaskLinks = (state: TaskState, { id, title, status }: Task) => {
+  const updateLink = (link: TaskLink) => link.id === id ? { id, title, status } : link;
+  for (const task of state.tasks) {
+    task.blockedBy = task.blockedBy.map(updateLink);
+    task.blocking = task.blocking.map(updateLink);
+  }
+};
+
+// Replaces a loaded task with its updated version, dropping it when it no longer matches the list
+const applyTaskUpdate = (state: TaskState, updatedTask: Task) => {
+  syncTaskLinks(state, updatedTask);
+  const index = state.tasks.findIndex(task => task.id === updatedTask.id);
+  if (index === -1) {
+    return;
+  }
+  const previousTask = state.tasks[index];
+  if (inProject(previousTask, state.statsProjectId)) {
+    state.stats.total -= 1;
+    state.stats.byStatus[previousTask.status] -= 1;
+  }
+  if (inProject(updatedTask, state.statsProjectId)) {
+    state.stats.total += 1;
+    state.stats.byStatus[updatedTask.status] += 1;
+  }
+
+  if (matchesQuery(updatedTask, state.query)) {
+    state.tasks[index] = updatedTask;
+  } else {
+    state.tasks.splice(index, 1);
+    state.total -= 1;
+  }
+};
+
+// Adds a task that was created on the server to the top of the list
+const insertTask = (state: TaskState, newTask: Task) => {
+  // Whether a new task matches a full-text search is only known to the server
+  if (!state.query.q && matchesQuery(newTask, state.query)) {
+    state.tasks.unshift(newTask);
+    state.total += 1;
+  }
+  // Statistics only count the tasks of the project they were fetched for
+  if (inProject(newTask, state.statsProjectId)) {
+    state.stats.total += 1;
+    state.stats.byStatus[newTask.status] += 1;
+  }
+};
+
+const removeTask = (state: TaskState, taskId: number) => {
+  const deletedTask = state.tasks.find(task => task.id === taskId);
+  if (deletedTask && inProject(deletedTask, state.statsProjectId)) {
+    state.stats.total -= 1;
+    state.stats.byStatus[deletedTask.status] -= 1;
+  }
+  // A task that was never loaded, like one deleted from another view, is not counted in the list total either way
+  if (deletedTask) {
+    state.tasks = state.tasks.filter(task => task.id !== taskId);
+    state.total -= 1;
+  }
+  // Tasks in the trash no longer block anything
+  for (const task of state.tasks) {
+    task.blockedBy = task.blockedBy.filter(link => link.id !== taskId);
+    task.blocking = task.blocking.filter(link => link.id !== taskId);
+  }
+};
+
 const taskSlice = createSlice({
   name: 'tasks',
   initialState,
@@ -108,26 +582,55 @@ const taskSlice = createSlice({
     clearTasks: (state) => {
       state.tasks = [];
       state.total = 0;
+      state.query = {};
+      state.stats = emptyStats();
+      state.statsProjectId = undefined;
     },
   },
   extraReducers: (builder) => {
     // Fetch tasks
     builder
-      .addCase(fetchTasks.pending, (state) => {
+      .addCase(fetchTasks.pending, (state, action) => {
         state.loading = true;
         state.error = null;
+        // Loading more keeps the query of the list it extends
+        if (!action.meta.arg?.offset) {
+          state.query = action.meta.arg || {};
+        }
+        state.fetchRequestId = action.meta.requestId;
       })
-      .addCase(fetchTasks.fulfilled, (state, action: PayloadAction<TasksResponse>) => {
+      // Filters can change while a request is in flight, e.g. during a debounced search or while the next page loads
+      .addCase(fetchTasks.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.fetchRequestId) {
+          return;
+        }
+        const { tasks, total } = action.payload;
         state.loading = false;
-        state.tasks = action.payload.tasks;
-        state.total = action.payload.total;
+        if (action.meta.arg?.offset) {
+          const loadedIds = new Set(state.tasks.map(task => task.id));
+          state.tasks.push(...tasks.filter(task => !loadedIds.has(task.id)));
+        } else {
+          state.tasks = tasks;
+        }
+        state.total = total;
         state.error = null;
       })
       .addCase(fetchTasks.rejected, (state, action) => {
+        if (action.meta.requestId !== state.fetchRequestId) {
+          return;
+        }
         state.loading = false;
         state.error = action.payload as string;
       })
       
+      // Fetch stats
+      .addCase(fetchTaskStats.pending, (state, action) => {
+        state.statsProjectId = action.meta.arg?.projectId;
+      })
+      .addCase(fetchTaskStats.fulfilled, (state, action: PayloadAction<TaskStats>) => {
+        state.stats = action.payload;
+      })
+
       // Create task
       .addCase(createTask.pending, (state) => {
         state.loading = true;
@@ -135,8 +638,7 @@ const taskSlice = createSlice({
       })
       .addCase(createTask.fulfilled, (state, action: PayloadAction<Task>) => {
         state.loading = false;
-        state.tasks.unshift(action.payload);
-        state.total += 1;
+        insertTask(state, action.payload);
         state.error = null;
       })
       .addCase(createTask.rejected, (state, action) => {
@@ -149,19 +651,135 @@ const taskSlice = createSlice({
         state.loading = true;
         state.error = null;
       })
-      .addCase(updateTask.fulfilled, (state, action: PayloadAction<Task>) => {
+      .addCase(updateTask.fulfilled, (state, action: PayloadAction<UpdateTaskResponse>) => {
+        const { nextOccurrence, ...task } = action.payload;
         state.loading = false;
-        const index = state.tasks.findIndex(task => task.id === action.payload.id);
-        if (index !== -1) {
-          state.tasks[index] = action.payload;
+        applyTaskUpdate(state, task);
+        if (nextOccurrence) {
+          insertTask(state, nextOccurrence);
         }
         state.error = null;
       })
-      .addCase(updateTask.rejected, (state, action) => {
+      // A failed update, like completing a task that is still blocked, leaves the list as it was; callers report it
+      .addCase(updateTask.rejected, (state) => {
         state.loading = false;
-        state.error = action.payload as string;
       })
       
+      // Move task
+      // A failed move leaves the list as it was, so it does not replace the list with an error
+      .addCase(moveTask.fulfilled, (state, action) => {
+        const { beforeId, afterId } = action.meta.arg;
+        const index = state.tasks.findIndex(task => task.id === action.payload.id);
+        if (index === -1) {
+          return;
+        }
+
+        state.tasks.splice(index, 1);
+        const anchorIndex = state.tasks.findIndex(task => task.id === (beforeId ?? afterId));
+        if (anchorIndex === -1) {
+          state.tasks.splice(index, 0, action.payload);
+        } else {
+          state.tasks.splice(beforeId !== undefined ? anchorIndex : anchorIndex + 1, 0, action.payload);
+        }
+      })
+
+      // Checklist items
+      // Like moves, failed checklist edits are reported by the caller instead of replacing the list with an error
+      .addCase(createChecklistItem.fulfilled, (state, action: PayloadAction<ChecklistItem>) => {
+        const task = state.tasks.find(task => task.id === action.payload.taskId);
+        task?.items.push(action.payload);
+      })
+      .addCase(updateChecklistItem.fulfilled, (state, action: PayloadAction<ChecklistItem>) => {
+        const task = state.tasks.find(task => task.id === action.payload.taskId);
+        if (task) {
+          task.items = task.items.map(item => item.id === action.payload.id ? action.payload : item);
+        }
+      })
+      .addCase(deleteChecklistItem.fulfilled, (state, action) => {
+        const task = state.tasks.find(task => task.id === action.payload.taskId);
+        if (task) {
+          task.items = task.items.filter(item => item.id !== action.payload.itemId);
+        }
+      })
+
+      // Dependencies show up on both tasks; failures are reported through the caller's toast
+      .addCase(addDependency.fulfilled, (state, action: PayloadAction<DependencyResponse>) => {
+        const { blocker, blocked } = action.payload;
+        state.tasks.find(task => task.id === blocked.id)?.blockedBy.push(blocker);
+        state.tasks.find(task => task.id === blocker.id)?.blocking.push(blocked);
+      })
+      .addCase(removeDependency.fulfilled, (state, action: PayloadAction<DependencyData>) => {
+        const { taskId, blockerId } = action.payload;
+        const blockedTask = state.tasks.find(task => task.id === taskId);
+        const blocker = state.tasks.find(task => task.id === blockerId);
+        if (blockedTask) {
+          blockedTask.blockedBy = blockedTask.blockedBy.filter(link => link.id !== blockerId);
+        }
+        if (blocker) {
+          blocker.blocking = blocker.blocking.filter(link => link.id !== taskId);
+        }
+      })
+
+      // Sharing
+      // Failures are reported through the caller's toast
+      .addCase(shareTask.fulfilled, (state, action) => {
+        const task = state.tasks.find(task => task.id === action.meta.arg.taskId);
+        task?.shares.push(action.payload);
+      })
+      .addCase(updateTaskShare.fulfilled, (state, action) => {
+        const task = state.tasks.find(task => task.id === action.meta.arg.taskId);
+        if (task) {
+          task.shares = task.shares.map(share => share.userId === action.payload.userId ? action.payload : share);
+        }
+      })
+      .addCase(removeTaskShare.fulfilled, (state, action) => {
+        const { taskId, userId } = action.payload;
+        const task = state.tasks.find(task => task.id === taskId);
+        if (!task) {
+          return;
+        }
+        // Only the owner removes others, so a collaborator removing a share has left the task
+        if (task.access === 'OWNER') {
+          task.shares = task.shares.filter(share => share.userId !== userId);
+        } else {
+          state.tasks = state.tasks.filter(task => task.id !== taskId);
+          state.total -= 1;
+        }
+      })
+
+      // Keep tag chips on loaded tasks in sync with tag edits
+      .addCase(updateTag.fulfilled, (state, action: PayloadAction<Tag>) => {
+        const { id, name, color } = action.payload;
+        for (const task of state.tasks) {
+          task.tags = task.tags.map(tag => tag.id === id ? { id, name, color } : tag);
+        }
+      })
+      .addCase(deleteTag.fulfilled, (state, action: PayloadAction<number>) => {
+        for (const task of state.tasks) {
+          task.tags = task.tags.filter(tag => tag.id !== action.payload);
+        }
+      })
+
+      // Keep the comment count on the collapsed card in sync with the thread
+      .addCase(fetchComments.fulfilled, (state, action) => {
+        const task = state.tasks.find(task => task.id === action.payload.taskId);
+        if (task) {
+          task.commentCount = action.payload.comments.length;
+        }
+      })
+      .addCase(createComment.fulfilled, (state, action) => {
+        const task = state.tasks.find(task => task.id === action.payload.taskId);
+        if (task) {
+          task.commentCount += 1;
+        }
+      })
+      .addCase(deleteComment.fulfilled, (state, action) => {
+        const task = state.tasks.find(task => task.id === action.payload.taskId);
+        if (task) {
+          task.commentCount -= 1;
+        }
+      })
+
       // Delete task
       .addCase(deleteTask.pending, (state) => {
         state.loading = true;
@@ -169,13 +787,33 @@ const taskSlice = createSlice({
       })
       .addCase(deleteTask.fulfilled, (state, action: PayloadAction<number>) => {
         state.loading = false;
-        state.tasks = state.tasks.filter(task => task.id !== action.payload);
-        state.total -= 1;
+        removeTask(state, action.payload);
         state.error = null;
       })
-      .addCase(deleteTask.rejected, (state, action) => {
+      // A failed delete keeps the task where it was; the caller's toast reports it
+      .addCase(deleteTask.rejected, (state) => {
         state.loading = false;
-        state.error = action.payload as string;
+      })
+
+      // Bulk actions
+      // Nothing changes when one task fails its check, so failures are only reported through the caller's toast
+      .addCase(bulkUpdateTasks.fulfilled, (state, action: PayloadAction<BulkUpdateTasksResponse>) => {
+        for (const task of action.payload.tasks) {
+          applyTaskUpdate(state, task);
+        }
+        for (const task of action.payload.createdTasks) {
+          insertTask(state, task);
+        }
+      })
+      .addCase(bulkDeleteTasks.fulfilled, (state, action: PayloadAction<number[]>) => {
+        for (const taskId of action.payload) {
+          removeTask(state, taskId);
+        }
+      })
+
+      // A restored task comes back like a new one, from the trash page or the undo toast
+      .addCase(restoreTask.fulfilled, (state, action: PayloadAction<Task>) => {
+        insertTask(state, action.payload);
       });
   },
 });
@@ -0,0 +1,96 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import api from '../../utils/axiosConfig';
+import type { Task } from './taskSlice';
+
+interface TrashState {
+  tasks: Task[];
+  // Days a deleted task stays here before the server purges it
+  retentionDays: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface TrashResponse {
+  tasks: Task[];
+  retentionDays: number;
+}
+
+const initialState: TrashState = {
+  tasks: [],
+  retentionDays: null,
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchTrash = createAsyncThunk<TrashResponse>(
+  'trash/fetchTrash',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await api.get('/tasks/trash');
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to fetch trash';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const restoreTask = createAsyncThunk<Task, number>(
+  'trash/restoreTask',
+  async (taskId, { rejectWithValue }) => {
+    try {
+      const response = await api.post(`/tasks/trash/${taskId}/restore`);
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to restore task';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const purgeTask = createAsyncThunk<number, number>(
+  'trash/purgeTask',
+  async (taskId, { rejectWithValue }) => {
+    try {
+      await api.delete(`/tasks/trash/${taskId}`);
+      return taskId;
+    } catch (error: any) {
+      const message = error.response?.data?.error || 'Failed to delete task';
+      return rejectWithValue(message);
+    }
+  }
+);
+
+const trashSlice = createSlice({
+  name: 'trash',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // Fetch trash
+    builder
+      .addCase(fetchTrash.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTrash.fulfilled, (state, action: PayloadAction<TrashResponse>) => {
+        state.loading = false;
+        state.tasks = action.payload.tasks;
+        state.retentionDays = action.payload.retentionDays;
+      })
+      .addCase(fetchTrash.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      // Restoring and purging report failures through the caller's toast
+      .addCase(restoreTask.fulfilled, (state, action: PayloadAction<Task>) => {
+        state.tasks = state.tasks.filter(task => task.id !== action.payload.id);
+      })
+      .addCase(purgeTask.fulfilled, (state, action: PayloadAction<number>) => {
+        state.tasks = state.tasks.filter(task => task.id !== action.payload);
+      });
+  },
+});
+
+export default trashSlice.reducer;
@@ -0,0 +1,25 @@
+import type { Share, UserSummary } from '../store/slices/taskSlice';
+
+interface SharedResource {
+  owner: UserSummary;
+  shares: Share[];
+}
+
+// Everyone who can see a task and may therefore be assigned to it: its owner, its collaborators and those of
+// its project. The task owner comes first, everyone else follows by username.
+export const getAssigneeOptions = (task: SharedResource, project?: SharedResource): UserSummary[] => {
+  const others = new Map<number, UserSummary>();
+  const add = (user: UserSummary) => {
+    if (user.id !== task.owner.id) {
+      others.set(user.id, user);
+    }
+  };
+
+  task.shares.forEach((share) => add({ id: share.userId, username: share.username }));
+  if (project) {
+    add(project.owner);
+    project.shares.forEach((share) => add({ id: share.userId, username: share.username }));
+  }
+
+  return [task.owner, ...[...others.values()].sort((a, b) => a.username.localeCompare(b.username))];
+};
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+// Messages are keys in the auth translation section
+
+export const usernameRule = z
+  .string()
+  .min(1, 'usernameRequired')
+  .min(3, 'usernameMinLength')
+  .max(20, 'usernameMaxLength')
+  .regex(/^[a-zA-Z0-9_]+$/, 'usernameInvalid');
+
+export const passwordRule = z
+  .string()
+  .min(1, 'passwordRequired')
+  .min(6, 'passwordMinLength')
+  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&"])[A-Za-z\d@$!%*?&"]+$/, 'passwordRequirements');
+
+// Email is optional, so an empty field is valid
+export const optionalEmailRule = z
+  .string()
+  .trim()
+  .email('emailInvalid')
+  .or(z.literal(''));
+
+// Live checks shown under the inputs while typing
+export const getUsernameChecks = (username: string) => ({
+  length: username.length >= 3 && username.length <= 20,
+  chars: username.length > 0 && /^[a-zA-Z0-9_]+$/.test(username)
+});
+
+export const getPasswordChecks = (password: string) => ({
+  length: password.length >= 6,
+  lowercase: /[a-z]/.test(password),
+  uppercase: /[A-Z]/.test(password),
+  number: /\d/.test(password),
+  special: /[@$!%*?&"]/.test(password)
+});
@@ -1,6 +1,6 @@
 import axios from 'axios';
 import { store } from '../store';
-import { logout } from '../store/slices/authSlice';
+import { logout, tokenRefreshed } from '../store/slices/authSlice';
 
 const API_BASE_URL = 'http://localhost:5000/api';
 
@@ -23,21 +23,77 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle auth errors
+// Endpoints whose 401 means bad credentials rather than an expired access token
+const AUTH_PATHS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+// Concurrent requests that fail at the same time share a single refresh
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('meatec_refresh_token');
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      // A plain axios call keeps the refresh itself out of this interceptor
+      const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+      const { token, refreshToken: nextRefreshToken } = response.data;
+
+      localStorage.setItem('meatec_token', token);
+      localStorage.setItem('meatec_refresh_token', nextRefreshToken);
+      store.dispatch(tokenRefreshed(token));
+      return token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const redirectToLogin = () => {
+  // Only redirect if not already on login page
+  const currentPath = window.location.pathname;
+  if (currentPath !== '/login' && currentPath !== '/register') {
+    // Session expired or revoked
+    localStorage.removeItem('meatec_token');
+    localStorage.removeItem('meatec_refresh_token');
+    store.dispatch(logout());
+    window.location.href = '/login';
+  }
+};
+
+// Response interceptor to refresh expired access tokens and retry the request once
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Only redirect if not already on login page
-      const currentPath = window.location.pathname;
-      if (currentPath !== '/login' && currentPath !== '/register') {
-        // Token expired or invalid
-        localStorage.removeItem('meatec_token');
-        store.dispatch(logout());
-        window.location.href = '/login';
-      }
+  async (error) => {
+    const original = error.config;
+
+    if (error.response?.status !== 401 || AUTH_PATHS.some((path) => original?.url?.startsWith(path))) {
+      return Promise.reject(error);
+    }
+
+    // The retried request was rejected as well, so the session is gone
+    if (!original || original._retry) {
+      redirectToLogin();
+      return Promise.reject(error);
+    }
+
+    original._retry = true;
+
+    try {
+      // Another tab may have refreshed already, in which case its token is used as is
+      const usedToken = String(original.headers?.Authorization ?? '').replace('Bearer ', '');
+      const storedToken = localStorage.getItem('meatec_token');
+      const token = storedToken && storedToken !== usedToken ? storedToken : await refreshAccessToken();
+
+      original.headers.Authorization = `Bearer ${token}`;
+      return api(original);
+    } catch {
+      redirectToLogin();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
@@ -0,0 +1,7 @@
+// Remaining time as m:ss, rounded up so the countdown never shows 0:00 while still waiting
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
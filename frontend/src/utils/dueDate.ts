@@ -0,0 +1,89 @@
+import type { Task, TaskQuery } from '../store/slices/taskSlice';
+import { isClosedStatus } from './taskStatus';
+
+export type DueFilter = 'all' | 'overdue' | 'today' | 'week';
+
+export type DueState = 'overdue' | 'today' | 'week' | 'later';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+// "This week" runs until the end of the coming Sunday
+const endOfWeek = (date: Date) => {
+  const daysUntilSunday = (7 - date.getDay()) % 7;
+  return endOfDay(new Date(date.getFullYear(), date.getMonth(), date.getDate() + daysUntilSunday));
+};
+
+// A date without a time is due at the end of that local day
+export const toDueDatePayload = (date?: string, time?: string): { dueDate: string | null; hasDueTime: boolean } => {
+  if (!date) {
+    return { dueDate: null, hasDueTime: false };
+  }
+
+  const [year, month, day] = date.split('-').map(Number);
+  if (time) {
+    const [hours, minutes] = time.split(':').map(Number);
+    return { dueDate: new Date(year, month - 1, day, hours, minutes).toISOString(), hasDueTime: true };
+  }
+
+  return { dueDate: endOfDay(new Date(year, month - 1, day)).toISOString(), hasDueTime: false };
+};
+
+// Splits a stored due date back into the values used by the date and time inputs
+export const toDueDateInputs = (task: Pick<Task, 'dueDate' | 'hasDueTime'>): { dueDate: string; dueTime: string } => {
+  if (!task.dueDate) {
+    return { dueDate: '', dueTime: '' };
+  }
+
+  const date = new Date(task.dueDate);
+  return {
+    dueDate: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    dueTime: task.hasDueTime ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : '',
+  };
+};
+
+export const getDueState = (task: Pick<Task, 'dueDate' | 'status'>, now = new Date()): DueState | null => {
+  if (!task.dueDate) {
+    return null;
+  }
+
+  const due = new Date(task.dueDate);
+  if (!isClosedStatus(task.status) && due < now) {
+    return 'overdue';
+  }
+  if (due <= endOfDay(now)) {
+    return 'today';
+  }
+  if (due <= endOfWeek(now)) {
+    return 'week';
+  }
+  return 'later';
+};
+
+export const formatDueDate = (task: Pick<Task, 'dueDate' | 'hasDueTime'>) => {
+  if (!task.dueDate) {
+    return '';
+  }
+
+  const date = new Date(task.dueDate);
+  return task.hasDueTime
+    ? date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })
+    : date.toLocaleDateString();
+};
+
+// Date windows are computed on the client so "today" follows the user's local time zone
+export const getDueFilterQuery = (filter: DueFilter, now = new Date()): Pick<TaskQuery, 'dueFrom' | 'dueTo' | 'overdue'> => {
+  switch (filter) {
+    case 'overdue':
+      return { overdue: true };
+    case 'today':
+      return { dueFrom: startOfDay(now).toISOString(), dueTo: endOfDay(now).toISOString() };
+    case 'week':
+      return { dueFrom: startOfDay(now).toISOString(), dueTo: endOfWeek(now).toISOString() };
+    default:
+      return {};
+  }
+};
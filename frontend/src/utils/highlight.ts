@@ -0,0 +1,26 @@
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+// Splits a search highlight from the API into plain and matched parts, so it can be rendered
+// as text nodes instead of HTML; the surrounding text is user content and is not escaped by the server
+export const splitHighlights = (value: string): HighlightPart[] => {
+  const parts: HighlightPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(MARK_PATTERN)) {
+    if (match.index > lastIndex) {
+      parts.push({ text: value.slice(lastIndex, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < value.length) {
+    parts.push({ text: value.slice(lastIndex), highlighted: false });
+  }
+  return parts;
+};
@@ -0,0 +1,64 @@
+import type { Recurrence } from '../store/slices/taskSlice';
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+// The rule without the time zone, which is always the user's own
+export type RecurrenceRule = Pick<Recurrence, 'frequency' | 'interval' | 'weekdays'> & { until?: string | null };
+
+const withTime = (date: Date, year: number, month: number, day: number) =>
+  new Date(year, month, day, date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+
+const addDays = (date: Date, days: number) => withTime(date, date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Keeps the day of the month, clamped to shorter months: Jan 31 is followed by Feb 28 and then Mar 31
+const addMonths = (date: Date, months: number) => {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return withTime(date, date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+};
+
+// Mirrors the occurrences computed by the backend in utils/recurrence.ts, in the local time zone.
+// Returns up to `count` due dates after `start`, the due date of the task itself.
+export const getUpcomingOccurrences = (rule: RecurrenceRule, start: Date, count = 5): Date[] => {
+  const until = rule.until ? new Date(rule.until) : null;
+  const occurrences: Date[] = [];
+  const add = (date: Date) => {
+    if (date > start && (!until || date <= until) && occurrences.length < count) {
+      occurrences.push(date);
+    }
+    return occurrences.length < count && (!until || date <= until);
+  };
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      let index = 1;
+      while (add(addDays(start, index * rule.interval))) {
+        index++;
+      }
+      break;
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+      const weekStart = addDays(start, -start.getDay());
+      for (let round = 0, more = true; more; round++) {
+        for (const weekday of weekdays) {
+          more = add(addDays(weekStart, round * rule.interval * 7 + weekday));
+          if (!more) {
+            break;
+          }
+        }
+      }
+      break;
+    }
+    case 'MONTHLY':
+    case 'YEARLY': {
+      const months = rule.frequency === 'MONTHLY' ? rule.interval : rule.interval * 12;
+      let index = 1;
+      while (add(addMonths(start, index * months))) {
+        index++;
+      }
+      break;
+    }
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,22 @@
+// Palette offered when creating a tag; the API accepts any #rrggbb value
+export const TAG_COLORS = [
+  '#b91c1c',
+  '#c2410c',
+  '#a16207',
+  '#15803d',
+  '#0e7490',
+  '#1d4ed8',
+  '#7e22ce',
+  '#be185d',
+  '#4b5563',
+];
+
+// Picks dark or light text so the tag name stays readable on its own color (WCAG relative luminance)
+export const getTagTextColor = (hex: string): string => {
+  const [r, g, b] = [1, 3, 5].map((start) => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.4 ? '#1f2937' : '#ffffff';
+};
@@ -0,0 +1,47 @@
+import type { Task, TaskStatus } from '../store/slices/taskSlice';
+
+// Mirrors the transition rules enforced by the backend in utils/taskWorkflow.ts
+const ALLOWED_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  PENDING: ['IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED'],
+  IN_PROGRESS: ['PENDING', 'BLOCKED', 'COMPLETED', 'CANCELLED'],
+  BLOCKED: ['PENDING', 'IN_PROGRESS', 'CANCELLED'],
+  COMPLETED: ['PENDING', 'IN_PROGRESS'],
+  CANCELLED: ['PENDING'],
+};
+
+export const STATUS_STYLES: Record<TaskStatus, { badge: string; border: string }> = {
+  PENDING: {
+    badge: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+    border: 'border-l-red-700 dark:border-l-red-500',
+  },
+  IN_PROGRESS: {
+    badge: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300',
+    border: 'border-l-sky-500 dark:border-l-sky-400',
+  },
+  BLOCKED: {
+    badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+    border: 'border-l-orange-500 dark:border-l-orange-400',
+  },
+  COMPLETED: {
+    badge: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    border: 'border-l-green-500 dark:border-l-green-400',
+  },
+  CANCELLED: {
+    badge: 'bg-gray-200 text-gray-700 dark:bg-gray-700/60 dark:text-gray-300',
+    border: 'border-l-gray-400 dark:border-l-gray-500',
+  },
+};
+
+export const getAllowedTransitions = (status: TaskStatus): TaskStatus[] => ALLOWED_TRANSITIONS[status];
+
+export const isClosedStatus = (status: TaskStatus) => status === 'COMPLETED' || status === 'CANCELLED';
+
+// Blockers that are neither completed nor cancelled
+export const getOpenBlockers = (task: Pick<Task, 'blockedBy'>) =>
+  task.blockedBy.filter((link) => !isClosedStatus(link.status));
+
+// The statuses a task can move to; the backend refuses to complete it while it still has open blockers
+export const getNextStatuses = (task: Pick<Task, 'status' | 'blockedBy'>): TaskStatus[] => {
+  const isBlocked = getOpenBlockers(task).length > 0;
+  return getAllowedTransitions(task.status).filter((status) => !(isBlocked && status === 'COMPLETED'));
+};
@@ -1,15 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 
+// Toasts with an action stay longer, so there is time to use it
+const ACTION_TOAST_DURATION_MS = 8000;
+
+// A button shown next to the message, e.g. to undo what was just done
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 // Custom toast component with dismiss button
 const CustomToast = ({ 
   t, 
   message, 
-  type 
+  type,
+  action
 }: { 
   t: any; 
   message: string; 
-  type: 'success' | 'error' | 'loading' 
+  type: 'success' | 'error' | 'loading';
+  action?: ToastAction;
 }) => {
   const [isVisible, setIsVisible] = useState(true);
   const [isAnimating, setIsAnimating] = useState(true);
@@ -31,6 +42,11 @@ const CustomToast = ({
     }, 300);
   };
 
+  const handleAction = () => {
+    handleDismiss();
+    action?.onClick();
+  };
+
   if (!isVisible) {
     return null;
   }
@@ -65,6 +81,24 @@ const CustomToast = ({
         <span style={{ fontSize: '16px' }}>{icon}</span>
         <span>{message}</span>
       </div>
+      {action && (
+        <button
+          onClick={handleAction}
+          style={{
+            background: 'rgba(255, 255, 255, 0.2)',
+            border: 'none',
+            borderRadius: '6px',
+            color: 'white',
+            cursor: 'pointer',
+            fontSize: '13px',
+            fontWeight: '600',
+            padding: '4px 10px',
+            marginLeft: 'auto',
+          }}
+        >
+          {action.label}
+        </button>
+      )}
       <button
         onClick={handleDismiss}
         style={{
@@ -88,8 +122,11 @@ const CustomToast = ({
 
 // Custom toast functions
 export const customToast = {
-  success: (message: string) => {
-    toast.custom((t) => <CustomToast t={t} message={message} type="success" />);
+  success: (message: string, action?: ToastAction) => {
+    toast.custom(
+      (t) => <CustomToast t={t} message={message} type="success" action={action} />,
+      action && { duration: ACTION_TOAST_DURATION_MS }
+    );
   },
   error: (message: string) => {
     toast.custom((t) => <CustomToast t={t} message={message} type="error" />);
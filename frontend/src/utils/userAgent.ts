@@ -0,0 +1,38 @@
+export interface DeviceDescription {
+  browser: string | null;
+  os: string | null;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome also claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// Android and iOS user agents also mention Linux and Mac OS X
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const findMatch = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+// A rough browser and OS name for the sessions list, not meant for feature detection
+export const describeUserAgent = (userAgent: string | null): DeviceDescription => {
+  if (!userAgent) {
+    return { browser: null, os: null };
+  }
+
+  return {
+    browser: findMatch(userAgent, BROWSERS),
+    os: findMatch(userAgent, SYSTEMS),
+  };
+};